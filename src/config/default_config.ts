@@ -14,7 +14,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://rpc.ankr.com/eth",
@@ -22,7 +22,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://ethereum.publicnode.com",
@@ -30,7 +30,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -46,7 +46,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://rpc.ankr.com/polygon",
@@ -54,7 +54,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://polygon.publicnode.com",
@@ -62,7 +62,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -78,7 +78,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://rpc.ankr.com/bsc",
@@ -86,7 +86,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://bsc.publicnode.com",
@@ -94,7 +94,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -110,7 +110,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://rpc.ankr.com/arbitrum",
@@ -118,7 +118,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://arbitrum.publicnode.com",
@@ -126,7 +126,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -142,7 +142,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://rpc.ankr.com/optimism",
@@ -150,7 +150,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://optimism.publicnode.com",
@@ -158,7 +158,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -167,6 +167,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
       name: "Solana Devnet",
       symbol: "SOL",
       blockExplorerUrl: "https://explorer.solana.com/?cluster=devnet",
+      genesisHash: "EtWTRABZaYq6iMfeYKouRu166VL2xqa1wcaSv9rSwbBb",
       rpcs: [
         {
           url: "https://api.devnet.solana.com",
@@ -174,7 +175,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://solana-devnet.api.onfinality.io/public",
@@ -182,7 +183,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     },
@@ -191,6 +192,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
       name: "Solana Mainnet",
       symbol: "SOL",
       blockExplorerUrl: "https://explorer.solana.com",
+      genesisHash: "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d",
       rpcs: [
         {
           url: "https://public.rpc.solanavibestation.com/",
@@ -198,7 +200,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 10,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://solana.therpc.io",
@@ -206,7 +208,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 9,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://solana.drpc.org",
@@ -214,7 +216,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 8,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         },
         {
           url: "https://api.mainnet-beta.solana.com",
@@ -222,7 +224,7 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
           priority: 7,
           timeout: 30000,
           maxRetries: 3,
-          isActive: true
+          enabled: true
         }
       ]
     }
@@ -244,12 +246,18 @@ export const DEFAULT_RPC_CONFIG: RPCConfig = {
       'Origin',
       'Access-Control-Request-Method',
       'Access-Control-Request-Headers',
-      'solana-client'
+      'solana-client',
+      'X-Session-ID'
     ],
     exposedHeaders: [
       'Content-Length',
       'Content-Type',
-      'X-Request-ID'
+      'X-Request-ID',
+      'X-RPC-Attempts',
+      'X-Cache',
+      'Age',
+      'X-Broadcast-Results',
+      'X-Transaction-Replay'
     ],
     maxAge: 86400, // 24 hours
     credentials: false
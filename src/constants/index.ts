@@ -21,6 +21,7 @@ export const APP_CONSTANTS = {
     CHAIN_ID: 1, // Ethereum mainnet
     MAX_RETRIES: 3,
     RETRY_BASE_DELAY: 1000, // 1 second
+    REQUEST_DEADLINE: 25000, // Milliseconds after which failover starts no new attempts
   },
 
   // Cache Configuration
@@ -29,7 +30,203 @@ export const APP_CONSTANTS = {
     MAX_SIZE: 1000,
     KEY_PREFIX: 'rpc-proxy',
     CONFIG_TTL: 3600, // 1 hour
-    HEALTH_TTL: 60 // 1 minute
+    HEALTH_TTL: 60, // 1 minute
+    HEALTH_STATE_TTL: 10, // Seconds the request path reuses loaded health state
+    L1_HOST: 'rpc-proxy.cache', // Synthetic host for Cache API (L1) keys
+    L1_MAX_TTL: 300, // Seconds a long-lived entry stays in L1 before it is re-read from KV
+    GENERATIONS_KEY: 'generations', // KV key holding the cache generations
+    GENERATIONS_STATE_TTL: 10, // Seconds an isolate reuses the loaded cache generations
+  },
+
+  // TTLs (seconds) picked by the cache policy engine
+  CACHE_POLICY: {
+    IMMUTABLE_TTL: 86400, // Hash-pinned or confirmed data that can no longer change
+    TAG_TTL: 30, // Reads at the 'safe' / 'finalized' tags, which advance every few minutes
+    RECENT_TTL: 12, // Fixed recent blocks that could still be reorged (about one block)
+    LATEST_TTL: 2, // Reads at 'latest' and chain head values
+    KV_MIN_TTL: 60, // KV rejects shorter expirations, so shorter-lived entries are kept in L1 only
+    DEFAULT_MAX_STALE: 300, // Seconds past its TTL an entry may be served when every upstream fails
+    STALE_LIMIT: 86400, // Upper bound for configured stale limits; cache generations outlive TTL + this
+    // Head values go bad quickly (a blockhash expires after ~150 slots)
+    METHOD_MAX_STALE: {
+      eth_blockNumber: 30,
+      eth_gasPrice: 30,
+      eth_maxPriorityFeePerGas: 30,
+      getLatestBlockhash: 30,
+    },
+    // Default confirmation depth: blocks behind the head after which block data is treated as final
+    CONFIRMATIONS: {
+      evm: 12,
+      solana: 32,
+    },
+  },
+
+  // Reorg-aware cache invalidation
+  REORG: {
+    WINDOW: 256, // Recent heights whose block hash is remembered per chain
+    ORPHAN_RETENTION: 3600, // Seconds an orphaned block hash is remembered; outlives any entry read from it
+    STATE_TTL: 10, // Seconds an isolate reuses the loaded orphan list
+  },
+
+  // Default health probes per chain family
+  HEALTH_PROBES: {
+    evm: {
+      method: 'eth_chainId',
+      heightMethod: 'eth_blockNumber',
+    },
+    solana: {
+      method: 'getHealth',
+      heightMethod: 'getSlot',
+    },
+  },
+
+  // Upstream authentication schemes and the fields each one needs
+  UPSTREAM_AUTH: {
+    FIELDS: {
+      bearer: ['token'],
+      header: ['name', 'value'],
+      path: ['key'],
+      query: ['name', 'value'],
+      basic: ['username', 'password'],
+    },
+    // Fields holding credentials, which are encrypted at rest and redacted in admin responses
+    SECRET_FIELDS: {
+      bearer: ['token'],
+      header: ['value'],
+      path: ['key'],
+      query: ['value'],
+      basic: ['password'],
+    },
+  },
+
+  // Provider secret storage
+  SECRETS: {
+    REF_PREFIX: 'secret://', // secret://NAME is resolved from the Worker secret NAME
+    ENCRYPTED_PREFIX: 'enc:v1:', // enc:v1:<iv>:<ciphertext>, AES-GCM with CONFIG_ENCRYPTION_KEY
+    REDACTED: '[REDACTED]',
+  },
+
+  // Methods proving which chain an endpoint serves
+  CHAIN_IDENTITY: {
+    evm: 'eth_chainId',
+    solana: 'getGenesisHash',
+  },
+
+  // Default maxBlockLag per chain family
+  // Solana produces a slot every ~400ms, so it tolerates a larger gap in the same wall time
+  BLOCK_LAG: {
+    evm: 10,
+    solana: 150,
+  },
+
+  // Default method policy per chain family; its denies also apply to chains with their own methodPolicy
+  METHOD_POLICIES: {
+    evm: {
+      deny: ['debug_*', 'admin_*', 'personal_*', 'txpool_*'],
+    },
+    solana: {
+      deny: [],
+    },
+  },
+
+  // Solana mainnet, recognized by its genesis hash or the chain ID of the default config
+  SOLANA_MAINNET: {
+    CHAIN_ID: 'sol-main',
+    GENESIS_HASH: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+    DENY: ['requestAirdrop'], // Airdrops only exist on devnet/testnet
+  },
+
+  // Method-aware routing
+  CAPABILITIES: {
+    VALUES: ['archive', 'trace', 'debug', 'websocket'],
+    // Full nodes keep state for recent blocks only (geth: 128)
+    DEFAULT_ARCHIVE_THRESHOLD: 128,
+    // EVM state methods and the position of their block parameter
+    BLOCK_PARAM_INDEX: {
+      eth_getBalance: 1,
+      eth_getCode: 1,
+      eth_getTransactionCount: 1,
+      eth_getStorageAt: 2,
+      eth_call: 1,
+      eth_estimateGas: 1,
+      eth_createAccessList: 1,
+      eth_getProof: 2,
+    },
+  },
+
+  // Per-endpoint circuit breaker
+  CIRCUIT_BREAKER: {
+    FAILURE_THRESHOLD: 5, // Consecutive errors/timeouts that open the circuit
+    OPEN_DURATION: 30000, // Milliseconds before an open circuit lets a trial request through
+    PROBE_TIMEOUT: 10000, // Milliseconds before an unanswered trial request is handed out again
+    STATE_CACHE_TTL: 1000, // Milliseconds an isolate reuses state read from the Durable Object
+  },
+
+  // Hedged requests
+  HEDGING: {
+    // Read methods hedged by default once hedging is enabled for a chain
+    DEFAULT_METHODS: {
+      evm: ['eth_call', 'eth_getBalance', 'eth_getCode', 'eth_getStorageAt', 'eth_getTransactionCount', 'eth_estimateGas'],
+      solana: ['getAccountInfo', 'getBalance', 'getMultipleAccounts', 'getTokenAccountBalance', 'getTokenAccountsByOwner'],
+    },
+    LATENCY_PERCENTILE: 90, // Percentile of the primary's latency used as hedge delay
+    MIN_DELAY: 50, // Milliseconds; keeps a fast endpoint from being hedged on every request
+    DEFAULT_DELAY: 500, // Milliseconds; used until the primary has latency samples
+  },
+
+  // Coalescing of identical in-flight requests
+  COALESCING: {
+    // Read methods coalesced unless a chain turns them off
+    DEFAULT_METHODS: {
+      evm: [
+        'eth_blockNumber', 'eth_chainId', 'net_version', 'eth_gasPrice', 'eth_maxPriorityFeePerGas', 'eth_feeHistory',
+        'eth_call', 'eth_getBalance', 'eth_getCode', 'eth_getStorageAt', 'eth_getTransactionCount',
+        'eth_getBlockByNumber', 'eth_getBlockByHash', 'eth_getTransactionByHash', 'eth_getTransactionReceipt', 'eth_getLogs',
+      ],
+      solana: [
+        'getLatestBlockhash', 'getSlot', 'getBlockHeight', 'getEpochInfo', 'getAccountInfo', 'getMultipleAccounts',
+        'getBalance', 'getTokenAccountBalance', 'getTokenSupply', 'getTransaction', 'getBlock', 'getSignatureStatuses',
+      ],
+    },
+  },
+
+  // Multi-endpoint transaction broadcast
+  BROADCAST: {
+    METHODS: ['eth_sendRawTransaction'],
+    DEFAULT_FANOUT: 3,
+    // Error messages meaning the node already has the transaction (geth, erigon, nethermind, besu, ...)
+    ALREADY_KNOWN_ERRORS: ['already known', 'alreadyknown', 'known transaction', 'already imported', 'already exists'],
+  },
+
+  // Idempotent transaction submission
+  TRANSACTIONS: {
+    SUBMIT_METHOD: 'eth_sendRawTransaction',
+    SUBMISSION_TTL: 3600, // Seconds a submission is remembered after the client last sent it
+  },
+
+  // Solana transaction rebroadcast
+  REBROADCAST: {
+    METHOD: 'sendTransaction',
+    DEFAULT_INTERVAL: 2000, // Milliseconds between rebroadcast rounds
+    DEFAULT_FANOUT: 3,
+    MAX_DURATION: 120000, // Milliseconds; a blockhash lasts 150 blocks (~60-90s), this is a safety stop
+    RETENTION: 3600000, // Milliseconds the outcome stays queryable after the loop ends
+  },
+
+  // Monotonic head per client session
+  SESSION: {
+    HEADER: 'X-Session-ID', // Identifies a client session; X-API-Key is used when it is missing
+    API_KEY_HEADER: 'X-API-Key',
+    TTL: 600, // Seconds a session is remembered after its last request
+    MAX_SESSIONS: 10000, // Sessions kept per isolate without the Durable Object; least recently used are dropped
+  },
+
+  // JSON-RPC batch handling
+  BATCH: {
+    MAX_SIZE: 100, // Maximum number of entries accepted in one batch
+    // Upstream answers to a batch meaning "no batches here": split into single calls
+    UNSUPPORTED_ERROR_CODES: [-32600, -32700], // Invalid Request / Parse error for the whole array
+    UNSUPPORTED_STATUSES: [400, 404, 405, 413, 415], // Client errors without a JSON-RPC body
   },
 
   // API Endpoints
@@ -133,6 +330,8 @@ export const APP_CONSTANTS = {
     INTERNAL_ERROR: -32603,
     CHAIN_NOT_SUPPORTED: -32001,
     NO_HEALTHY_RPCS: -32002,
+    NO_CAPABLE_RPCS: -32003,
+    QUORUM_NOT_REACHED: -32004,
   },
 } as const;
 
@@ -8,6 +8,11 @@ import { AdminUIComponents } from './ui/admin_components';
 import { AdminClientService } from './services/admin_client';
 import { errorHandler, SystemError } from './utils/error_handler';
 
+// Durable Object classes must be exported from the main module
+export { CircuitBreakerDurableObject } from './services/circuit_breaker';
+export { TransactionRebroadcastDurableObject } from './services/transaction_rebroadcaster';
+export { SessionDurableObject } from './services/session_tracker';
+
 /**
  * Handle management routes
  */
@@ -35,6 +40,10 @@ async function handleManagementRoutes(request: Request, env: Env): Promise<Respo
     }
   }
 
+  if (path === '/admin/config/encrypt-secrets' && method === 'POST') {
+    return managementRoutes.encryptSecrets(request);
+  }
+
   if (path === '/admin/chains') {
     if (method === 'GET') {
       return managementRoutes.getChains(request);
@@ -125,6 +134,28 @@ async function handleManagementRoutes(request: Request, env: Env): Promise<Respo
     }
   }
 
+  // Cache administration
+  if (path === '/admin/cache/generations' && method === 'GET') {
+    return managementRoutes.getCacheGenerations(request);
+  }
+
+  if (path === '/admin/cache/stats' && method === 'GET') {
+    return managementRoutes.getCacheStats(request);
+  }
+
+  if (path === '/admin/cache/purge' && method === 'POST') {
+    return managementRoutes.purgeCache(request);
+  }
+
+  // Transaction submission records
+  const adminTransactionMatch = path.match(/^\/admin\/transactions\/([^\/]+)\/([^\/]+)$/);
+  if (adminTransactionMatch && method === 'GET') {
+    const chainIdStr = adminTransactionMatch[1];
+    const parsed = parseInt(chainIdStr, 10);
+    const chainId = isNaN(parsed) ? chainIdStr : parsed;
+    return managementRoutes.getTransaction(request, chainId, adminTransactionMatch[2]);
+  }
+
   // Admin RPC health check
   const adminRpcHealthMatch = path.match(/^\/admin\/chains\/([^\/]+)\/rpcs\/health$/);
   if (adminRpcHealthMatch) {
@@ -239,7 +270,7 @@ async function handleManagementRoutes(request: Request, env: Env): Promise<Respo
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -268,7 +299,7 @@ export default {
 
       // Proxy all other requests
       const proxyService = new ProxyService(env, env.RPC_CACHE as any);
-      return await proxyService.handleRequest(request, env);
+      return await proxyService.handleRequest(request, env, ctx);
 
     } catch (error) {
       const systemError = new SystemError('Request handling failed', 'main-worker');
@@ -310,9 +341,9 @@ function getAPIDocumentation(): Response {
 - DELETE /chains/{id} - Remove chain
 
 ### RPC Management
-- POST /chains/{id}/rpcs - Add RPC endpoint
+- POST /chains/{id}/rpcs - Add RPC endpoint (checks chain identity; ?skipIdentityCheck=true to skip)
 - POST /chains/{id}/rpcs/remove - Remove RPC endpoint
-- PUT /chains/{id}/rpcs/status - Update RPC status
+- PUT /chains/{id}/rpcs/status - Enable or disable RPC endpoint
 
 ### Health Monitoring
 - GET /health - Get overall health status
@@ -343,9 +374,9 @@ function getAPIDocumentation(): Response {
 - DELETE /admin/chains/{id} - Remove chain
 
 ### RPC Management
-- POST /admin/chains/{id}/rpcs - Add RPC endpoint
+- POST /admin/chains/{id}/rpcs - Add RPC endpoint (checks chain identity; ?skipIdentityCheck=true to skip)
 - DELETE /admin/chains/{id}/rpcs?rpcUrl={url} - Remove RPC endpoint
-- PUT /admin/chains/{id}/rpcs?rpcUrl={url} - Update RPC status
+- PUT /admin/chains/{id}/rpcs?rpcUrl={url} - Enable or disable RPC endpoint
 - POST /admin/chains/{id}/rpcs/health - Check specific RPC health
 
 ### Health Monitoring
@@ -353,6 +384,14 @@ function getAPIDocumentation(): Response {
 - POST /admin/health - Trigger health check for all chains
 - POST /admin/health/{id} - Trigger health check for specific chain
 
+### Cache Management
+- GET /admin/cache/stats - Get cache hit/miss/set/error counts per chain and method
+- GET /admin/cache/generations - Get current cache generations
+- POST /admin/cache/purge - Purge cached responses (body: {}, {chainId}, {chainId, method} or {chainId, method, params})
+
+### Transactions
+- GET /admin/transactions/{id}/{txHash} - Get the submission record of a transaction (rebroadcast state of a signature on Solana chains)
+
 ## Authentication
 All admin endpoints require X-API-Key header:
 \`X-API-Key: YOUR_ADMIN_API_KEY\`
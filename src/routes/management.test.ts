@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { ManagementRoutes } from './management';
+import { DEFAULT_RPC_CONFIG } from '../config/default_config';
+import { createEnv } from '../testing/fakes';
+
+function putConfig(body: unknown): Request {
+  return new Request('https://proxy.test/admin/config', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test-admin-key' },
+    body: JSON.stringify(body)
+  });
+}
+
+const chain = {
+  chainId: 1,
+  name: 'Test',
+  symbol: 'ETH',
+  rpcs: [{ url: 'https://rpc.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true }]
+};
+
+describe('ManagementRoutes.updateConfig', () => {
+  it('saves a config whose chains are valid', async () => {
+    const env = createEnv();
+
+    const response = await new ManagementRoutes(env).updateConfig(putConfig({ ...DEFAULT_RPC_CONFIG, chains: { 1: chain } }));
+
+    expect(response.status).toBe(200);
+    const saved = JSON.parse(await env.RPC_CONFIG.get('rpc_config') as string);
+    expect(Object.keys(saved.chains)).toEqual(['1']);
+  });
+
+  it('rejects the whole config when one chain is invalid and saves nothing', async () => {
+    const env = createEnv();
+    const invalid = { ...chain, chainId: 2, methodPolicy: { deny: 'debug_*' } };
+
+    const response = await new ManagementRoutes(env).updateConfig(
+      putConfig({ ...DEFAULT_RPC_CONFIG, chains: { 1: chain, 2: invalid } })
+    );
+
+    expect(response.status).toBe(400);
+    const body = await response.json() as { error: string };
+    expect(body.error).toContain('chains.2.methodPolicy.deny');
+    expect(await env.RPC_CONFIG.get('rpc_config')).toBeNull();
+  });
+});
+
+describe('ManagementRoutes.encryptSecrets', () => {
+  const request = () => new Request('https://proxy.test/admin/config/encrypt-secrets', {
+    method: 'POST',
+    headers: { 'X-API-Key': 'test-admin-key' }
+  });
+
+  it('rewrites a config with plain-text secrets', async () => {
+    const env = createEnv({ CONFIG_ENCRYPTION_KEY: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=' });
+    const rpcs = [{ ...chain.rpcs[0], apiKey: 'inline' }];
+    await env.RPC_CONFIG.put('rpc_config', JSON.stringify({ ...DEFAULT_RPC_CONFIG, chains: { 1: { ...chain, rpcs } } }));
+
+    const response = await new ManagementRoutes(env).encryptSecrets(request());
+
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as any).data).toEqual({ encrypted: true });
+    expect(JSON.parse(await env.RPC_CONFIG.get('rpc_config') as string).chains[1].rpcs[0].apiKey).toMatch(/^enc:v1:/);
+  });
+
+  it('needs a master key', async () => {
+    const response = await new ManagementRoutes(createEnv()).encryptSecrets(request());
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -1,10 +1,19 @@
-import { Env, ManagementResponse, RPCConfig, ChainConfig, RPCEndpoint, CORSConfig } from '../types';
+import { Env, ManagementResponse, RPCConfig, ChainConfig, RPCEndpoint, CORSConfig, CachePurgeScope, ValidationError as ValidationErrorType } from '../types';
 import { ConfigService } from '../services/config_service';
 import { HealthService } from '../services/health_service';
+import { RPCSelector } from '../services/rpc_selector';
+import { CircuitBreaker } from '../services/circuit_breaker';
+import { CacheService } from '../services/cache_service';
+import { CachePolicy } from '../services/cache_policy';
+import { TransactionStore } from '../services/transaction_store';
+import { TransactionRebroadcaster } from '../services/transaction_rebroadcaster';
 import { Validator, ValidationError } from '../utils/validation';
 import { logger } from '../utils/logger';
 import { APP_CONSTANTS } from '../constants';
 import { createAllowAllCORSConfig, createDevelopmentCORSConfig } from '../utils/cors';
+import { getRPCHealthKey, getChainFamily } from '../utils/chain';
+import { isSolanaSignature } from '../utils/transaction';
+import { redactConfig, redactChainConfig } from '../utils/secrets';
 
 export class ManagementRoutes {
   private env: Env;
@@ -100,9 +109,10 @@ export class ManagementRoutes {
         return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
       }
 
+      // Stored provider secrets never leave the worker; secret:// references are shown as-is
       const config = await this.configService.getConfig();
       logger.info('Config retrieved successfully');
-      return this.createResponse(true, config);
+      return this.createResponse(true, redactConfig(config));
     } catch (error) {
       logger.error('Failed to get config', { error: error instanceof Error ? error.message : error });
       return this.createResponse(
@@ -155,7 +165,28 @@ export class ManagementRoutes {
         );
       }
 
-      await this.configService.saveConfig(newConfig);
+      // Every chain gets the same checks as PUT /admin/chains/:chainId
+      const errors: ValidationErrorType[] = [];
+      const chains: RPCConfig['chains'] = {};
+      for (const [key, chainConfig] of Object.entries(newConfig.chains)) {
+        const validation = Validator.validateChainConfig(chainConfig);
+        if (validation.isValid && validation.data) {
+          chains[key] = validation.data;
+        } else {
+          errors.push(...(validation.errors ?? []).map(error => ({ ...error, field: `chains.${key}.${error.field}` })));
+        }
+      }
+
+      if (errors.length > 0) {
+        return this.createResponse(
+          false,
+          errors,
+          `Invalid configuration: ${errors.map(e => `${e.field}: ${e.message}`).join('; ')}`,
+          APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        );
+      }
+
+      await this.configService.saveConfig({ ...newConfig, chains });
       logger.info('Config updated successfully');
       return this.createResponse(true, { message: 'Configuration updated successfully' });
     } catch (error) {
@@ -394,6 +425,7 @@ export class ManagementRoutes {
 
       const chains = await this.configService.getAvailableChains();
       const config = await this.configService.getConfig();
+      const healthStates = await this.healthService.getHealthStates();
 
       const chainDetails = chains
         .map(chainId => {
@@ -407,7 +439,7 @@ export class ManagementRoutes {
 
           // Validate required properties
           if (!chainConfig.name || !chainConfig.symbol || !chainConfig.rpcs) {
-            logger.warn(`Invalid chain config for chainId: ${chainId}`, chainConfig);
+            logger.warn(`Invalid chain config for chainId: ${chainId}`, redactChainConfig(chainConfig));
             return null;
           }
 
@@ -416,7 +448,8 @@ export class ManagementRoutes {
             name: chainConfig.name,
             symbol: chainConfig.symbol,
             rpcCount: chainConfig.rpcs.length,
-            activeRpcCount: chainConfig.rpcs.filter(rpc => rpc && rpc.isActive).length
+            activeRpcCount: chainConfig.rpcs.filter(rpc => rpc && rpc.enabled).length,
+            healthyRpcCount: RPCSelector.getHealthyRPCs(chainConfig, healthStates).length
           };
         })
         .filter(chain => chain !== null); // Remove null entries
@@ -455,7 +488,18 @@ export class ManagementRoutes {
         );
       }
 
-      return this.createResponse(true, chainConfig);
+      // Show the operator flag and the runtime health and circuit state side by side
+      const healthStates = await this.healthService.getHealthStates();
+      const circuits = await new CircuitBreaker(this.env, logger).getStates(chainId);
+      const redacted = redactChainConfig(chainConfig);
+      return this.createResponse(true, {
+        ...redacted,
+        rpcs: redacted.rpcs.map(rpc => ({
+          ...rpc,
+          healthStatus: healthStates[getRPCHealthKey(chainId, rpc.url)] || null,
+          circuit: circuits[rpc.url] || { state: 'closed', consecutiveFailures: 0 }
+        }))
+      });
     } catch (error) {
       if (error instanceof ValidationError) {
         return this.createResponse(false, null, error.message, APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
@@ -482,9 +526,28 @@ export class ManagementRoutes {
 
       Validator.validateChainId(chainId);
       const chainConfig = await request.json() as ChainConfig;
-      await this.configService.updateChainConfig(chainId, chainConfig);
 
-      logger.info('Chain config updated successfully', { chainId });
+      // Health and circuit status are runtime data returned by GET; they never belong in the config
+      if (Array.isArray(chainConfig.rpcs)) {
+        chainConfig.rpcs = chainConfig.rpcs.map(rpc => {
+          const { healthStatus, circuit, ...endpoint } = rpc as RPCEndpoint & { healthStatus?: unknown; circuit?: unknown };
+          return endpoint;
+        });
+      }
+
+      const validation = Validator.validateChainConfig({ ...chainConfig, chainId });
+      if (!validation.isValid || !validation.data) {
+        return this.createResponse(
+          false,
+          validation.errors,
+          `Invalid chain configuration: ${validation.errors?.map(e => `${e.field}: ${e.message}`).join('; ')}`,
+          APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        );
+      }
+
+      await this.configService.updateChainConfig(chainId, validation.data);
+
+      logger.info('Chain config updated successfully', { chainId, methodPolicy: validation.data.methodPolicy });
       return this.createResponse(true, { message: `Chain ${chainId} configuration updated successfully` });
     } catch (error) {
       if (error instanceof ValidationError) {
@@ -552,6 +615,34 @@ export class ManagementRoutes {
       }
 
       Validator.validateRPCUrl(rpcData.url);
+
+      const [authError] = [
+        ...(rpcData.auth !== undefined ? Validator.validateRPCAuth(rpcData.auth) : []),
+        ...Validator.validateSecretRefs(rpcData as RPCEndpoint)
+      ];
+      if (authError) {
+        return this.createResponse(false, null, authError.message, APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+      }
+
+      // Reject endpoints that serve another chain, unless the caller skips the check
+      const skipIdentityCheck = new URL(request.url).searchParams.get('skipIdentityCheck') === 'true';
+      const chainConfig = await this.configService.getChainConfig(chainId);
+      if (chainConfig && !skipIdentityCheck) {
+        const identityError = await this.healthService.verifyChainIdentity(
+          { ...rpcData, timeout: rpcData.timeout ?? APP_CONSTANTS.DEFAULTS.RPC_TIMEOUT } as RPCEndpoint,
+          chainConfig
+        );
+        if (identityError) {
+          logger.error('RPC endpoint failed chain identity check', { chainId, url: rpcData.url, error: identityError });
+          return this.createResponse(
+            false,
+            null,
+            `${identityError} (use ?skipIdentityCheck=true to add it anyway)`,
+            APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+          );
+        }
+      }
+
       await this.configService.addRPCEndpoint(chainId, rpcData as RPCEndpoint);
 
       logger.info('RPC endpoint added successfully', { chainId, url: rpcData.url });
@@ -646,6 +737,7 @@ export class ManagementRoutes {
 
       Validator.validateChainId(chainId);
       const chainHealth = await this.healthService.checkChainHealth(chainId);
+      await this.healthService.updateHealthState(chainHealth);
       return this.createResponse(true, chainHealth);
     } catch (error) {
       if (error instanceof ValidationError) {
@@ -674,6 +766,7 @@ export class ManagementRoutes {
       // Run health check and return results
       const results = await this.healthService.checkAllHealth();
       await this.healthService.saveHealthResults(results);
+      await this.healthService.updateHealthState(results);
 
       logger.info('Health check triggered successfully');
       return this.createResponse(true, results);
@@ -735,7 +828,17 @@ export class ManagementRoutes {
       }
 
       // Check health of the specific RPC
-      const healthResult = await this.healthService.checkRPCHealth(chainId, rpcEndpoint);
+      const healthResult = await this.healthService.checkRPCHealth(chainId, rpcEndpoint, chainConfig);
+
+      // Measure lag against the last known heights of the chain's other endpoints
+      const healthStates = await this.healthService.getHealthStates();
+      const knownHeights = chainConfig.rpcs
+        .filter(rpc => rpc.url !== rpcEndpoint.url)
+        .map(rpc => healthStates[getRPCHealthKey(chainId, rpc.url)])
+        .filter(state => state?.isHealthy && state.height !== undefined)
+        .map(state => state.height as number);
+      this.healthService.applyBlockLag(chainConfig, [healthResult], knownHeights);
+      await this.healthService.updateHealthState([healthResult]);
 
       logger.info('RPC health check completed', { chainId, rpcUrl: requestData.rpcUrl, isHealthy: healthResult.isHealthy });
       return this.createResponse(true, healthResult);
@@ -755,7 +858,7 @@ export class ManagementRoutes {
   }
 
   /**
-   * PUT /admin/chains/:chainId/rpcs/:rpcUrl/status - Update RPC status
+   * PUT /admin/chains/:chainId/rpcs?rpcUrl= - Enable or disable an RPC endpoint
    */
   async updateRPCStatus(request: Request, chainId: number | string, rpcUrl: string): Promise<Response> {
     try {
@@ -766,10 +869,21 @@ export class ManagementRoutes {
       Validator.validateChainId(chainId);
       Validator.validateRPCUrl(rpcUrl);
 
-      const requestData = await request.json() as { isActive: boolean };
-      await this.configService.updateRPCStatus(chainId, rpcUrl, requestData.isActive);
+      // `isActive` is accepted from older clients
+      const requestData = await request.json() as { enabled?: boolean; isActive?: boolean };
+      const enabled = requestData.enabled ?? requestData.isActive;
+      if (typeof enabled !== 'boolean') {
+        return this.createResponse(
+          false,
+          null,
+          'Invalid request: enabled must be a boolean',
+          APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST
+        );
+      }
+
+      await this.configService.setRPCEnabled(chainId, rpcUrl, enabled);
 
-      logger.info('RPC status updated successfully', { chainId, rpcUrl, isActive: requestData.isActive });
+      logger.info('RPC status updated successfully', { chainId, rpcUrl, enabled });
       return this.createResponse(true, { message: `RPC status updated successfully` });
     } catch (error) {
       if (error instanceof ValidationError) {
@@ -809,6 +923,218 @@ export class ManagementRoutes {
     }
   }
 
+  /**
+   * POST /admin/config/encrypt-secrets - Encrypt provider secrets the stored config keeps in plain text
+   */
+  async encryptSecrets(request: Request): Promise<Response> {
+    try {
+      if (!this.authenticateAdmin(request)) {
+        return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      if (!this.configService.canEncryptSecrets()) {
+        return this.createResponse(false, null, 'Invalid request: CONFIG_ENCRYPTION_KEY is not set', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+      }
+
+      const encrypted = await this.configService.encryptInlineSecrets();
+      logger.info('Inline provider secrets migration completed', { encrypted });
+      return this.createResponse(true, { encrypted });
+    } catch (error) {
+      logger.error('Failed to encrypt provider secrets', { error: error instanceof Error ? error.message : error });
+      return this.createResponse(
+        false,
+        null,
+        error instanceof Error ? error.message : 'Failed to encrypt provider secrets',
+        APP_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * GET /admin/cache/generations - Get the current cache generations
+   */
+  async getCacheGenerations(request: Request): Promise<Response> {
+    try {
+      if (!this.authenticateAdmin(request)) {
+        return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      const cacheService = this.getCacheService();
+      if (!cacheService) {
+        return this.createResponse(false, null, 'Cache is not configured', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+      }
+
+      return this.createResponse(true, await cacheService.getGenerations());
+    } catch (error) {
+      logger.error('Failed to get cache generations', { error: error instanceof Error ? error.message : error });
+      return this.createResponse(
+        false,
+        null,
+        error instanceof Error ? error.message : 'Failed to retrieve cache generations',
+        APP_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * GET /admin/cache/stats - Get response cache statistics per chain and method
+   */
+  async getCacheStats(request: Request): Promise<Response> {
+    try {
+      if (!this.authenticateAdmin(request)) {
+        return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      const cacheService = this.getCacheService();
+      if (!cacheService) {
+        return this.createResponse(false, null, 'Cache is not configured', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+      }
+
+      return this.createResponse(true, cacheService.getStats());
+    } catch (error) {
+      logger.error('Failed to get cache stats', { error: error instanceof Error ? error.message : error });
+      return this.createResponse(
+        false,
+        null,
+        error instanceof Error ? error.message : 'Failed to retrieve cache statistics',
+        APP_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * POST /admin/cache/purge - Purge cached RPC responses
+   * Body: {} for everything, { chainId }, { chainId, method } or { chainId, method, params } for one request
+   */
+  async purgeCache(request: Request): Promise<Response> {
+    try {
+      if (!this.authenticateAdmin(request)) {
+        return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      const cacheService = this.getCacheService();
+      if (!cacheService) {
+        return this.createResponse(false, null, 'Cache is not configured', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+      }
+
+      const body = await request.json().catch(() => ({})) as {
+        chainId?: number | string;
+        method?: string;
+        params?: unknown;
+      };
+
+      let scope: CachePurgeScope;
+      if (body.chainId === undefined) {
+        if (body.method !== undefined || body.params !== undefined) {
+          return this.createResponse(false, null, 'Invalid purge: method and params require a chainId', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+        }
+        scope = { scope: 'all' };
+      } else if (body.method === undefined) {
+        if (body.params !== undefined) {
+          return this.createResponse(false, null, 'Invalid purge: params require a method', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+        }
+        scope = { scope: 'chain', chainId: String(body.chainId) };
+      } else if (typeof body.method !== 'string' || body.method.length === 0) {
+        return this.createResponse(false, null, 'Invalid purge: method must be a non-empty string', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+      } else if (body.params === undefined) {
+        scope = { scope: 'method', chainId: String(body.chainId), method: body.method };
+      } else if (!Array.isArray(body.params)) {
+        return this.createResponse(false, null, 'Invalid purge: params must be an array', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+      } else {
+        // Normalize params the way the proxy does when it builds the cache key
+        const chainConfig = await this.configService.getChainConfig(body.chainId);
+        const entry = { jsonrpc: '2.0', id: 0, method: body.method, params: body.params };
+        scope = {
+          scope: 'request',
+          chainId: String(body.chainId),
+          method: body.method,
+          params: chainConfig ? CachePolicy.getCacheKeyParams({ chainConfig }, entry) : body.params
+        };
+      }
+
+      const generations = await cacheService.purge(scope);
+
+      logger.info('Cache purge requested', {
+        ...scope,
+        ip: request.headers.get('CF-Connecting-IP'),
+        userAgent: request.headers.get('User-Agent')
+      });
+      return this.createResponse(true, { purged: scope, generations });
+    } catch (error) {
+      logger.error('Failed to purge cache', { error: error instanceof Error ? error.message : error });
+      return this.createResponse(
+        false,
+        null,
+        error instanceof Error ? error.message : 'Failed to purge cache',
+        APP_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * GET /admin/transactions/{chainId}/{txHash} - Get the submission record of a transaction
+   * On Solana chains the id is a signature and the rebroadcast state is returned
+   */
+  async getTransaction(request: Request, chainId: number | string, txHash: string): Promise<Response> {
+    try {
+      if (!this.authenticateAdmin(request)) {
+        return this.createResponse(false, null, 'Unauthorized', APP_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      const chainConfig = await this.configService.getChainConfig(chainId);
+      if (chainConfig && getChainFamily(chainConfig) === 'solana') {
+        return this.getRebroadcastStatus(chainId, txHash);
+      }
+
+      if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+        return this.createResponse(false, null, 'Invalid transaction hash', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+      }
+
+      const submission = await new TransactionStore(this.env.RPC_HEALTH, logger).get(chainId, txHash);
+      if (!submission) {
+        return this.createResponse(false, null, 'Transaction not found', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+      }
+
+      return this.createResponse(true, submission);
+    } catch (error) {
+      logger.error('Failed to get transaction submission', { error: error instanceof Error ? error.message : error });
+      return this.createResponse(
+        false,
+        null,
+        error instanceof Error ? error.message : 'Failed to retrieve transaction submission',
+        APP_CONSTANTS.HTTP_STATUS.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Rebroadcast state of a Solana transaction
+   */
+  private async getRebroadcastStatus(chainId: number | string, signature: string): Promise<Response> {
+    if (!isSolanaSignature(signature)) {
+      return this.createResponse(false, null, 'Invalid transaction signature', APP_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const rebroadcaster = new TransactionRebroadcaster(this.env, logger);
+    if (!rebroadcaster.isAvailable()) {
+      return this.createResponse(false, null, 'Transaction rebroadcast is not configured', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+    }
+
+    const state = await rebroadcaster.getStatus(chainId, signature);
+    if (!state) {
+      return this.createResponse(false, null, 'Transaction not found', APP_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+    }
+
+    return this.createResponse(true, state);
+  }
+
+  /**
+   * Cache service over the RPC_CACHE namespace; null when no cache is bound
+   */
+  private getCacheService(): CacheService | null {
+    return this.env.RPC_CACHE ? new CacheService(this.env.RPC_CACHE) : null;
+  }
+
   /**
    * GET /admin/stats - Get system statistics
    */
@@ -825,7 +1151,7 @@ export class ManagementRoutes {
         totalChains: Object.keys(config.chains).length,
         totalRPCs: Object.values(config.chains).reduce((total, chain) => total + chain.rpcs.length, 0),
         activeRPCs: Object.values(config.chains).reduce((total, chain) =>
-          total + chain.rpcs.filter(rpc => rpc.isActive).length, 0),
+          total + chain.rpcs.filter(rpc => rpc.enabled).length, 0),
         healthSummary,
         lastUpdated: Date.now()
       };
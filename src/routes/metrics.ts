@@ -27,6 +27,15 @@ export async function handleMetricsRequest(request: Request, env: Env): Promise<
       case '/metrics/usage':
         return handleUsageStats(request, metricsService);
       
+      case '/metrics/hedges':
+        return handleHedgeStats(metricsService);
+      
+      case '/metrics/coalescing':
+        return handleCoalesceStats(metricsService);
+      
+      case '/metrics/cache':
+        return handleCacheStats(metricsService);
+      
       case '/metrics/clear':
         if (request.method !== 'POST') {
           return ResponseBuilder.error('METHOD_NOT_ALLOWED', 'Method not allowed', 405);
@@ -98,6 +107,27 @@ function handleUsageStats(request: Request, metricsService: any): Response {
   });
 }
 
+/**
+ * Get hedged request statistics
+ */
+function handleHedgeStats(metricsService: any): Response {
+  return ResponseBuilder.success(metricsService.getHedgeStats());
+}
+
+/**
+ * Get request coalescing statistics
+ */
+function handleCoalesceStats(metricsService: any): Response {
+  return ResponseBuilder.success(metricsService.getCoalesceStats());
+}
+
+/**
+ * Get response cache statistics
+ */
+function handleCacheStats(metricsService: any): Response {
+  return ResponseBuilder.success(metricsService.getCacheStats());
+}
+
 /**
  * Clear all metrics
  */
@@ -189,12 +189,13 @@ export class AdminClientService {
             const chainId = chain.chainId || 0;
             const rpcCount = chain.rpcCount || 0;
             const activeRpcCount = chain.activeRpcCount || 0;
+            const healthyRpcCount = chain.healthyRpcCount || 0;
 
             return \`
               <div class="${APP_CONSTANTS.UI_ELEMENTS.CHAIN_CARD}">
                 <h3>\${name} (\${symbol})</h3>
                 <p><strong>Chain ID:</strong> \${chainId}</p>
-                <p><strong>RPCs:</strong> \${activeRpcCount}/\${rpcCount} active</p>
+                <p><strong>RPCs:</strong> \${activeRpcCount}/\${rpcCount} enabled, \${healthyRpcCount} healthy</p>
                 <div style="margin-top: 15px;">
                   <button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON} success" onclick="copyProxyUrl('\${chainId}', '\${name}')">
                     📋 Copy Proxy URL
@@ -275,7 +276,8 @@ export class AdminClientService {
               symbol: symbol,
               rpcs: [{
                 url: rpcUrl,
-                isActive: true,
+                name: new URL(rpcUrl).hostname,
+                enabled: true,
                 priority: ${APP_CONSTANTS.DEFAULTS.RPC_PRIORITY},
                 timeout: ${APP_CONSTANTS.DEFAULTS.RPC_TIMEOUT},
                 maxRetries: ${APP_CONSTANTS.DEFAULTS.RPC_MAX_RETRIES}
@@ -449,21 +451,31 @@ export class AdminClientService {
           const rpcItems = rpcs.map((rpc, index) => {
             let healthBadge = '';
             if (rpc.healthStatus) {
-              healthBadge = rpc.healthStatus.isHealthy ? 
-                '<span class="health-badge healthy">✅ Healthy</span>' : 
-                '<span class="health-badge unhealthy">❌ Unhealthy</span>';
+              if (!rpc.healthStatus.isHealthy) {
+                healthBadge = '<span class="health-badge unhealthy">❌ Unhealthy</span>';
+              } else if (rpc.healthStatus.degraded) {
+                healthBadge = '<span class="health-badge unhealthy">⚠️ Lagging</span>';
+              } else {
+                healthBadge = '<span class="health-badge healthy">✅ Healthy</span>';
+              }
             }
             
             let healthDetails = '';
             if (rpc.healthStatus) {
               const parts = [];
               parts.push('Response: ' + rpc.healthStatus.responseTime + 'ms');
-              if (rpc.healthStatus.blockNumber) {
-                parts.push('Block: ' + rpc.healthStatus.blockNumber);
+              if (rpc.healthStatus.height) {
+                parts.push('Height: ' + rpc.healthStatus.height);
+              }
+              if (rpc.healthStatus.lag !== undefined) {
+                parts.push('Lag: ' + rpc.healthStatus.lag);
               }
               if (rpc.healthStatus.error) {
                 parts.push('Error: ' + rpc.healthStatus.error);
               }
+              if (rpc.circuit && rpc.circuit.state !== 'closed') {
+                parts.push('Circuit: ' + rpc.circuit.state);
+              }
               if (rpc.healthStatus.lastChecked) {
                 parts.push('Checked: ' + new Date(rpc.healthStatus.lastChecked).toLocaleTimeString());
               }
@@ -471,15 +483,18 @@ export class AdminClientService {
             }
 
             const nameRow = rpc.name ? '<div><strong>Name:</strong> ' + rpc.name + '</div>' : '';
-            const statusBadge = rpc.isActive ? 
-              '<span style="color: #28a745;">● Active</span>' : 
-              '<span style="color: #dc3545;">● Inactive</span>';
-            const toggleText = rpc.isActive ? 'Deactivate' : 'Activate';
-            const toggleColor = rpc.isActive ? '${APP_CONSTANTS.COLORS.WARNING}' : '${APP_CONSTANTS.COLORS.SUCCESS}';
+            const capabilitiesRow = rpc.capabilities && rpc.capabilities.length > 0 ?
+              '<div><strong>Capabilities:</strong> ' + rpc.capabilities.join(', ') + '</div>' : '';
+            const statusBadge = rpc.enabled ? 
+              '<span style="color: #28a745;">● Enabled</span>' : 
+              '<span style="color: #dc3545;">● Disabled</span>';
+            const toggleText = rpc.enabled ? 'Disable' : 'Enable';
+            const toggleColor = rpc.enabled ? '${APP_CONSTANTS.COLORS.WARNING}' : '${APP_CONSTANTS.COLORS.SUCCESS}';
 
             return '<div class="rpc-item" id="rpc-' + index + '">' +
               '<div class="rpc-url">' + rpc.url + ' ' + healthBadge + '</div>' +
               nameRow +
+              capabilitiesRow +
               '<div class="rpc-config">' +
                 '<span>' + statusBadge + '</span>' +
                 '<span>Priority: ' + (rpc.priority || 1) + '</span>' +
@@ -490,7 +505,7 @@ export class AdminClientService {
               '<div class="rpc-actions">' +
                 '<button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON}" onclick="editRpc(\\'' + rpc.url + '\\', ' + JSON.stringify(rpc).replace(/"/g, '&quot;') + ')">✏️ Edit</button>' +
                 '<button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON}" onclick="checkRpcHealth(\\'' + rpc.url + '\\', ' + index + ')" style="background: ${APP_CONSTANTS.COLORS.SECONDARY};">🏥 Health</button>' +
-                '<button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON}" onclick="toggleRpcStatus(\\'' + rpc.url + '\\', ' + !rpc.isActive + ')" style="background: ' + toggleColor + ';">' + toggleText + '</button>' +
+                '<button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON}" onclick="toggleRpcStatus(\\'' + rpc.url + '\\', ' + !rpc.enabled + ')" style="background: ' + toggleColor + ';">' + toggleText + '</button>' +
                 '<button class="${APP_CONSTANTS.UI_ELEMENTS.BUTTON} danger" onclick="removeRpc(\\'' + rpc.url + '\\')">🗑️</button>' +
               '</div>' +
             '</div>';
@@ -518,7 +533,7 @@ export class AdminClientService {
               },
               body: JSON.stringify({
                 url: rpcUrl,
-                isActive: true,
+                enabled: true,
                 priority: ${APP_CONSTANTS.DEFAULTS.RPC_PRIORITY},
                 timeout: ${APP_CONSTANTS.DEFAULTS.RPC_TIMEOUT},
                 maxRetries: ${APP_CONSTANTS.DEFAULTS.RPC_MAX_RETRIES}
@@ -574,7 +589,7 @@ export class AdminClientService {
         }
 
         async function toggleRpcStatus(rpcUrl, newStatus) {
-          log(\`Toggling RPC \${rpcUrl} to \${newStatus ? 'active' : 'inactive'}\`);
+          log(\`Toggling RPC \${rpcUrl} to \${newStatus ? 'enabled' : 'disabled'}\`);
 
           try {
             const response = await fetch(\`${APP_CONSTANTS.API_ENDPOINTS.ADMIN_RPC}/\${currentRpcChainId}?\` + new URLSearchParams({
@@ -586,7 +601,7 @@ export class AdminClientService {
                 'Content-Type': 'application/json'
               },
               body: JSON.stringify({
-                isActive: newStatus
+                enabled: newStatus
               })
             });
 
@@ -658,7 +673,7 @@ export class AdminClientService {
 
             chainData.rpcs[rpcIndex] = {
               ...chainData.rpcs[rpcIndex],
-              name: name || undefined,
+              name: name || chainData.rpcs[rpcIndex].name,
               priority: priority,
               timeout: timeout,
               maxRetries: maxRetries
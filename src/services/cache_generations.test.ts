@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CacheGenerations } from './cache_generations';
+import { APP_CONSTANTS } from '../constants';
+import { Logger, LogLevel } from '../utils/logger';
+import { createKV } from '../testing/fakes';
+
+const { IMMUTABLE_TTL, STALE_LIMIT } = APP_CONSTANTS.CACHE_POLICY;
+
+function createGenerations() {
+  return new CacheGenerations(createKV(), 'test', Logger.getInstance(LogLevel.ERROR));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CacheGenerations', () => {
+  it('bumps only the version covering the purge scope', async () => {
+    const generations = createGenerations();
+    await generations.purge({ scope: 'all' });
+    await generations.purge({ scope: 'chain', chainId: '1' });
+    await generations.purge({ scope: 'method', chainId: '1', method: 'eth_call' });
+
+    const tag = await generations.getTag('1', 'eth_call', 'key');
+    const global = (await generations.getState()).global;
+    expect(tag).toBe(`v${global}.1.1.0`);
+    expect(await generations.getTag('1', 'eth_getBalance', 'key')).toBe(`v${global}.1.0.0`);
+    expect(await generations.getTag('2', 'eth_call', 'key')).toBe(`v${global}.0.0.0`);
+  });
+
+  it('keeps a request generation until entries it hides have expired, stale time included', async () => {
+    vi.useFakeTimers();
+    const generations = createGenerations();
+    await generations.purge({ scope: 'request', chainId: '1', method: 'eth_call', params: [] }, 'req');
+
+    // Long-lived entries written before the purge can still be served as stale here
+    vi.advanceTimersByTime((IMMUTABLE_TTL + 1) * 1000);
+    await generations.purge({ scope: 'method', chainId: '1', method: 'eth_other' });
+    expect(await generations.getTag('1', 'eth_call', 'req')).toMatch(/\.1$/);
+
+    vi.advanceTimersByTime(STALE_LIMIT * 1000);
+    await generations.purge({ scope: 'method', chainId: '1', method: 'eth_other' });
+    expect(await generations.getTag('1', 'eth_call', 'req')).toMatch(/\.0$/);
+  });
+});
@@ -0,0 +1,121 @@
+import { CacheGenerationState, CachePurgeScope, ChainCacheGenerations } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+/**
+ * Cache generations
+ * KV can't delete by prefix, so purges bump a version that is part of every RPC cache key.
+ * Old entries become unreachable and expire on their own.
+ */
+export class CacheGenerations {
+  // Per-isolate copy of the generations so lookups don't read KV every time
+  private static snapshot: { state: CacheGenerationState; fetchedAt: number } | null = null;
+
+  private kv: KVNamespace;
+  private key: string;
+  private logger: Logger;
+
+  constructor(kv: KVNamespace, keyPrefix: string, logger: Logger) {
+    this.kv = kv;
+    this.key = `${keyPrefix}:${APP_CONSTANTS.CACHE.GENERATIONS_KEY}`;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the generation tag for a request cache key, e.g. "v2.1.0.0"
+   * (global, chain, method and request versions)
+   */
+  async getTag(chainId: string, method: string, requestKey: string): Promise<string> {
+    const state = await this.getState();
+    const chain = state.chains[chainId];
+
+    const versions = [
+      state.global,
+      chain?.version ?? 0,
+      chain?.methods[method] ?? 0,
+      chain?.requests[requestKey]?.version ?? 0
+    ];
+    return `v${versions.join('.')}`;
+  }
+
+  /**
+   * Bump the generation covering a purge scope and persist it
+   */
+  async purge(scope: CachePurgeScope, requestKey?: string): Promise<CacheGenerationState> {
+    const state = await this.getState(true);
+    const now = Date.now();
+
+    if (scope.scope === 'all') {
+      state.global++;
+    } else {
+      const chain = this.getChain(state, scope.chainId);
+      if (scope.scope === 'chain') {
+        chain.version++;
+      } else if (scope.scope === 'method') {
+        chain.methods[scope.method] = (chain.methods[scope.method] ?? 0) + 1;
+      } else if (requestKey) {
+        const previous = chain.requests[requestKey]?.version ?? 0;
+        chain.requests[requestKey] = { version: previous + 1, purgedAt: now };
+      }
+    }
+
+    this.pruneRequests(state, now);
+    state.updatedAt = now;
+
+    await this.kv.put(this.key, JSON.stringify(state));
+    CacheGenerations.snapshot = { state, fetchedAt: now };
+    return state;
+  }
+
+  /**
+   * Load the generations, reusing the isolate copy while it is fresh
+   */
+  async getState(refresh: boolean = false): Promise<CacheGenerationState> {
+    const snapshot = CacheGenerations.snapshot;
+    if (!refresh && snapshot && Date.now() - snapshot.fetchedAt < APP_CONSTANTS.CACHE.GENERATIONS_STATE_TTL * 1000) {
+      return snapshot.state;
+    }
+
+    let state: CacheGenerationState = { global: 0, chains: {}, updatedAt: 0 };
+    try {
+      const stored = await this.kv.get<CacheGenerationState>(this.key, 'json');
+      if (stored) {
+        state = stored;
+      }
+    } catch (error) {
+      // Keep serving with the last known generations rather than failing lookups
+      this.logger.warn('Failed to load cache generations', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (snapshot) {
+        return snapshot.state;
+      }
+    }
+
+    CacheGenerations.snapshot = { state, fetchedAt: Date.now() };
+    return state;
+  }
+
+  private getChain(state: CacheGenerationState, chainId: string): ChainCacheGenerations {
+    if (!state.chains[chainId]) {
+      state.chains[chainId] = { version: 0, methods: {}, requests: {} };
+    }
+    return state.chains[chainId];
+  }
+
+  /**
+   * Drop request generations once nothing they hide can still be stored: entries live for at
+   * most the longest cache TTL plus the longest stale limit
+   */
+  private pruneRequests(state: CacheGenerationState, now: number): void {
+    const maxAge = (APP_CONSTANTS.CACHE_POLICY.IMMUTABLE_TTL + APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT) * 1000;
+
+    for (const chain of Object.values(state.chains)) {
+      for (const [key, request] of Object.entries(chain.requests)) {
+        if (now - request.purgedAt > maxAge) {
+          delete chain.requests[key];
+        }
+      }
+    }
+  }
+}
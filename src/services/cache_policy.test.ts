@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { CachePolicy, CachePolicyContext } from './cache_policy';
+import { APP_CONSTANTS } from '../constants';
+import { ChainConfig, JSONRPCRequest, StaleCacheConfig } from '../types';
+
+const { IMMUTABLE_TTL, TAG_TTL, RECENT_TTL, LATEST_TTL } = APP_CONSTANTS.CACHE_POLICY;
+
+function context(overrides: Partial<ChainConfig> = {}, head?: number): CachePolicyContext {
+  return { chainConfig: { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [], ...overrides }, head };
+}
+
+function request(method: string, params: unknown[] = []): JSONRPCRequest {
+  return { jsonrpc: '2.0', id: 1, method, params };
+}
+
+describe('CachePolicy.getStaleTTL', () => {
+  const stale = (staleCache: StaleCacheConfig | undefined, method: string) =>
+    CachePolicy.getStaleTTL(context({ staleCache }), request(method));
+
+  it('uses the built-in per-method and default limits', () => {
+    expect(stale(undefined, 'eth_blockNumber')).toBe(30);
+    expect(stale(undefined, 'eth_call')).toBe(APP_CONSTANTS.CACHE_POLICY.DEFAULT_MAX_STALE);
+  });
+
+  it('lets method overrides win over maxStale and maxStale over the built-ins', () => {
+    const staleCache = { maxStale: 120, methods: { eth_call: 0 } };
+    expect(stale(staleCache, 'eth_call')).toBe(0);
+    expect(stale(staleCache, 'eth_blockNumber')).toBe(120);
+  });
+
+  it('never exceeds the stale limit', () => {
+    expect(stale({ maxStale: 10 * APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT }, 'eth_call'))
+      .toBe(APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT);
+  });
+});
+
+describe('CachePolicy.getTTL for EVM chains', () => {
+  const hash = `0x${'ab'.repeat(32)}`;
+  const ttl = (method: string, params: unknown[], result: unknown = '0x1', head?: number) =>
+    CachePolicy.getTTL(context({}, head), request(method, params), result);
+
+  it('caches reads by the block tag they are pinned to', () => {
+    expect(ttl('eth_getBalance', ['0x01', 'latest'])).toBe(LATEST_TTL);
+    expect(ttl('eth_getBalance', ['0x01'])).toBe(LATEST_TTL);
+    expect(ttl('eth_getBalance', ['0x01', 'finalized'])).toBe(TAG_TTL);
+    expect(ttl('eth_getBalance', ['0x01', 'earliest'])).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getBalance', ['0x01', 'pending'])).toBe(0);
+    expect(ttl('eth_call', [{}, { blockHash: hash }])).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getBlockByHash', [hash, false], {})).toBe(IMMUTABLE_TTL);
+  });
+
+  it('treats fixed blocks as final once they are buried past the confirmation depth', () => {
+    expect(ttl('eth_getBlockByNumber', ['0x64', false], {}, 0x64 + 12)).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getBlockByNumber', ['0x64', false], {}, 0x64 + 11)).toBe(RECENT_TTL);
+    // Without a known head nothing is assumed final
+    expect(ttl('eth_getBlockByNumber', ['0x64', false], {})).toBe(RECENT_TTL);
+    expect(CachePolicy.getTTL(context({ confirmations: 2 }, 0x66), request('eth_getBlockByNumber', ['0x64', false]), {}))
+      .toBe(IMMUTABLE_TTL);
+  });
+
+  it('takes finality of transactions and receipts from the block they landed in', () => {
+    expect(ttl('eth_getTransactionReceipt', [hash], { blockNumber: '0x64' }, 0x100)).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getTransactionReceipt', [hash], { blockNumber: '0x64' }, 0x65)).toBe(RECENT_TTL);
+    expect(ttl('eth_getTransactionByHash', [hash], { blockNumber: null })).toBe(0);
+  });
+
+  it('caches log queries as long as their newest end allows', () => {
+    expect(ttl('eth_getLogs', [{ blockHash: hash }], [])).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getLogs', [{ fromBlock: '0x1', toBlock: '0x10' }], [], 0x1000)).toBe(IMMUTABLE_TTL);
+    expect(ttl('eth_getLogs', [{ fromBlock: '0x1', toBlock: 'latest' }], [], 0x1000)).toBe(LATEST_TTL);
+    expect(ttl('eth_getLogs', [{ fromBlock: '0x1' }], [], 0x1000)).toBe(LATEST_TTL);
+  });
+
+  it('does not cache null results or unknown methods', () => {
+    expect(ttl('eth_getTransactionReceipt', [hash], null)).toBe(0);
+    expect(ttl('eth_sendRawTransaction', ['0x00'])).toBe(0);
+    expect(CachePolicy.isCacheable(context(), request('eth_sendRawTransaction', ['0x00']))).toBe(false);
+    expect(CachePolicy.isCacheable(context(), request('eth_getBalance', ['0x01', 'pending']))).toBe(false);
+  });
+});
+
+describe('CachePolicy for Solana chains', () => {
+  const solana = context({ chainId: 'sol-test' }, 1000);
+  const ttl = (method: string, params: unknown[], result: unknown) => CachePolicy.getTTL(solana, request(method, params), result);
+  const account = (slot: number, value: unknown = { lamports: 1 }) => ({ context: { slot }, value });
+
+  it('caches by commitment level, finalized by default', () => {
+    expect(ttl('getAccountInfo', ['addr'], account(900))).toBe(TAG_TTL);
+    expect(ttl('getAccountInfo', ['addr', { commitment: 'confirmed' }], account(900))).toBe(LATEST_TTL);
+    expect(ttl('getAccountInfo', ['addr', { commitment: 'processed' }], account(900))).toBe(0);
+    expect(ttl('getAccountInfo', ['addr', { commitment: 'max' }], account(900))).toBe(TAG_TTL);
+    expect(ttl('getAccountInfo', ['addr', { commitment: 'bogus' }], account(900))).toBe(0);
+    expect(CachePolicy.isCacheable(solana, request('getAccountInfo', ['addr', { commitment: 'processed' }]))).toBe(false);
+  });
+
+  it('does not cache missing accounts or answers from before minContextSlot', () => {
+    expect(ttl('getAccountInfo', ['addr'], account(900, null))).toBe(0);
+    expect(ttl('getAccountInfo', ['addr', { minContextSlot: 950 }], account(900))).toBe(0);
+    expect(ttl('getAccountInfo', ['addr', { minContextSlot: 900 }], account(900))).toBe(TAG_TTL);
+  });
+
+  it('treats confirmed blocks buried past the confirmation depth as final', () => {
+    expect(ttl('getBlock', [900, { commitment: 'confirmed' }], {})).toBe(IMMUTABLE_TTL);
+    expect(ttl('getBlock', [990, { commitment: 'confirmed' }], {})).toBe(RECENT_TTL);
+    expect(ttl('getBlock', [990], {})).toBe(IMMUTABLE_TTL);
+  });
+
+  it('shares cache entries across minContextSlot values and checks hits against them', () => {
+    const first = request('getBalance', ['addr', { commitment: 'confirmed', minContextSlot: 10 }]);
+    const second = request('getBalance', ['addr', { commitment: 'confirmed', minContextSlot: 20 }]);
+
+    expect(CachePolicy.getCacheKeyParams(solana, first)).toEqual(['addr', { commitment: 'confirmed' }]);
+    expect(CachePolicy.getCacheKeyParams(solana, first)).toEqual(CachePolicy.getCacheKeyParams(solana, second));
+
+    const cached = { jsonrpc: '2.0' as const, id: 1, result: account(15) };
+    expect(CachePolicy.satisfiesRequest(first, cached)).toBe(true);
+    expect(CachePolicy.satisfiesRequest(second, cached)).toBe(false);
+  });
+});
+
+describe('CachePolicy.getBlockDependencies', () => {
+  const block = (number: number, byte: string) => ({ number: `0x${number.toString(16)}`, hash: `0x${byte.repeat(64)}` });
+
+  it('lists the unconfirmed blocks of blocks, receipts and logs', () => {
+    const log = { blockNumber: '0x64', blockHash: `0x${'b'.repeat(64)}`, logIndex: '0x0' };
+
+    expect(CachePolicy.getBlockDependencies(context({}, 0x64), [block(0x64, 'a'), log, log])).toEqual([
+      { number: 0x64, hash: `0x${'a'.repeat(64)}` },
+      { number: 0x64, hash: `0x${'b'.repeat(64)}` }
+    ]);
+  });
+
+  it('leaves out confirmed blocks, results without a block and Solana', () => {
+    expect(CachePolicy.getBlockDependencies(context({}, 0x64 + 12), block(0x64, 'a'))).toEqual([]);
+    expect(CachePolicy.getBlockDependencies(context(), { blockNumber: null, blockHash: null })).toEqual([]);
+    expect(CachePolicy.getBlockDependencies(context({ chainId: 'sol-test' }), block(0x64, 'a'))).toEqual([]);
+  });
+});
@@ -0,0 +1,394 @@
+import { BlockDependency, ChainConfig, JSONRPCRequest, JSONRPCResponse } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily, getConfirmations, normalizeHeight } from '../utils/chain';
+
+const { IMMUTABLE_TTL, TAG_TTL, RECENT_TTL, LATEST_TTL } = APP_CONSTANTS.CACHE_POLICY;
+
+/**
+ * Inputs to a caching decision beyond the request itself
+ */
+export interface CachePolicyContext {
+  chainConfig: ChainConfig;
+  head?: number; // Latest known chain height; without it fixed blocks are treated as recent
+}
+
+// How a request pins the chain state it reads
+type BlockRef =
+  | { kind: 'hash' }
+  | { kind: 'number'; number: number }
+  | { kind: 'earliest' | 'finalized' | 'safe' | 'latest' | 'pending' };
+
+// Caching rule for an EVM method
+interface EVMMethodRule {
+  ttl?: number; // Fixed TTL for methods that don't take a block
+  blockParam?: number; // Position of the block tag / number / hash parameter ('latest' when omitted)
+  resultBlock?: boolean; // Finality comes from the `blockNumber` of the result (transactions, receipts)
+  logsFilter?: boolean; // eth_getLogs filter object
+}
+
+const EVM_RULES: Record<string, EVMMethodRule> = {
+  eth_chainId: { ttl: IMMUTABLE_TTL },
+  net_version: { ttl: IMMUTABLE_TTL },
+  eth_blockNumber: { ttl: LATEST_TTL },
+  eth_gasPrice: { ttl: LATEST_TTL },
+  eth_maxPriorityFeePerGas: { ttl: LATEST_TTL },
+  eth_getBalance: { blockParam: 1 },
+  eth_getCode: { blockParam: 1 },
+  eth_getTransactionCount: { blockParam: 1 },
+  eth_getStorageAt: { blockParam: 2 },
+  eth_call: { blockParam: 1 },
+  eth_estimateGas: { blockParam: 1 },
+  eth_getProof: { blockParam: 2 },
+  eth_getBlockByNumber: { blockParam: 0 },
+  eth_getBlockByHash: { blockParam: 0 },
+  eth_getBlockReceipts: { blockParam: 0 },
+  eth_getBlockTransactionCountByNumber: { blockParam: 0 },
+  eth_getBlockTransactionCountByHash: { blockParam: 0 },
+  eth_getTransactionByBlockNumberAndIndex: { blockParam: 0 },
+  eth_getTransactionByBlockHashAndIndex: { blockParam: 0 },
+  eth_getTransactionByHash: { resultBlock: true },
+  eth_getTransactionReceipt: { resultBlock: true },
+  eth_getLogs: { logsFilter: true },
+};
+
+// Solana commitment levels, strongest first
+type Commitment = 'finalized' | 'confirmed' | 'processed';
+
+// Caching rule for a Solana method
+interface SolanaMethodRule {
+  finalized: number; // TTL at 'finalized' commitment (the RPC default)
+  confirmed: number; // TTL at 'confirmed' commitment; 'processed' is never cached
+  configParam?: number; // Position of the config object holding commitment / minContextSlot
+  slotParam?: number; // Position of a slot parameter; confirmed data at a buried slot is final
+}
+
+const SOLANA_RULES: Record<string, SolanaMethodRule> = {
+  getGenesisHash: { finalized: IMMUTABLE_TTL, confirmed: IMMUTABLE_TTL },
+  getAccountInfo: { finalized: TAG_TTL, confirmed: LATEST_TTL, configParam: 1 },
+  getMultipleAccounts: { finalized: TAG_TTL, confirmed: LATEST_TTL, configParam: 1 },
+  getBalance: { finalized: TAG_TTL, confirmed: LATEST_TTL, configParam: 1 },
+  getTokenAccountBalance: { finalized: TAG_TTL, confirmed: LATEST_TTL, configParam: 1 },
+  getTokenSupply: { finalized: TAG_TTL, confirmed: LATEST_TTL, configParam: 1 },
+  getLatestBlockhash: { finalized: LATEST_TTL, confirmed: LATEST_TTL, configParam: 0 },
+  getTransaction: { finalized: IMMUTABLE_TTL, confirmed: RECENT_TTL, configParam: 1 },
+  getBlock: { finalized: IMMUTABLE_TTL, confirmed: RECENT_TTL, configParam: 1, slotParam: 0 },
+};
+
+// Deprecated commitment names still accepted by Solana nodes
+const LEGACY_COMMITMENTS: Record<string, Commitment> = {
+  max: 'finalized',
+  root: 'finalized',
+  singleGossip: 'confirmed',
+  single: 'confirmed',
+  recent: 'processed',
+};
+
+const BLOCK_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Cache Policy
+ * Decides whether and for how long an RPC response may be cached, based on the method,
+ * the block (EVM) or commitment (Solana) it is pinned to and the result itself. A TTL of 0 means "don't cache".
+ */
+export class CachePolicy {
+  /**
+   * Check whether a request can be answered from cache at all
+   * Used to skip cache lookups for methods that are never stored
+   */
+  static isCacheable(context: CachePolicyContext, request: JSONRPCRequest): boolean {
+    if (getChainFamily(context.chainConfig) === 'solana') {
+      const rule = SOLANA_RULES[request.method];
+      return !!rule && this.getCommitmentTTL(rule, request) > 0;
+    }
+
+    const rule = EVM_RULES[request.method];
+    if (!rule) {
+      return false;
+    }
+
+    if (rule.blockParam !== undefined) {
+      return this.getBlockRefTTL(context, this.parseBlockRef(request.params?.[rule.blockParam])) > 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the TTL in seconds for a successful response
+   */
+  static getTTL(context: CachePolicyContext, request: JSONRPCRequest, result: unknown): number {
+    // Null results (unknown receipts, blocks not produced yet) may exist moments later
+    if (result === null || result === undefined) {
+      return 0;
+    }
+
+    if (getChainFamily(context.chainConfig) === 'solana') {
+      return this.getSolanaTTL(context, request, result);
+    }
+
+    const rule = EVM_RULES[request.method];
+    if (!rule) {
+      return 0;
+    }
+
+    if (rule.ttl !== undefined) {
+      return rule.ttl;
+    }
+
+    if (rule.blockParam !== undefined) {
+      return this.getBlockRefTTL(context, this.parseBlockRef(request.params?.[rule.blockParam]));
+    }
+
+    if (rule.resultBlock) {
+      // Pending transactions have no block yet
+      const blockNumber = normalizeHeight((result as { blockNumber?: unknown }).blockNumber);
+      return blockNumber === undefined ? 0 : this.getBlockNumberTTL(context, blockNumber);
+    }
+
+    if (rule.logsFilter) {
+      return this.getLogsTTL(context, request.params?.[0]);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Seconds past its TTL a response may still be served as stale; 0 disables stale serving
+   * Chain overrides win over the built-in per-method limits; no limit exceeds STALE_LIMIT
+   */
+  static getStaleTTL(context: CachePolicyContext, request: JSONRPCRequest): number {
+    const staleCache = context.chainConfig.staleCache;
+    const methodDefaults: Record<string, number> = APP_CONSTANTS.CACHE_POLICY.METHOD_MAX_STALE;
+
+    const staleTtl = staleCache?.methods?.[request.method]
+      ?? staleCache?.maxStale
+      ?? methodDefaults[request.method]
+      ?? APP_CONSTANTS.CACHE_POLICY.DEFAULT_MAX_STALE;
+    return Math.min(staleTtl, APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT);
+  }
+
+  /**
+   * Whether stale entries are served right away while a background call refreshes them
+   */
+  static shouldRevalidate(context: CachePolicyContext): boolean {
+    return context.chainConfig.staleCache?.revalidate === true;
+  }
+
+  /**
+   * Unconfirmed EVM blocks a result was read from (blocks, transactions, receipts, logs)
+   * Cache entries remember them so they can be dropped if one of the blocks is reorged out
+   */
+  static getBlockDependencies(context: CachePolicyContext, result: unknown): BlockDependency[] {
+    if (getChainFamily(context.chainConfig) !== 'evm') {
+      return [];
+    }
+
+    const blocks = new Map<string, BlockDependency>();
+    const items = Array.isArray(result) ? result : [result];
+
+    for (const item of items) {
+      if (!item || typeof item !== 'object') {
+        continue;
+      }
+
+      // Blocks carry number/hash, transactions, receipts and logs blockNumber/blockHash
+      const { number, hash, blockNumber, blockHash } = item as Record<string, unknown>;
+      const height = normalizeHeight(blockHash !== undefined ? blockNumber : number);
+      const blockId = blockHash !== undefined ? blockHash : hash;
+
+      if (height === undefined || typeof blockId !== 'string' || !BLOCK_HASH_PATTERN.test(blockId)) {
+        continue;
+      }
+
+      const confirmed = context.head !== undefined && context.head - height >= getConfirmations(context.chainConfig);
+      if (!confirmed) {
+        blocks.set(blockId, { number: height, hash: blockId });
+      }
+    }
+
+    return [...blocks.values()];
+  }
+
+  /**
+   * Params used in the cache key
+   * minContextSlot is left out so requests with different minimums share entries;
+   * hits are checked against it with satisfiesRequest()
+   */
+  static getCacheKeyParams(context: CachePolicyContext, request: JSONRPCRequest): any[] {
+    const params = request.params || [];
+    const rule = getChainFamily(context.chainConfig) === 'solana' ? SOLANA_RULES[request.method] : undefined;
+    const config = rule?.configParam !== undefined ? params[rule.configParam] : undefined;
+
+    if (!config || typeof config !== 'object' || !('minContextSlot' in config)) {
+      return params;
+    }
+
+    const { minContextSlot, ...rest } = config;
+    const keyParams = [...params];
+    keyParams[rule!.configParam!] = rest;
+    return keyParams;
+  }
+
+  /**
+   * Check that a cached response is recent enough for the request's minContextSlot
+   */
+  static satisfiesRequest(request: JSONRPCRequest, response: JSONRPCResponse): boolean {
+    const minContextSlot = this.getMinContextSlot(request);
+    if (minContextSlot === undefined) {
+      return true;
+    }
+
+    const slot = normalizeHeight(response.result?.context?.slot);
+    return slot !== undefined && slot >= minContextSlot;
+  }
+
+  /**
+   * TTL for a Solana response: set by the commitment it was read at, and 0 when the node
+   * answered from before the requested minContextSlot
+   */
+  private static getSolanaTTL(context: CachePolicyContext, request: JSONRPCRequest, result: unknown): number {
+    const rule = SOLANA_RULES[request.method];
+    if (!rule) {
+      return 0;
+    }
+
+    // Context-wrapped results ({ context, value }) with a null value are missing accounts
+    const value = (result as { value?: unknown }).value;
+    if (value === null) {
+      return 0;
+    }
+
+    if (!this.satisfiesRequest(request, { jsonrpc: '2.0', id: request.id, result })) {
+      return 0;
+    }
+
+    const ttl = this.getCommitmentTTL(rule, request);
+    if (ttl > 0 && ttl < IMMUTABLE_TTL && rule.slotParam !== undefined) {
+      // Confirmed data far enough behind the head can no longer be rolled back
+      const slot = normalizeHeight(request.params?.[rule.slotParam]);
+      if (slot !== undefined) {
+        return Math.max(ttl, this.getBlockNumberTTL(context, slot));
+      }
+    }
+
+    return ttl;
+  }
+
+  private static getCommitmentTTL(rule: SolanaMethodRule, request: JSONRPCRequest): number {
+    switch (this.getCommitment(request, rule)) {
+      case 'finalized':
+        return rule.finalized;
+      case 'confirmed':
+        return rule.confirmed;
+      case 'processed':
+        return 0;
+    }
+  }
+
+  /**
+   * Read the commitment from the config object; Solana nodes default to 'finalized'
+   */
+  private static getCommitment(request: JSONRPCRequest, rule: SolanaMethodRule): Commitment {
+    const config = rule.configParam !== undefined ? request.params?.[rule.configParam] : undefined;
+    const commitment = config && typeof config === 'object' ? config.commitment : undefined;
+
+    if (commitment === undefined) {
+      return 'finalized';
+    }
+
+    if (commitment === 'finalized' || commitment === 'confirmed' || commitment === 'processed') {
+      return commitment;
+    }
+
+    // Unknown values are treated as the weakest level
+    return LEGACY_COMMITMENTS[commitment] || 'processed';
+  }
+
+  private static getMinContextSlot(request: JSONRPCRequest): number | undefined {
+    const rule = SOLANA_RULES[request.method];
+    const config = rule?.configParam !== undefined ? request.params?.[rule.configParam] : undefined;
+    return config && typeof config === 'object' ? normalizeHeight(config.minContextSlot) : undefined;
+  }
+
+  /**
+   * TTL for a log query: hash-pinned queries are immutable, ranges live as long as their newest end
+   */
+  private static getLogsTTL(context: CachePolicyContext, filter: unknown): number {
+    if (!filter || typeof filter !== 'object') {
+      return 0;
+    }
+
+    const { blockHash, fromBlock, toBlock } = filter as { blockHash?: unknown; fromBlock?: unknown; toBlock?: unknown };
+    if (typeof blockHash === 'string') {
+      return IMMUTABLE_TTL;
+    }
+
+    return Math.min(
+      this.getBlockRefTTL(context, this.parseBlockRef(fromBlock)),
+      this.getBlockRefTTL(context, this.parseBlockRef(toBlock))
+    );
+  }
+
+  /**
+   * Classify a block parameter: tag, number, hash or EIP-1898 object
+   */
+  private static parseBlockRef(param: unknown): BlockRef {
+    if (param === undefined || param === null) {
+      return { kind: 'latest' };
+    }
+
+    if (typeof param === 'object') {
+      const { blockHash, blockNumber } = param as { blockHash?: unknown; blockNumber?: unknown };
+      if (typeof blockHash === 'string') {
+        return { kind: 'hash' };
+      }
+      return this.parseBlockRef(blockNumber);
+    }
+
+    if (typeof param === 'string') {
+      if (BLOCK_HASH_PATTERN.test(param)) {
+        return { kind: 'hash' };
+      }
+
+      if (param === 'earliest' || param === 'finalized' || param === 'safe' || param === 'pending') {
+        return { kind: param };
+      }
+
+      const number = param.startsWith('0x') ? normalizeHeight(param) : undefined;
+      if (number !== undefined) {
+        return { kind: 'number', number };
+      }
+    }
+
+    // Unknown tags are treated like 'latest'
+    return { kind: 'latest' };
+  }
+
+  private static getBlockRefTTL(context: CachePolicyContext, ref: BlockRef): number {
+    switch (ref.kind) {
+      case 'hash':
+      case 'earliest':
+        return IMMUTABLE_TTL;
+      case 'number':
+        return this.getBlockNumberTTL(context, ref.number);
+      case 'finalized':
+      case 'safe':
+        return TAG_TTL;
+      case 'latest':
+        return LATEST_TTL;
+      case 'pending':
+        return 0;
+    }
+  }
+
+  /**
+   * Data at a fixed block is final once the block is buried deep enough to survive reorgs
+   */
+  private static getBlockNumberTTL(context: CachePolicyContext, blockNumber: number): number {
+    if (context.head !== undefined && context.head - blockNumber >= getConfirmations(context.chainConfig)) {
+      return IMMUTABLE_TTL;
+    }
+
+    return RECENT_TTL;
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CacheService } from './cache_service';
+import { createCache, createKV } from '../testing/fakes';
+
+// Counters are shared by every CacheService in the isolate, so each test uses its own chain
+function lookups(cache: CacheService, chainId: string, method: string) {
+  const { hits, misses } = cache.getStats().byChain[chainId][method];
+  return { hits, misses };
+}
+
+describe('CacheService RPC lookups', () => {
+  it('counts a usable entry as a hit', async () => {
+    const cache = new CacheService(createKV());
+    await cache.cacheRPCResponse('101', 'eth_getBlockByNumber', ['0x1'], { result: 'block' }, 3600);
+
+    const hit = await cache.getCachedRPCResponse('101', 'eth_getBlockByNumber', ['0x1'], () => true);
+
+    expect(hit?.value).toEqual({ result: 'block' });
+    expect(lookups(cache, '101', 'eth_getBlockByNumber')).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it('counts an entry the caller rejects as a miss and does not return it', async () => {
+    const cache = new CacheService(createKV());
+    await cache.cacheRPCResponse('102', 'eth_getBlockByNumber', ['0x1'], { result: 'block' }, 3600);
+
+    const hit = await cache.getCachedRPCResponse('102', 'eth_getBlockByNumber', ['0x1'], () => false);
+
+    expect(hit).toBeNull();
+    expect(lookups(cache, '102', 'eth_getBlockByNumber')).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it('counts a missing entry as a miss', async () => {
+    const cache = new CacheService(createKV());
+    await cache.cacheRPCResponse('103', 'eth_getBlockByNumber', ['0x1'], { result: 'block' }, 3600);
+
+    expect(await cache.getCachedRPCResponse('103', 'eth_getBlockByNumber', ['0x2'])).toBeNull();
+    expect(lookups(cache, '103', 'eth_getBlockByNumber')).toEqual({ hits: 0, misses: 1 });
+  });
+});
+
+describe('CacheService reorgs', () => {
+  it('drops entries read from a block that was reorged out', async () => {
+    const cache = new CacheService(createKV());
+    const block = { number: 100, hash: `0x${'a'.repeat(64)}` };
+    await cache.observeBlocks('121', [block]);
+    await cache.cacheRPCResponse('121', 'eth_getBlockByNumber', ['0x64'], { result: 'block' }, 3600, 0, [block]);
+    expect(await cache.getCachedRPCResponse('121', 'eth_getBlockByNumber', ['0x64'])).not.toBeNull();
+
+    await cache.observeBlocks('121', [{ number: 100, hash: `0x${'b'.repeat(64)}` }]);
+
+    expect(await cache.getCachedRPCResponse('121', 'eth_getBlockByNumber', ['0x64'])).toBeNull();
+    expect(lookups(cache, '121', 'eth_getBlockByNumber')).toEqual({ hits: 1, misses: 1 });
+  });
+});
+
+describe('CacheService tiers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function setup() {
+    const l1 = createCache();
+    vi.stubGlobal('caches', { default: l1 });
+    const kv = createKV();
+    return { l1, kv, cache: new CacheService(kv) };
+  }
+
+  it('keeps entries shorter than the KV minimum in L1 only', async () => {
+    const { l1, kv, cache } = setup();
+    await cache.cacheRPCResponse('111', 'eth_blockNumber', [], { result: '0x1' }, 2);
+
+    expect(l1.store.size).toBe(1);
+    expect(kv.store.size).toBe(0);
+    expect((await cache.getCachedRPCResponse('111', 'eth_blockNumber', []))?.tier).toBe('L1');
+  });
+
+  it('answers from KV when L1 lost the entry and promotes it back', async () => {
+    const { l1, kv, cache } = setup();
+    await cache.cacheRPCResponse('112', 'eth_getBlockByNumber', ['0x1'], { result: 'block' }, 3600);
+    expect(kv.store.size).toBe(1);
+    l1.store.clear();
+
+    const hit = await cache.getCachedRPCResponse('112', 'eth_getBlockByNumber', ['0x1']);
+
+    expect(hit).toMatchObject({ value: { result: 'block' }, tier: 'L2', stale: false });
+    expect(l1.store.size).toBe(1);
+    expect((await cache.getCachedRPCResponse('112', 'eth_getBlockByNumber', ['0x1']))?.tier).toBe('L1');
+  });
+
+  it('falls back to KV when the Cache API fails', async () => {
+    const { kv } = setup();
+    vi.stubGlobal('caches', { default: {
+      match: async () => { throw new Error('cache unavailable'); },
+      put: async () => { throw new Error('cache unavailable'); }
+    } });
+    const cache = new CacheService(kv);
+
+    await cache.cacheRPCResponse('113', 'eth_getBlockByNumber', ['0x1'], { result: 'block' }, 3600);
+
+    expect((await cache.getCachedRPCResponse('113', 'eth_getBlockByNumber', ['0x1']))?.tier).toBe('L2');
+  });
+});
+
+describe('CacheService without a working Cache API', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps entries shorter than the KV minimum in the isolate', async () => {
+    const kv = createKV();
+    const cache = new CacheService(kv);
+    await cache.cacheRPCResponse('131', 'eth_blockNumber', [], { result: '0x1' }, 2);
+
+    expect(kv.store.size).toBe(0);
+    expect(await new CacheService(createKV()).getCachedRPCResponse('131', 'eth_blockNumber', []))
+      .toMatchObject({ value: { result: '0x1' }, tier: 'L1' });
+  });
+
+  it('keeps them where the Cache API stores nothing', async () => {
+    vi.stubGlobal('caches', { default: { match: async () => undefined, put: async () => {}, delete: async () => false } });
+    const cache = new CacheService(createKV());
+    await cache.cacheRPCResponse('132', 'eth_blockNumber', [], { result: '0x1' }, 2);
+
+    expect((await cache.getCachedRPCResponse('132', 'eth_blockNumber', []))?.value).toEqual({ result: '0x1' });
+  });
+
+  it('drops them once their TTL has passed', async () => {
+    const cache = new CacheService(createKV());
+    await cache.cacheRPCResponse('133', 'eth_blockNumber', [], { result: '0x1' }, 2);
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 3000);
+
+    expect(await cache.getCachedRPCResponse('133', 'eth_blockNumber', [])).toBeNull();
+  });
+});
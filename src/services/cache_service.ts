@@ -1,20 +1,78 @@
-import { CacheEntry, CacheConfig } from '../types';
+import { CacheEntry, CacheConfig, CacheTier, CacheHit, CachePurgeScope, CacheGenerationState, BlockDependency } from '../types';
 import { APP_CONSTANTS } from '../constants';
 import { Logger, LogLevel } from '../utils/logger';
 import { errorHandler, SystemError } from '../utils/error_handler';
 import { MetricsService, getMetricsService } from './metrics_service';
+import { CacheGenerations } from './cache_generations';
+import { ReorgTracker } from './reorg_tracker';
 import { generateCacheKey } from '../utils/hash';
 import { compressForCache, decompressFromCache, shouldCompress } from '../utils/compression';
 
+// Chain and method an RPC cache operation is counted under
+interface RPCCacheLabels {
+  chainId: string;
+  method: string;
+}
+
+/**
+ * Serialized cache entries of one isolate, least recently used first
+ * Keeps entries too short-lived for KV cached where the Cache API is missing or inert
+ * (workers.dev, local development)
+ */
+class IsolateCache {
+  // Insertion order doubles as recency order: used entries are moved to the end
+  private entries: Map<string, { serialized: string; expiresAt: number }> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string, now: number = Date.now()): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.serialized;
+  }
+
+  set(key: string, serialized: string, ttl: number, now: number = Date.now()): void {
+    this.entries.delete(key);
+    this.entries.set(key, { serialized, expiresAt: now + ttl * 1000 });
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
 /**
  * Cache Service
  * Handles caching of RPC responses and configuration data
  */
 export class CacheService {
+  // Short-lived entries of this isolate, checked before the Cache API
+  private static isolateCache: IsolateCache = new IsolateCache(APP_CONSTANTS.CACHE.MAX_SIZE);
+
   private cache: KVNamespace;
   private logger: Logger;
   private metricsService: MetricsService;
   private config: CacheConfig;
+  private generations: CacheGenerations;
+  private reorgs: ReorgTracker;
 
   constructor(cache: KVNamespace, config?: Partial<CacheConfig>) {
     this.cache = cache;
@@ -27,6 +85,8 @@ export class CacheService {
       cleanupInterval: config?.cleanupInterval || 3600, // Default 1 hour
       ...config
     };
+    this.generations = new CacheGenerations(cache, this.config.keyPrefix, this.logger);
+    this.reorgs = new ReorgTracker(cache, this.config.keyPrefix, this.logger);
   }
 
   /**
@@ -38,26 +98,47 @@ export class CacheService {
   }
 
   /**
-   * Set cache entry with optional compression
+   * Set cache entry
+   * Entries always go to the per-colo Cache API (L1); entries that live at least as long as
+   * KV's minimum expiration also go to KV (L2), compressed when large enough. Shorter entries
+   * are kept in the isolate as well, so they stay cached where the Cache API doesn't work.
+   * Both tiers keep the entry for its TTL plus `staleTtl`, so it can still be served as stale.
+   * `blocks` lists the unconfirmed blocks the value was read from, so a reorg can invalidate it.
    */
-  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+  async set<T>(
+    key: string,
+    value: T,
+    ttl?: number,
+    options: { labels?: RPCCacheLabels; staleTtl?: number; blocks?: BlockDependency[] } = {}
+  ): Promise<void> {
+    const { labels, staleTtl = 0, blocks } = options;
     const startTime = Date.now();
     try {
       const cacheKey = this.generateKey(key);
       const entry: CacheEntry<T> = {
         data: value,
         timestamp: Date.now(),
-        ttl: ttl || this.config.defaultTTL
+        ttl: ttl || this.config.defaultTTL,
+        staleTtl,
+        ...(blocks && blocks.length > 0 ? { blocks } : {})
       };
+      const retention = entry.ttl + staleTtl;
 
-      const expirationTtl = ttl || this.config.defaultTTL;
       const serialized = JSON.stringify(entry);
+      const l1TTL = Math.min(retention, APP_CONSTANTS.CACHE.L1_MAX_TTL);
+      await this.setL1(cacheKey, serialized, l1TTL);
+
+      // Short-lived entries can't be expressed in KV and would outlive their TTL there
+      const storeInL2 = entry.ttl >= APP_CONSTANTS.CACHE_POLICY.KV_MIN_TTL;
+      if (!storeInL2) {
+        CacheService.isolateCache.set(cacheKey, serialized, l1TTL);
+      }
 
       // Compress if data is large enough
       let dataToStore = serialized;
       let compressed = false;
 
-      if (shouldCompress(serialized)) {
+      if (storeInL2 && shouldCompress(serialized)) {
         try {
           dataToStore = await compressForCache(serialized);
           compressed = true;
@@ -73,22 +154,30 @@ export class CacheService {
         }
       }
 
-      await this.cache.put(cacheKey, dataToStore, {
-        expirationTtl,
-        metadata: { compressed }
-      });
+      if (storeInL2) {
+        await this.cache.put(cacheKey, dataToStore, {
+          expirationTtl: retention,
+          metadata: { compressed }
+        });
+      }
 
       const duration = Date.now() - startTime;
       this.logger.logCacheOperation('set', key, 'cache-service', duration);
-      this.logger.debug('Cache entry set', { key: cacheKey, ttl: expirationTtl, compressed });
+      this.logger.debug('Cache entry set', { key: cacheKey, ttl: entry.ttl, compressed, l2: storeInL2 });
 
       // Record cache metrics
       this.metricsService.recordPerformance('cache-set', duration, true, 'cache-service', {
         key,
-        ttl: expirationTtl,
+        ttl: entry.ttl,
         compressed,
+        l2: storeInL2,
         size: dataToStore.length
       });
+      if (labels) {
+        this.metricsService.recordCacheEvent(labels.chainId, labels.method, 'set', {
+          bytesSaved: compressed ? serialized.length - dataToStore.length : 0
+        });
+      }
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.logCacheOperation('set', key, 'cache-service', duration);
@@ -98,6 +187,9 @@ export class CacheService {
       // Record error metrics
       this.metricsService.recordPerformance('cache-set', duration, false, 'cache-service', { key, error: error instanceof Error ? error.message : 'Unknown error' });
       this.metricsService.recordError('CacheSetError', 'cache-service', undefined, error instanceof Error ? error.message : 'Unknown error', { key });
+      if (labels) {
+        this.metricsService.recordCacheEvent(labels.chainId, labels.method, 'error');
+      }
 
       const systemError = new SystemError(`Failed to set cache entry: ${key}`);
       errorHandler.handleError(systemError);
@@ -105,12 +197,45 @@ export class CacheService {
   }
 
   /**
-   * Get cache entry with automatic decompression
+   * Get cache entry; stale entries count as missing
    */
   async get<T>(key: string): Promise<T | null> {
+    const hit = await this.getWithTier<T>(key);
+    return hit && !hit.stale ? hit.value : null;
+  }
+
+  /**
+   * Get cache entry together with the tier that answered
+   * L1 is checked first; L2 hits are promoted to L1 for the rest of their TTL (capped at L1_MAX_TTL).
+   * Entries past their TTL but within their stale limit are returned with `stale: true`.
+   * Entries `accept` turns down are not returned and count as a miss.
+   */
+  async getWithTier<T>(
+    key: string,
+    labels?: RPCCacheLabels,
+    accept?: (hit: CacheHit<T>) => boolean | Promise<boolean>
+  ): Promise<CacheHit<T> | null> {
     const startTime = Date.now();
     try {
       const cacheKey = this.generateKey(key);
+
+      const l1Entry = await this.getL1<T>(cacheKey);
+      if (l1Entry && this.getRemainingTTL(l1Entry) > 0) {
+        const duration = Date.now() - startTime;
+        this.logger.logCacheOperation('hit', key, 'cache-service', duration);
+        this.logger.debug('Cache hit', { key: cacheKey, tier: 'L1' });
+
+        this.metricsService.recordPerformance('cache-get', duration, true, 'cache-service', {
+          key,
+          result: 'hit',
+          tier: 'L1'
+        });
+        return this.settleLookup(this.toCacheHit(l1Entry, 'L1'), labels, accept, 'hit', duration);
+      }
+
+      // A stale L1 copy is the fallback when KV has nothing fresher
+      const staleL1 = l1Entry ? this.toCacheHit(l1Entry, 'L1') : null;
+
       const result = await this.cache.getWithMetadata(cacheKey);
 
       if (!result.value) {
@@ -120,7 +245,7 @@ export class CacheService {
 
         // Record cache miss metrics
         this.metricsService.recordPerformance('cache-get', duration, false, 'cache-service', { key, result: 'miss' });
-        return null;
+        return this.settleLookup(staleL1, labels, accept, 'miss');
       }
 
       let cached = result.value;
@@ -133,15 +258,15 @@ export class CacheService {
           this.logger.debug('Cache entry decompressed', { key: cacheKey });
         } catch (decompressionError) {
           this.logger.error('Decompression failed', { key: cacheKey, error: decompressionError });
-          return null;
+          return this.settleLookup(staleL1, labels, accept, 'error');
         }
       }
 
       const entry: CacheEntry<T> = JSON.parse(cached);
 
       // Check if entry is expired (additional check)
-      const now = Date.now();
-      if (entry.timestamp + (entry.ttl * 1000) < now) {
+      const remaining = this.getRemainingTTL(entry);
+      if (remaining + (entry.staleTtl || 0) <= 0) {
         const duration = Date.now() - startTime;
         this.logger.logCacheOperation('miss', key, 'cache-service', duration);
         this.logger.debug('Cache entry expired', { key: cacheKey });
@@ -149,25 +274,40 @@ export class CacheService {
         // Record expired entry metrics
         this.metricsService.recordPerformance('cache-get', duration, false, 'cache-service', { key, result: 'expired' });
         await this.delete(key);
-        return null;
+        return this.settleLookup(staleL1, labels, accept, 'miss');
+      }
+
+      if (remaining <= 0) {
+        // Past its TTL but within its stale limit: only usable as a fallback
+        const duration = Date.now() - startTime;
+        this.logger.logCacheOperation('miss', key, 'cache-service', duration);
+        this.logger.debug('Cache entry stale', { key: cacheKey });
+
+        this.metricsService.recordPerformance('cache-get', duration, false, 'cache-service', { key, result: 'stale' });
+        return this.settleLookup(this.toCacheHit(entry, 'L2'), labels, accept, 'miss');
       }
 
+      // Promote to L1 so the next lookup in this colo skips KV
+      await this.setL1(cacheKey, cached, Math.min(remaining + (entry.staleTtl || 0), APP_CONSTANTS.CACHE.L1_MAX_TTL));
+
       const duration = Date.now() - startTime;
       this.logger.logCacheOperation('hit', key, 'cache-service', duration);
-      this.logger.debug('Cache hit', { key: cacheKey });
+      this.logger.debug('Cache hit', { key: cacheKey, tier: 'L2' });
 
       // Record cache hit metrics
       this.metricsService.recordPerformance('cache-get', duration, true, 'cache-service', {
         key,
         result: 'hit',
+        tier: 'L2',
         compressed: metadata?.compressed || false
       });
-      return entry.data;
+      return this.settleLookup(this.toCacheHit(entry, 'L2'), labels, accept, 'hit', duration);
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.logCacheOperation('miss', key, 'cache-service', duration);
 
       this.logger.error('Failed to get cache entry', { key, error });
+      this.recordLookup(labels, 'error');
       const systemError = new SystemError(`Failed to get cache entry: ${key}`);
       errorHandler.handleError(systemError);
       return null;
@@ -182,6 +322,8 @@ export class CacheService {
     try {
       const cacheKey = this.generateKey(key);
       await this.cache.delete(cacheKey);
+      CacheService.isolateCache.delete(cacheKey);
+      await this.getL1Cache()?.delete(this.getL1Request(cacheKey));
 
       const duration = Date.now() - startTime;
       this.logger.logCacheOperation('delete', key, 'cache-service', duration);
@@ -197,13 +339,11 @@ export class CacheService {
   }
 
   /**
-   * Clear all cache entries with prefix
+   * Clear all cached RPC responses by bumping the global cache generation
    */
   async clear(): Promise<void> {
     try {
-      // Note: KV doesn't support bulk delete, so we'd need to track keys
-      // For now, we'll just log the operation
-      this.logger.info('Cache clear requested', { prefix: this.config.keyPrefix });
+      await this.purge({ scope: 'all' });
     } catch (error) {
       this.logger.error('Failed to clear cache', { error });
       const systemError = new SystemError('Failed to clear cache');
@@ -212,39 +352,82 @@ export class CacheService {
   }
 
   /**
-   * Cache RPC response with optimized key generation
+   * Make cached RPC responses in a scope unreachable (all, chain, method or exact request)
+   * Other isolates pick up the new generation within GENERATIONS_STATE_TTL plus KV propagation
    */
-  async cacheRPCResponse(chainId: string, method: string, params: any[], response: any): Promise<void> {
-    // Only cache certain methods that are safe to cache
-    const cacheableMethods = [
-      'eth_blockNumber',
-      'eth_getBalance',
-      'eth_getBlockByNumber',
-      'eth_getBlockByHash',
-      'eth_getTransactionByHash',
-      'eth_getTransactionReceipt',
-      'eth_call',
-      'eth_estimateGas'
-    ];
-
-    if (!cacheableMethods.includes(method)) {
-      return;
-    }
+  async purge(scope: CachePurgeScope): Promise<CacheGenerationState> {
+    const requestKey = scope.scope === 'request'
+      ? generateCacheKey(scope.chainId, scope.method, scope.params)
+      : undefined;
+    const state = await this.generations.purge(scope, requestKey);
+
+    this.logger.info('Cache purged', { ...scope, requestKey, generation: state.updatedAt });
+    return state;
+  }
+
+  /**
+   * Get the current cache generations
+   */
+  async getGenerations(): Promise<CacheGenerationState> {
+    return this.generations.getState(true);
+  }
 
-    // Use optimized cache key generation
-    const cacheKey = `rpc:${generateCacheKey(chainId, method, params)}`;
-    const ttl = this.getRPCCacheTTL(method);
+  /**
+   * Build the storage key of an RPC response, tagged with its current generation
+   */
+  private async getRPCCacheKey(chainId: string, method: string, params: any[]): Promise<string> {
+    const requestKey = generateCacheKey(chainId, method, params);
+    const tag = await this.generations.getTag(chainId, method, requestKey);
+    return `rpc:${tag}:${requestKey}`;
+  }
 
-    await this.set(cacheKey, response, ttl);
+  /**
+   * Cache RPC response with optimized key generation
+   * The TTL and stale limit come from the cache policy (see CachePolicy.getTTL / getStaleTTL),
+   * the block dependencies from CachePolicy.getBlockDependencies
+   */
+  async cacheRPCResponse(
+    chainId: string,
+    method: string,
+    params: any[],
+    response: any,
+    ttl: number,
+    staleTtl: number = 0,
+    blocks: BlockDependency[] = []
+  ): Promise<void> {
+    const cacheKey = await this.getRPCCacheKey(chainId, method, params);
+    await this.set(cacheKey, response, ttl, { labels: { chainId, method }, staleTtl, blocks });
   }
 
   /**
    * Get cached RPC response with optimized key generation
+   * The result says which tier answered and whether the response is stale.
+   * Entries read from a block that has since been reorged out are dropped; entries the caller
+   * can't use for this request (`accept`) are not returned. Both count as a miss.
    */
-  async getCachedRPCResponse(chainId: string, method: string, params: any[]): Promise<any | null> {
-    // Use optimized cache key generation
-    const cacheKey = `rpc:${generateCacheKey(chainId, method, params)}`;
-    return await this.get(cacheKey);
+  async getCachedRPCResponse(
+    chainId: string,
+    method: string,
+    params: any[],
+    accept?: (value: any) => boolean
+  ): Promise<CacheHit | null> {
+    const cacheKey = await this.getRPCCacheKey(chainId, method, params);
+
+    return this.getWithTier(cacheKey, { chainId, method }, async hit => {
+      if (hit.blocks && await this.reorgs.isOrphaned(chainId, hit.blocks)) {
+        this.logger.info('Dropping cache entry read from an orphaned block', { chainId, method, blocks: hit.blocks });
+        await this.delete(cacheKey);
+        return false;
+      }
+      return !accept || accept(hit.value);
+    });
+  }
+
+  /**
+   * Record the blocks an upstream response was read from, so reorgs are noticed
+   */
+  async observeBlocks(chainId: string, blocks: BlockDependency[]): Promise<void> {
+    await this.reorgs.observe(chainId, blocks);
   }
 
   /**
@@ -280,32 +463,103 @@ export class CacheService {
   }
 
   /**
-   * Get appropriate TTL for RPC method
+   * Apply the caller's check to a lookup result and count the lookup; a rejected hit is a miss
    */
-  private getRPCCacheTTL(method: string): number {
-    const ttlMap: Record<string, number> = {
-      'eth_blockNumber': 5, // 5 seconds for latest block
-      'eth_getBalance': 30, // 30 seconds for balance
-      'eth_getBlockByNumber': 300, // 5 minutes for historical blocks
-      'eth_getBlockByHash': 3600, // 1 hour for blocks by hash
-      'eth_getTransactionByHash': 3600, // 1 hour for transactions
-      'eth_getTransactionReceipt': 3600, // 1 hour for receipts
-      'eth_call': 60, // 1 minute for contract calls
-      'eth_estimateGas': 30 // 30 seconds for gas estimates
-    };
+  private async settleLookup<T>(
+    hit: CacheHit<T> | null,
+    labels: RPCCacheLabels | undefined,
+    accept: ((hit: CacheHit<T>) => boolean | Promise<boolean>) | undefined,
+    outcome: 'hit' | 'miss' | 'error',
+    latency?: number
+  ): Promise<CacheHit<T> | null> {
+    if (hit && accept && !(await accept(hit))) {
+      this.recordLookup(labels, outcome === 'hit' ? 'miss' : outcome);
+      return null;
+    }
 
-    return ttlMap[method] || APP_CONSTANTS.CACHE.DEFAULT_TTL;
+    this.recordLookup(labels, outcome, latency);
+    return hit;
   }
 
   /**
-   * Get cache statistics
+   * Count an RPC cache lookup under its chain and method
    */
-  async getStats(): Promise<{ hits: number; misses: number; size: number }> {
-    // This would require additional tracking in a real implementation
+  private recordLookup(labels: RPCCacheLabels | undefined, outcome: 'hit' | 'miss' | 'error', latency?: number): void {
+    if (labels) {
+      this.metricsService.recordCacheEvent(labels.chainId, labels.method, outcome, { latency });
+    }
+  }
+
+  private toCacheHit<T>(entry: CacheEntry<T>, tier: CacheTier): CacheHit<T> {
     return {
-      hits: 0,
-      misses: 0,
-      size: 0
+      value: entry.data,
+      tier,
+      age: Math.floor((Date.now() - entry.timestamp) / 1000),
+      stale: this.getRemainingTTL(entry) <= 0,
+      ...(entry.blocks ? { blocks: entry.blocks } : {})
     };
   }
+
+  /**
+   * Seconds an entry has left before it expires
+   */
+  private getRemainingTTL(entry: CacheEntry): number {
+    return Math.floor(entry.ttl - (Date.now() - entry.timestamp) / 1000);
+  }
+
+  /**
+   * Per-colo Cache API; not available outside the Workers runtime
+   */
+  private getL1Cache(): Cache | null {
+    return typeof caches !== 'undefined' ? caches.default : null;
+  }
+
+  private getL1Request(cacheKey: string): Request {
+    return new Request(`https://${APP_CONSTANTS.CACHE.L1_HOST}/${encodeURIComponent(cacheKey)}`);
+  }
+
+  /**
+   * Read an entry from L1, the isolate's own entries first; failures count as a miss so KV can still answer
+   */
+  private async getL1<T>(cacheKey: string): Promise<CacheEntry<T> | null> {
+    try {
+      const serialized = CacheService.isolateCache.get(cacheKey)
+        ?? await (await this.getL1Cache()?.match(this.getL1Request(cacheKey)))?.text();
+      if (!serialized) {
+        return null;
+      }
+
+      const entry = JSON.parse(serialized) as CacheEntry<T>;
+      return this.getRemainingTTL(entry) + (entry.staleTtl || 0) > 0 ? entry : null;
+    } catch (error) {
+      this.logger.warn('L1 cache read failed', { key: cacheKey, error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    }
+  }
+
+  private async setL1(cacheKey: string, serialized: string, ttl: number): Promise<void> {
+    const cache = this.getL1Cache();
+    if (!cache || ttl <= 0) {
+      return;
+    }
+
+    try {
+      await cache.put(this.getL1Request(cacheKey), new Response(serialized, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': `max-age=${ttl}`
+        }
+      }));
+    } catch (error) {
+      this.logger.warn('L1 cache write failed', { key: cacheKey, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * Get response cache statistics (hits, misses, sets, errors, compression savings, hit latency)
+   * Counters are kept per isolate, like the other metrics
+   */
+  getStats(): ReturnType<MetricsService['getCacheStats']> {
+    return this.metricsService.getCacheStats();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, CircuitBreakerDurableObject, CircuitBreakerTable } from './circuit_breaker';
+import { APP_CONSTANTS } from '../constants';
+import { Logger, LogLevel } from '../utils/logger';
+import { createDurableObjectState, createEnv } from '../testing/fakes';
+
+const { FAILURE_THRESHOLD, OPEN_DURATION, PROBE_TIMEOUT } = APP_CONSTANTS.CIRCUIT_BREAKER;
+const URL = 'https://rpc.test';
+
+function failTimes(table: CircuitBreakerTable, count: number, now = 0) {
+  for (let i = 0; i < count; i++) {
+    table.recordFailure(URL, 'timeout', now);
+  }
+}
+
+describe('CircuitBreakerTable', () => {
+  it('stays closed below the failure threshold and resets on success', () => {
+    const table = new CircuitBreakerTable();
+    failTimes(table, FAILURE_THRESHOLD - 1);
+    expect(table.getEntry(URL, 0)).toMatchObject({ state: 'closed', consecutiveFailures: FAILURE_THRESHOLD - 1 });
+
+    table.recordSuccess(URL);
+    failTimes(table, FAILURE_THRESHOLD - 1);
+    expect(table.tryAcquire(URL, 0)).toBe(true);
+  });
+
+  it('goes closed -> open -> half-open -> closed', () => {
+    const table = new CircuitBreakerTable();
+    failTimes(table, FAILURE_THRESHOLD, 1000);
+    expect(table.getEntry(URL, 1000)).toMatchObject({ state: 'open', openedAt: 1000, lastError: 'timeout' });
+    expect(table.tryAcquire(URL, 1000 + OPEN_DURATION - 1)).toBe(false);
+
+    // One trial request at a time once the open period is over
+    expect(table.tryAcquire(URL, 1000 + OPEN_DURATION)).toBe(true);
+    expect(table.getEntry(URL, 1000 + OPEN_DURATION).state).toBe('half-open');
+    expect(table.tryAcquire(URL, 1000 + OPEN_DURATION + 1)).toBe(false);
+
+    table.recordSuccess(URL);
+    expect(table.getEntry(URL)).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    expect(table.toJSON()).toEqual({});
+  });
+
+  it('reopens when the trial request fails', () => {
+    const table = new CircuitBreakerTable();
+    failTimes(table, FAILURE_THRESHOLD);
+    table.tryAcquire(URL, OPEN_DURATION);
+
+    table.recordFailure(URL, 'HTTP 503', OPEN_DURATION + 10);
+
+    expect(table.getEntry(URL, OPEN_DURATION + 10)).toMatchObject({ state: 'open', openedAt: OPEN_DURATION + 10 });
+  });
+
+  it('hands out the trial request again when the first one never answers', () => {
+    const table = new CircuitBreakerTable();
+    failTimes(table, FAILURE_THRESHOLD);
+    table.tryAcquire(URL, OPEN_DURATION);
+
+    expect(table.tryAcquire(URL, OPEN_DURATION + PROBE_TIMEOUT)).toBe(true);
+  });
+
+  it('does not extend an open circuit with late failures', () => {
+    const table = new CircuitBreakerTable();
+    failTimes(table, FAILURE_THRESHOLD);
+    table.recordFailure(URL, 'late', 500);
+
+    expect(table.getEntry(URL, 500)).toMatchObject({ state: 'open', openedAt: 0, consecutiveFailures: FAILURE_THRESHOLD + 1 });
+  });
+});
+
+describe('CircuitBreakerDurableObject', () => {
+  const post = (action: string, body: unknown) =>
+    new Request(`https://circuit-breaker${action}`, { method: 'POST', body: JSON.stringify(body) });
+
+  it('persists the table across instances', async () => {
+    const state = createDurableObjectState();
+    const breaker = new CircuitBreakerDurableObject(state, createEnv());
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await breaker.fetch(post('/failure', { url: URL, error: 'timeout' }));
+    }
+
+    const restarted = new CircuitBreakerDurableObject(state, createEnv());
+    const acquired = await (await restarted.fetch(post('/acquire', { url: URL }))).json();
+
+    expect(acquired).toMatchObject({ allowed: false, entry: { state: 'open' } });
+  });
+
+  it('rejects unknown actions and bodies without a url', async () => {
+    const breaker = new CircuitBreakerDurableObject(createDurableObjectState(), createEnv());
+
+    expect((await breaker.fetch(post('/reset', { url: URL }))).status).toBe(404);
+    expect((await breaker.fetch(post('/failure', {}))).status).toBe(404);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const logger = new Logger(LogLevel.ERROR);
+
+  it('keeps state per isolate without a Durable Object', async () => {
+    const breaker = new CircuitBreaker(createEnv(), logger);
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await breaker.recordFailure('cb-local', URL, 'timeout');
+    }
+
+    expect(await breaker.allowRequest('cb-local', URL)).toBe(false);
+    expect(await breaker.getOpenURLs('cb-local')).toEqual([URL]);
+    expect(await new CircuitBreaker(createEnv(), logger).allowRequest('cb-other', URL)).toBe(true);
+  });
+
+  it('uses the Durable Object of the chain when bound', async () => {
+    const breaker = new CircuitBreakerDurableObject(createDurableObjectState(), createEnv());
+    const names: string[] = [];
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: (name: string) => ({
+        fetch: (url: string, init: RequestInit) => {
+          names.push(name);
+          return breaker.fetch(new Request(url, init));
+        }
+      })
+    } as unknown as DurableObjectNamespace;
+    const client = new CircuitBreaker(createEnv({ CIRCUIT_BREAKER: namespace }), logger);
+
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await client.recordFailure('cb-bound', URL, 'timeout');
+    }
+
+    expect(await client.allowRequest('cb-bound', URL)).toBe(false);
+    expect(new Set(names)).toEqual(new Set(['chain:cb-bound']));
+    // The isolate table of the chain was never touched
+    expect(await new CircuitBreaker(createEnv(), logger).allowRequest('cb-bound', URL)).toBe(true);
+  });
+});
@@ -0,0 +1,318 @@
+import { Env, CircuitBreakerEntry, CircuitBreakerStateMap } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+const { FAILURE_THRESHOLD, OPEN_DURATION, PROBE_TIMEOUT, STATE_CACHE_TTL } = APP_CONSTANTS.CIRCUIT_BREAKER;
+
+/**
+ * Circuit breaker state machine for the endpoints of one chain
+ * closed -> open after FAILURE_THRESHOLD consecutive errors/timeouts,
+ * open -> half-open once OPEN_DURATION has passed,
+ * half-open -> closed when the trial request succeeds, or back to open when it fails
+ */
+export class CircuitBreakerTable {
+  private entries: CircuitBreakerStateMap;
+
+  constructor(entries: CircuitBreakerStateMap = {}) {
+    this.entries = entries;
+  }
+
+  /**
+   * Get the entry of an endpoint, moving expired open circuits to half-open
+   */
+  getEntry(url: string, now: number = Date.now()): CircuitBreakerEntry {
+    const entry = this.entries[url];
+    if (!entry) {
+      return { state: 'closed', consecutiveFailures: 0 };
+    }
+
+    if (entry.state === 'open' && now - (entry.openedAt || 0) >= OPEN_DURATION) {
+      entry.state = 'half-open';
+      entry.probeStartedAt = undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get all tracked entries with time-based transitions applied
+   */
+  getEntries(now: number = Date.now()): CircuitBreakerStateMap {
+    for (const url of Object.keys(this.entries)) {
+      this.getEntry(url, now);
+    }
+    return this.entries;
+  }
+
+  /**
+   * Decide whether a request may be sent to an endpoint
+   * A half-open circuit hands out a single trial request at a time
+   */
+  tryAcquire(url: string, now: number = Date.now()): boolean {
+    const entry = this.getEntry(url, now);
+
+    if (entry.state === 'closed') {
+      return true;
+    }
+
+    if (entry.state === 'open') {
+      return false;
+    }
+
+    if (entry.probeStartedAt && now - entry.probeStartedAt < PROBE_TIMEOUT) {
+      return false;
+    }
+
+    this.entries[url] = { ...entry, probeStartedAt: now };
+    return true;
+  }
+
+  recordSuccess(url: string): CircuitBreakerEntry {
+    delete this.entries[url];
+    return { state: 'closed', consecutiveFailures: 0 };
+  }
+
+  recordFailure(url: string, error: string, now: number = Date.now()): CircuitBreakerEntry {
+    const entry = this.getEntry(url, now);
+    const consecutiveFailures = entry.consecutiveFailures + 1;
+
+    let updated: CircuitBreakerEntry;
+    if (entry.state === 'open') {
+      // Late failure of a request sent before the circuit opened
+      updated = { ...entry, consecutiveFailures, lastError: error };
+    } else if (entry.state === 'half-open' || consecutiveFailures >= FAILURE_THRESHOLD) {
+      updated = { state: 'open', consecutiveFailures, openedAt: now, lastError: error };
+    } else {
+      updated = { state: 'closed', consecutiveFailures, lastError: error };
+    }
+
+    this.entries[url] = updated;
+    return updated;
+  }
+
+  toJSON(): CircuitBreakerStateMap {
+    return this.entries;
+  }
+}
+
+/**
+ * Durable Object holding the circuit breaker table of one chain
+ * One instance per chain keeps the state consistent across isolates and colos
+ */
+export class CircuitBreakerDurableObject implements DurableObject {
+  private static readonly STORAGE_KEY = 'entries';
+
+  private state: DurableObjectState;
+  private table: CircuitBreakerTable | null = null;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const table = await this.getTable();
+    const action = new URL(request.url).pathname;
+    const body = request.method === 'POST'
+      ? await request.json() as { url: string; error?: string }
+      : null;
+    const now = Date.now();
+
+    switch (action) {
+      case '/states':
+        return this.json(table.getEntries(now));
+
+      case '/acquire': {
+        if (!body?.url) break;
+        const allowed = table.tryAcquire(body.url, now);
+        await this.persist(table);
+        return this.json({ allowed, entry: table.getEntry(body.url, now) });
+      }
+
+      case '/success': {
+        if (!body?.url) break;
+        const entry = table.recordSuccess(body.url);
+        await this.persist(table);
+        return this.json(entry);
+      }
+
+      case '/failure': {
+        if (!body?.url) break;
+        const entry = table.recordFailure(body.url, body.error || 'Unknown error', now);
+        await this.persist(table);
+        return this.json(entry);
+      }
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async getTable(): Promise<CircuitBreakerTable> {
+    if (!this.table) {
+      const stored = await this.state.storage.get<CircuitBreakerStateMap>(CircuitBreakerDurableObject.STORAGE_KEY);
+      this.table = new CircuitBreakerTable(stored || {});
+    }
+    return this.table;
+  }
+
+  private async persist(table: CircuitBreakerTable): Promise<void> {
+    await this.state.storage.put(CircuitBreakerDurableObject.STORAGE_KEY, table.toJSON());
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Circuit breaker used on the request path
+ * Talks to the CIRCUIT_BREAKER Durable Object when bound, otherwise keeps state per isolate
+ */
+export class CircuitBreaker {
+  // Per-isolate tables, used when no Durable Object is bound or it can't be reached
+  private static localTables: Map<string, CircuitBreakerTable> = new Map();
+  // Short-lived copies of Durable Object state so healthy traffic doesn't pay a round trip
+  private static snapshots: Map<string, { entries: CircuitBreakerStateMap; fetchedAt: number }> = new Map();
+
+  private env: Env;
+  private logger: Logger;
+
+  constructor(env: Env, logger: Logger) {
+    this.env = env;
+    this.logger = logger;
+  }
+
+  /**
+   * Get circuit breaker entries for all tracked endpoints of a chain
+   */
+  async getStates(chainId: number | string): Promise<CircuitBreakerStateMap> {
+    const key = String(chainId);
+    const snapshot = CircuitBreaker.snapshots.get(key);
+    if (snapshot && Date.now() - snapshot.fetchedAt < STATE_CACHE_TTL) {
+      return snapshot.entries;
+    }
+
+    const entries = await this.send<CircuitBreakerStateMap>(chainId, '/states')
+      ?? this.getLocalTable(chainId).getEntries();
+    CircuitBreaker.snapshots.set(key, { entries: { ...entries }, fetchedAt: Date.now() });
+    return entries;
+  }
+
+  /**
+   * Get the URLs of endpoints whose circuit is open
+   */
+  async getOpenURLs(chainId: number | string): Promise<string[]> {
+    const entries = await this.getStates(chainId);
+    return Object.keys(entries).filter(url => entries[url].state === 'open');
+  }
+
+  /**
+   * Check whether a request may go to an endpoint
+   * Closed circuits answer from the snapshot; half-open ones compete for the trial request
+   */
+  async allowRequest(chainId: number | string, url: string): Promise<boolean> {
+    const entry = (await this.getStates(chainId))[url];
+    if (!entry || entry.state === 'closed') {
+      return true;
+    }
+
+    const result = await this.send<{ allowed: boolean; entry: CircuitBreakerEntry }>(chainId, '/acquire', { url });
+    if (result) {
+      this.updateSnapshot(chainId, url, result.entry);
+      return result.allowed;
+    }
+
+    return this.getLocalTable(chainId).tryAcquire(url);
+  }
+
+  /**
+   * Record a successful upstream call
+   */
+  async recordSuccess(chainId: number | string, url: string): Promise<void> {
+    const entry = (await this.getStates(chainId))[url];
+    if (!entry) {
+      return;
+    }
+
+    const updated = await this.send<CircuitBreakerEntry>(chainId, '/success', { url })
+      ?? this.getLocalTable(chainId).recordSuccess(url);
+
+    if (entry.state !== 'closed') {
+      this.logger.info('Circuit closed', { chainId, rpcUrl: url });
+    }
+    this.updateSnapshot(chainId, url, updated);
+  }
+
+  /**
+   * Record a failed upstream call (network error, timeout, 5xx or 429)
+   */
+  async recordFailure(chainId: number | string, url: string, error: string): Promise<void> {
+    const previous = (await this.getStates(chainId))[url];
+    const updated = await this.send<CircuitBreakerEntry>(chainId, '/failure', { url, error })
+      ?? this.getLocalTable(chainId).recordFailure(url, error);
+
+    if (updated.state === 'open' && previous?.state !== 'open') {
+      this.logger.warn('Circuit opened', {
+        chainId,
+        rpcUrl: url,
+        consecutiveFailures: updated.consecutiveFailures,
+        error
+      });
+    }
+    this.updateSnapshot(chainId, url, updated);
+  }
+
+  /**
+   * Call the chain's Durable Object; returns null when it is not bound or unreachable
+   */
+  private async send<T>(chainId: number | string, action: string, body?: unknown): Promise<T | null> {
+    const namespace = this.env.CIRCUIT_BREAKER;
+    if (!namespace) {
+      return null;
+    }
+
+    try {
+      const stub = namespace.get(namespace.idFromName(`chain:${chainId}`));
+      const response = await stub.fetch(`https://circuit-breaker${action}`, body === undefined
+        ? { method: 'GET' }
+        : { method: 'POST', body: JSON.stringify(body) });
+
+      if (!response.ok) {
+        throw new Error(`Circuit breaker responded with status ${response.status}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      this.logger.warn('Circuit breaker Durable Object unavailable, using isolate state', {
+        chainId,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private getLocalTable(chainId: number | string): CircuitBreakerTable {
+    const key = String(chainId);
+    let table = CircuitBreaker.localTables.get(key);
+    if (!table) {
+      table = new CircuitBreakerTable();
+      CircuitBreaker.localTables.set(key, table);
+    }
+    return table;
+  }
+
+  private updateSnapshot(chainId: number | string, url: string, entry: CircuitBreakerEntry): void {
+    const snapshot = CircuitBreaker.snapshots.get(String(chainId));
+    if (!snapshot) {
+      return;
+    }
+
+    if (entry.state === 'closed' && entry.consecutiveFailures === 0) {
+      delete snapshot.entries[url];
+    } else {
+      snapshot.entries[url] = entry;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigService } from './config_service';
+import { DEFAULT_RPC_CONFIG } from '../config/default_config';
+import { createEnv } from '../testing/fakes';
+
+const KEY = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+
+const legacyConfig = JSON.stringify({
+  ...DEFAULT_RPC_CONFIG,
+  chains: {
+    1: {
+      chainId: 1,
+      name: 'Test',
+      symbol: 'ETH',
+      rpcs: [{ url: 'https://rpc.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true, apiKey: 'inline' }]
+    }
+  }
+});
+
+describe('ConfigService inline secrets', () => {
+  it('reads a config with plain-text secrets without rewriting it', async () => {
+    const env = createEnv({ CONFIG_ENCRYPTION_KEY: KEY });
+    await env.RPC_CONFIG.put('rpc_config', legacyConfig);
+
+    const config = await new ConfigService(env).getConfig();
+
+    expect(config.chains[1].rpcs[0].apiKey).toBe('inline');
+    expect(await env.RPC_CONFIG.get('rpc_config')).toBe(legacyConfig);
+  });
+
+  it('encrypts plain-text secrets on request', async () => {
+    const env = createEnv({ CONFIG_ENCRYPTION_KEY: KEY });
+    await env.RPC_CONFIG.put('rpc_config', legacyConfig);
+    const service = new ConfigService(env);
+
+    expect(await service.encryptInlineSecrets()).toBe(true);
+    expect((await service.getConfig()).chains[1].rpcs[0].apiKey).toMatch(/^enc:v1:/);
+    // Nothing is left to encrypt
+    expect(await service.encryptInlineSecrets()).toBe(false);
+  });
+
+  it('refuses to migrate without a master key', async () => {
+    const env = createEnv();
+    await env.RPC_CONFIG.put('rpc_config', legacyConfig);
+
+    await expect(new ConfigService(env).encryptInlineSecrets()).rejects.toThrow('CONFIG_ENCRYPTION_KEY is not set');
+    expect(await env.RPC_CONFIG.get('rpc_config')).toBe(legacyConfig);
+  });
+});
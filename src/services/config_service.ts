@@ -1,13 +1,17 @@
 import { Env, RPCConfig, ChainConfig, RPCEndpoint } from '../types';
 import { DEFAULT_RPC_CONFIG } from '../config/default_config';
 import { errorHandler, SystemError, ConfigurationError } from '../utils/error_handler';
+import { hasInlineSecrets } from '../utils/secrets';
+import { SecretStore } from './secret_store';
 
 export class ConfigService {
   private env: Env;
+  private secrets: SecretStore;
   private readonly CONFIG_KEY = 'rpc_config';
 
   constructor(env: Env) {
     this.env = env;
+    this.secrets = new SecretStore(env);
   }
 
   /**
@@ -24,7 +28,7 @@ export class ConfigService {
         return DEFAULT_RPC_CONFIG;
       }
 
-      return JSON.parse(configData) as RPCConfig;
+      return this.normalizeConfig(JSON.parse(configData) as RPCConfig);
     } catch (error) {
       console.error('Error loading RPC config:', error);
       const configError = new ConfigurationError('Failed to load RPC configuration');
@@ -33,12 +37,65 @@ export class ConfigService {
     }
   }
 
+  /**
+   * Migrate legacy fields of a stored configuration
+   * Older configs used `isActive` as the admin flag, which health checks also overwrote
+   */
+  private normalizeConfig(config: RPCConfig): RPCConfig {
+    for (const chain of Object.values(config.chains || {})) {
+      for (const rpc of chain?.rpcs || []) {
+        if (typeof rpc.enabled !== 'boolean') {
+          rpc.enabled = rpc.isActive !== false;
+        }
+        delete rpc.isActive;
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Whether inline provider secrets are encrypted when the config is saved
+   */
+  canEncryptSecrets(): boolean {
+    return this.secrets.canEncrypt();
+  }
+
+  /**
+   * Rewrite a stored config whose provider secrets are still plain text
+   * Configs saved before the master key existed keep them until the next save or this migration.
+   * Returns whether the config was rewritten.
+   */
+  async encryptInlineSecrets(): Promise<boolean> {
+    if (!this.secrets.canEncrypt()) {
+      throw new ConfigurationError('CONFIG_ENCRYPTION_KEY is not set');
+    }
+
+    const config = await this.loadStoredConfig();
+    if (!config || !hasInlineSecrets(config)) {
+      return false;
+    }
+
+    await this.saveConfig(config);
+    return true;
+  }
+
+  /**
+   * Read the stored configuration without falling back to the default
+   */
+  private async loadStoredConfig(): Promise<RPCConfig | null> {
+    const configData = await this.env.RPC_CONFIG.get(this.CONFIG_KEY);
+    return configData ? this.normalizeConfig(JSON.parse(configData) as RPCConfig) : null;
+  }
+
   /**
    * Save RPC configuration to KV storage
+   * Inline provider secrets are encrypted, and redacted secrets keep their stored value
    */
   async saveConfig(config: RPCConfig): Promise<void> {
+    const protectedConfig = await this.secrets.protectConfig(config, () => this.loadStoredConfig());
+
     try {
-      await this.env.RPC_CONFIG.put(this.CONFIG_KEY, JSON.stringify(config));
+      await this.env.RPC_CONFIG.put(this.CONFIG_KEY, JSON.stringify(protectedConfig));
     } catch (error) {
       console.error('Error saving RPC config:', error);
       const configError = new ConfigurationError('Failed to save configuration');
@@ -106,9 +163,9 @@ export class ConfigService {
   }
 
   /**
-   * Update RPC endpoint status
+   * Enable or disable an RPC endpoint (operator decision, independent of health)
    */
-  async updateRPCStatus(chainId: number | string, rpcUrl: string, isActive: boolean): Promise<void> {
+  async setRPCEnabled(chainId: number | string, rpcUrl: string, enabled: boolean): Promise<void> {
     const config = await this.getConfig();
     const chainConfig = config.chains[chainId];
     
@@ -121,7 +178,7 @@ export class ConfigService {
       throw new ConfigurationError(`RPC endpoint ${rpcUrl} not found in chain ${chainId}`);
     }
 
-    rpc.isActive = isActive;
+    rpc.enabled = enabled;
     await this.saveConfig(config);
   }
 
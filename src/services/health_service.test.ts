@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HealthService } from './health_service';
+import { ChainConfig, HealthCheckResult, RPCEndpoint } from '../types';
+import { createEnv, jsonResponse } from '../testing/fakes';
+
+function result(url: string, height: number | undefined, isHealthy = true): HealthCheckResult {
+  return { url, chainId: 1, isHealthy, responseTime: 10, lastChecked: 0, height };
+}
+
+describe('HealthService.applyBlockLag', () => {
+  const chain: ChainConfig = { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [], maxBlockLag: 5 };
+
+  it('measures lag from the highest healthy height and flags endpoints past maxBlockLag', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const results = [result('a', 100), result('b', 95), result('c', 94), result('d', undefined)];
+
+    new HealthService(createEnv()).applyBlockLag(chain, results);
+
+    expect(results.map(r => [r.lag, r.degraded])).toEqual([[0, false], [5, false], [6, true], [undefined, undefined]]);
+  });
+
+  it('ignores heights reported by unhealthy endpoints when finding the head', () => {
+    const results = [result('a', 100), result('b', 500, false)];
+
+    new HealthService(createEnv()).applyBlockLag(chain, results);
+
+    expect(results[0].lag).toBe(0);
+    expect(results[1].lag).toBe(0);
+  });
+
+  it('includes known heights of endpoints outside the check', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const results = [result('a', 100)];
+
+    new HealthService(createEnv()).applyBlockLag(chain, results, [110]);
+
+    expect(results[0]).toMatchObject({ lag: 10, degraded: true });
+  });
+});
+
+describe('HealthService chain identity', () => {
+  const rpc: RPCEndpoint = { url: 'https://identity.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true };
+  const chain: ChainConfig = { chainId: 137, name: 'Polygon', symbol: 'POL', rpcs: [rpc] };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Upstream answering each probe method with a fixed result
+  function upstream(results: Record<string, unknown>) {
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      const { id, method } = JSON.parse(init.body as string);
+      return jsonResponse({ jsonrpc: '2.0', id, result: results[method] });
+    });
+  }
+
+  it('records the height of an endpoint serving the chain', async () => {
+    upstream({ eth_chainId: '0x89', eth_blockNumber: '0x10' });
+
+    const result = await new HealthService(createEnv()).checkRPCHealth(137, rpc, chain);
+
+    expect(result).toMatchObject({ isHealthy: true, height: 16 });
+    expect(result.quarantined).toBeUndefined();
+  });
+
+  it('quarantines an endpoint serving another chain', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstream({ eth_chainId: '0x1', eth_blockNumber: '0x10' });
+
+    const result = await new HealthService(createEnv()).checkRPCHealth(137, rpc, chain);
+
+    expect(result).toMatchObject({ isHealthy: false, quarantined: true });
+    expect(result.error).toContain('expected 137');
+  });
+
+  it('checks the genesis hash of Solana endpoints with a separate probe', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstream({ getHealth: 'ok', getSlot: 500, getGenesisHash: 'other' });
+    const solana: ChainConfig = { chainId: 'sol-test', name: 'Solana', symbol: 'SOL', rpcs: [rpc], genesisHash: 'genesis' };
+
+    const result = await new HealthService(createEnv()).checkRPCHealth('sol-test', rpc, solana);
+
+    expect(result).toMatchObject({ isHealthy: false, quarantined: true });
+  });
+
+  it('verifies an endpoint before it is added', async () => {
+    const health = new HealthService(createEnv());
+
+    upstream({ eth_chainId: '0x89' });
+    expect(await health.verifyChainIdentity(rpc, chain)).toBeNull();
+
+    upstream({ eth_chainId: '0xa' });
+    expect(await health.verifyChainIdentity(rpc, chain)).toContain('returned "0xa"');
+  });
+});
@@ -1,75 +1,109 @@
-import { Env, HealthCheckResult, RPCEndpoint, ChainConfig, HealthSummary } from '../types';
+import {
+  Env,
+  HealthCheckResult,
+  RPCEndpoint,
+  ChainConfig,
+  HealthSummary,
+  RPCHealthState,
+  RPCHealthStateMap
+} from '../types';
 import { ConfigService } from './config_service';
+import { UpstreamClient } from './upstream_client';
+import { SecretStore } from './secret_store';
+import { Logger, LogLevel } from '../utils/logger';
+import {
+  getHealthProbe,
+  getMaxBlockLag,
+  getRPCHealthKey,
+  normalizeHeight,
+  getChainIdentity,
+  getChainIdentityMismatch
+} from '../utils/chain';
+import { APP_CONSTANTS } from '../constants';
 
 export class HealthService {
+  private static readonly HEALTH_STATE_KEY = 'rpc_health_state';
+
+  // Per-isolate copy of the health state so the request path doesn't hit KV every time
+  private static stateCache: { states: RPCHealthStateMap; fetchedAt: number } | null = null;
+
   private env: Env;
   private configService: ConfigService;
+  private upstreamClient: UpstreamClient;
 
   constructor(env: Env) {
     this.env = env;
     this.configService = new ConfigService(env);
+    this.upstreamClient = new UpstreamClient(
+      Logger.getInstance(LogLevel.INFO, { service: 'health' }),
+      new SecretStore(env)
+    );
   }
 
   /**
    * Check health of a specific RPC endpoint
+   * Sends the chain family's liveness and height probes (e.g. getHealth + getSlot on Solana)
+   * plus the chain identity probe; an endpoint serving another chain is quarantined
    */
-  async checkRPCHealth(chainId: number | string, rpcEndpoint: RPCEndpoint): Promise<HealthCheckResult> {
+  async checkRPCHealth(
+    chainId: number | string,
+    rpcEndpoint: RPCEndpoint,
+    chainConfig: ChainConfig
+  ): Promise<HealthCheckResult> {
     const startTime = Date.now();
+    const probe = getHealthProbe(chainConfig);
+    const identity = getChainIdentity(chainConfig);
 
     try {
-      // Create a simple eth_blockNumber request to test the RPC
-      const testRequest = {
-        jsonrpc: '2.0',
-        method: 'eth_blockNumber',
-        params: [],
-        id: 1
-      };
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), rpcEndpoint.timeout);
-
-      const response = await fetch(rpcEndpoint.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'RPC-EVM-Proxy-Health/1.0'
-        },
-        body: JSON.stringify(testRequest),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
+      // EVM's default liveness probe is eth_chainId, which already answers the identity question
+      const [liveness, height, identityProbe] = await Promise.all([
+        this.sendProbe(rpcEndpoint, probe.method, probe.params),
+        this.sendProbe(rpcEndpoint, probe.heightMethod, probe.heightParams),
+        identity && identity.method !== probe.method
+          ? this.sendProbe(rpcEndpoint, identity.method)
+          : Promise.resolve(null)
+      ]);
       const responseTime = Date.now() - startTime;
 
-      if (!response.ok) {
+      const identityResult = identityProbe ?? liveness;
+      const mismatch = identity && !identityResult.error
+        ? getChainIdentityMismatch(identity, identityResult.result)
+        : null;
+      if (mismatch) {
+        console.error(`RPC ${rpcEndpoint.url} on chain ${chainId} quarantined: ${mismatch}`);
         return {
           url: rpcEndpoint.url,
           chainId,
           isHealthy: false,
+          quarantined: true,
           responseTime,
           lastChecked: Date.now(),
-          error: `HTTP ${response.status}: ${response.statusText}`
+          error: mismatch
         };
       }
 
-      const result = await response.json() as any;
-
-      // Check if response contains valid block number
-      if (result.error) {
+      const probeError = liveness.error || height.error || identityProbe?.error;
+      if (probeError) {
         return {
           url: rpcEndpoint.url,
           chainId,
           isHealthy: false,
           responseTime,
           lastChecked: Date.now(),
-          error: `RPC Error: ${result.error.message}`
+          error: probeError
         };
       }
 
-      // Parse block number
-      let blockNumber: number | undefined;
-      if (result.result && typeof result.result === 'string') {
-        blockNumber = parseInt(result.result, 16);
+      const normalizedHeight = normalizeHeight(height.result);
+      if (normalizedHeight === undefined) {
+        return {
+          url: rpcEndpoint.url,
+          chainId,
+          isHealthy: false,
+          responseTime,
+          lastChecked: Date.now(),
+          error: `Invalid ${probe.heightMethod} result: ${JSON.stringify(height.result)}`
+        };
       }
 
       return {
@@ -78,7 +112,7 @@ export class HealthService {
         isHealthy: true,
         responseTime,
         lastChecked: Date.now(),
-        blockNumber
+        height: normalizedHeight
       };
 
     } catch (error) {
@@ -94,6 +128,56 @@ export class HealthService {
     }
   }
 
+  /**
+   * Check that an endpoint serves the configured chain before it is added
+   * Returns why the endpoint can't be shown to serve the chain, or null when it does
+   * (or when the chain has no identity to compare against)
+   */
+  async verifyChainIdentity(rpcEndpoint: RPCEndpoint, chainConfig: ChainConfig): Promise<string | null> {
+    const identity = getChainIdentity(chainConfig);
+    if (!identity) {
+      return null;
+    }
+
+    try {
+      const probe = await this.sendProbe(rpcEndpoint, identity.method);
+      return probe.error
+        ? `Chain identity check failed: ${probe.error}`
+        : getChainIdentityMismatch(identity, probe.result);
+    } catch (error) {
+      return `Chain identity check failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
+  /**
+   * Send a single probe request and extract its result or a readable error
+   */
+  private async sendProbe(
+    rpcEndpoint: RPCEndpoint,
+    method: string,
+    params: any[] = []
+  ): Promise<{ result?: any; error?: string }> {
+    const result = await this.upstreamClient.call(
+      rpcEndpoint,
+      { jsonrpc: '2.0', method, params, id: 1 },
+      { headers: { 'User-Agent': 'RPC-EVM-Proxy-Health/1.0' } }
+    );
+
+    if (!result.ok) {
+      return { error: `HTTP ${result.status}` };
+    }
+
+    if (!result.json || typeof result.json !== 'object') {
+      return { error: `Invalid ${method} response` };
+    }
+
+    if (result.json.error) {
+      return { error: `RPC Error (${method}): ${result.json.error.message}` };
+    }
+
+    return { result: result.json.result };
+  }
+
   /**
    * Perform health check on all RPCs for a specific chain
    */
@@ -104,10 +188,12 @@ export class HealthService {
     }
 
     const healthChecks = chainConfig.rpcs.map(rpc =>
-      this.checkRPCHealth(chainId, rpc)
+      this.checkRPCHealth(chainId, rpc, chainConfig)
     );
 
-    return Promise.all(healthChecks);
+    const results = await Promise.all(healthChecks);
+    this.applyBlockLag(chainConfig, results);
+    return results;
   }
 
   /**
@@ -126,15 +212,52 @@ export class HealthService {
 
       // Add individual RPC checks instead of chain-level checks
       for (const rpc of chainConfig.rpcs) {
-        allHealthChecks.push(this.checkRPCHealth(chainId, rpc));
+        allHealthChecks.push(this.checkRPCHealth(chainId, rpc, chainConfig));
       }
     }
 
     // Execute all checks in parallel with concurrency control
     const results = await this.executeWithConcurrency(allHealthChecks, 10);
+
+    for (const [chainIdStr, chainConfig] of Object.entries(config.chains)) {
+      this.applyBlockLag(chainConfig, results.filter(r => String(r.chainId) === chainIdStr));
+    }
+
     return results;
   }
 
+  /**
+   * Compute each endpoint's lag behind the chain head and flag endpoints past maxBlockLag
+   * The head is the highest height reported by a healthy probe (plus any known heights,
+   * e.g. stored state of endpoints that weren't part of this check)
+   */
+  applyBlockLag(chainConfig: ChainConfig, results: HealthCheckResult[], knownHeights: number[] = []): void {
+    const heights = results
+      .filter(r => r.isHealthy && r.height !== undefined)
+      .map(r => r.height as number)
+      .concat(knownHeights);
+
+    if (heights.length === 0) {
+      return;
+    }
+
+    const head = Math.max(...heights);
+    const maxBlockLag = getMaxBlockLag(chainConfig);
+
+    for (const result of results) {
+      if (result.height === undefined) {
+        continue;
+      }
+
+      result.lag = Math.max(0, head - result.height);
+      result.degraded = result.lag > maxBlockLag;
+
+      if (result.degraded) {
+        console.warn(`RPC ${result.url} on chain ${result.chainId} is ${result.lag} blocks behind head ${head}`);
+      }
+    }
+  }
+
   /**
    * Execute promises with concurrency limit
    * Prevents overwhelming the worker with too many concurrent requests
@@ -176,7 +299,7 @@ export class HealthService {
     const healthData = {
       timestamp: Date.now(),
       results: results.reduce((acc, result) => {
-        const key = `${result.chainId}_${result.url}`;
+        const key = getRPCHealthKey(result.chainId, result.url);
         acc[key] = result;
         return acc;
       }, {} as Record<string, HealthCheckResult>)
@@ -204,20 +327,59 @@ export class HealthService {
   }
 
   /**
-   * Update RPC endpoint status based on health check results
+   * Update runtime health state from health check results
+   * Only RPC_HEALTH is written; the operator `enabled` flag in the config is left alone
    */
-  async updateRPCStatus(results: HealthCheckResult[]): Promise<void> {
-    for (const result of results) {
-      try {
-        // Update RPC status in configuration
-        await this.configService.updateRPCStatus(
-          result.chainId,
-          result.url,
-          result.isHealthy
-        );
-      } catch (error) {
-        console.warn(`Failed to update RPC status for ${result.url}:`, error);
+  async updateHealthState(results: HealthCheckResult[]): Promise<void> {
+    try {
+      const states = await this.loadHealthStates();
+
+      for (const result of results) {
+        const state: RPCHealthState = {
+          isHealthy: result.isHealthy,
+          lastChecked: result.lastChecked,
+          responseTime: result.responseTime,
+          height: result.height,
+          lag: result.lag,
+          degraded: result.degraded,
+          quarantined: result.quarantined,
+          error: result.error
+        };
+        states[getRPCHealthKey(result.chainId, result.url)] = state;
       }
+
+      await this.env.RPC_HEALTH.put(HealthService.HEALTH_STATE_KEY, JSON.stringify(states));
+      HealthService.stateCache = { states, fetchedAt: Date.now() };
+    } catch (error) {
+      console.warn('Failed to update RPC health state:', error);
+    }
+  }
+
+  /**
+   * Get runtime health state for all endpoints
+   * Served from a short-lived per-isolate cache on the request path
+   */
+  async getHealthStates(): Promise<RPCHealthStateMap> {
+    const cached = HealthService.stateCache;
+    if (cached && Date.now() - cached.fetchedAt < APP_CONSTANTS.CACHE.HEALTH_STATE_TTL * 1000) {
+      return cached.states;
+    }
+
+    const states = await this.loadHealthStates();
+    HealthService.stateCache = { states, fetchedAt: Date.now() };
+    return states;
+  }
+
+  /**
+   * Read health state from KV storage
+   */
+  private async loadHealthStates(): Promise<RPCHealthStateMap> {
+    try {
+      const data = await this.env.RPC_HEALTH.get(HealthService.HEALTH_STATE_KEY);
+      return data ? JSON.parse(data) as RPCHealthStateMap : {};
+    } catch (error) {
+      console.error('Error loading RPC health state:', error);
+      return {};
     }
   }
 
@@ -253,18 +415,31 @@ export class HealthService {
       const chainId = isNaN(parsed) ? chainIdStr : parsed;
       const chainHealthResults = chainResults[chainIdStr] || [];
 
-      const healthyCount = chainHealthResults.filter(r => r.isHealthy).length;
+      // Degraded endpoints answer but trail the head, so they don't count as healthy
+      const healthyCount = chainHealthResults.filter(r => r.isHealthy && !r.degraded).length;
+      const degradedCount = chainHealthResults.filter(r => r.isHealthy && r.degraded).length;
+      const quarantinedCount = chainHealthResults.filter(r => r.quarantined).length;
       const totalCount = chainHealthResults.length;
       const avgResponseTime = totalCount > 0
         ? chainHealthResults.reduce((sum, r) => sum + r.responseTime, 0) / totalCount
         : 0;
+      const heights = chainHealthResults
+        .filter(r => r.height !== undefined)
+        .map(r => r.height as number);
+      const lags = chainHealthResults
+        .filter(r => r.lag !== undefined)
+        .map(r => r.lag as number);
 
       summary.chains[chainIdStr] = {
         chainId,
         name: chainConfig.name,
         totalRPCs: totalCount,
         healthyRPCs: healthyCount,
-        avgResponseTime: Math.round(avgResponseTime)
+        degradedRPCs: degradedCount,
+        quarantinedRPCs: quarantinedCount,
+        avgResponseTime: Math.round(avgResponseTime),
+        headHeight: heights.length > 0 ? Math.max(...heights) : undefined,
+        maxLag: lags.length > 0 ? Math.max(...lags) : undefined
       };
 
       summary.totalRPCs += totalCount;
@@ -288,14 +463,18 @@ export class HealthService {
 
       const results = await this.checkAllHealth();
       await this.saveHealthResults(results);
-      await this.updateRPCStatus(results);
+      await this.updateHealthState(results);
 
       console.log(`Health check completed. Checked ${results.length} RPCs.`);
 
       // Log summary
-      const healthyCount = results.filter(r => r.isHealthy).length;
-      const unhealthyCount = results.length - healthyCount;
-      console.log(`Healthy: ${healthyCount}, Unhealthy: ${unhealthyCount}`);
+      const healthyCount = results.filter(r => r.isHealthy && !r.degraded).length;
+      const degradedCount = results.filter(r => r.isHealthy && r.degraded).length;
+      const quarantinedCount = results.filter(r => r.quarantined).length;
+      const unhealthyCount = results.length - healthyCount - degradedCount;
+      console.log(
+        `Healthy: ${healthyCount}, Degraded: ${degradedCount}, Unhealthy: ${unhealthyCount}, Quarantined: ${quarantinedCount}`
+      );
 
     } catch (error) {
       console.error('Periodic health check failed:', error);
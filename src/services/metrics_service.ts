@@ -1,4 +1,5 @@
 import { Logger } from '../utils/logger';
+import { KeyedCounters } from '../utils/keyed_counters';
 
 export interface MetricData {
   name: string;
@@ -37,12 +38,46 @@ export interface UsageMetric {
   ip?: string;
 }
 
+// Hedged request counters for one chain/method
+export interface HedgeCounts {
+  sent: number; // Hedges sent because the primary was slow
+  won: number; // Hedges that answered first
+}
+
+// Request coalescing counters for one chain/method
+export interface CoalesceCounts {
+  upstream: number; // Requests that made the upstream call
+  coalesced: number; // Requests that shared an in-flight call instead
+}
+
+// Response cache counters for one chain/method
+export interface CacheCounts {
+  hits: number;
+  misses: number;
+  sets: number;
+  errors: number;
+  stale: number; // Stale entries served (upstream failure or background revalidation)
+  bytesSaved: number; // Bytes compression saved on KV writes
+  hitLatency: number; // Total milliseconds spent serving hits
+}
+
+// Response cache statistics for one chain/method, or in total
+export interface CacheStats extends Omit<CacheCounts, 'hitLatency'> {
+  hitRate: number; // hits / (hits + misses)
+  avgHitLatency: number; // Milliseconds per hit
+}
+
 export class MetricsService {
   private logger: Logger;
   private metrics: MetricData[] = [];
   private performanceMetrics: PerformanceMetric[] = [];
   private errorMetrics: ErrorMetric[] = [];
   private usageMetrics: UsageMetric[] = [];
+  private hedgeCounts = new KeyedCounters<HedgeCounts>(() => ({ sent: 0, won: 0 }));
+  private coalesceCounts = new KeyedCounters<CoalesceCounts>(() => ({ upstream: 0, coalesced: 0 }));
+  private cacheCounts = new KeyedCounters<CacheCounts>(
+    () => ({ hits: 0, misses: 0, sets: 0, errors: 0, stale: 0, bytesSaved: 0, hitLatency: 0 })
+  );
   private maxMetricsBuffer = 1000;
 
   constructor(logger: Logger) {
@@ -239,6 +274,114 @@ export class MetricsService {
     };
   }
 
+  /**
+   * Record a hedged request: 'sent' when the hedge goes out, 'won' when it answers first
+   */
+  recordHedge(chainId: number | string, method: string, outcome: keyof HedgeCounts): void {
+    this.hedgeCounts.get(chainId, method)[outcome]++;
+
+    this.logger.logAnalytics(`hedge_${outcome}`, { chainId, method });
+  }
+
+  /**
+   * Get hedged request counts, total and per chain/method
+   */
+  getHedgeStats(): {
+    totalSent: number;
+    totalWon: number;
+    byChain: Record<string, Record<string, HedgeCounts>>;
+  } {
+    const { total, byChain } = this.hedgeCounts.summarize();
+    return { totalSent: total.sent, totalWon: total.won, byChain };
+  }
+
+  /**
+   * Record a coalescable request: 'upstream' when it made the call, 'coalesced' when it shared one
+   */
+  recordCoalesce(chainId: number | string, method: string, outcome: keyof CoalesceCounts): void {
+    this.coalesceCounts.get(chainId, method)[outcome]++;
+
+    if (outcome === 'coalesced') {
+      this.logger.logAnalytics('request_coalesced', { chainId, method });
+    }
+  }
+
+  /**
+   * Get request coalescing counts, total and per chain/method
+   */
+  getCoalesceStats(): {
+    totalUpstream: number;
+    totalCoalesced: number;
+    byChain: Record<string, Record<string, CoalesceCounts>>;
+  } {
+    const { total, byChain } = this.coalesceCounts.summarize();
+    return { totalUpstream: total.upstream, totalCoalesced: total.coalesced, byChain };
+  }
+
+  /**
+   * Record a response cache operation for a chain/method
+   * Hits carry the time taken to serve them, sets the bytes compression saved
+   */
+  recordCacheEvent(
+    chainId: number | string,
+    method: string,
+    outcome: 'hit' | 'miss' | 'set' | 'error' | 'stale',
+    details: { latency?: number; bytesSaved?: number } = {}
+  ): void {
+    const counts = this.cacheCounts.get(chainId, method);
+
+    switch (outcome) {
+      case 'hit':
+        counts.hits++;
+        counts.hitLatency += details.latency || 0;
+        break;
+      case 'miss':
+        counts.misses++;
+        break;
+      case 'set':
+        counts.sets++;
+        counts.bytesSaved += details.bytesSaved || 0;
+        break;
+      case 'error':
+        counts.errors++;
+        break;
+      case 'stale':
+        counts.stale++;
+        break;
+    }
+  }
+
+  /**
+   * Get response cache statistics, total and per chain/method
+   */
+  getCacheStats(): {
+    total: CacheStats;
+    byChain: Record<string, Record<string, CacheStats>>;
+  } {
+    const { total, byChain } = this.cacheCounts.summarize();
+
+    const stats: Record<string, Record<string, CacheStats>> = {};
+    for (const [chainKey, methods] of Object.entries(byChain)) {
+      stats[chainKey] = {};
+      for (const [method, counts] of Object.entries(methods)) {
+        stats[chainKey][method] = this.toCacheStats(counts);
+      }
+    }
+
+    return { total: this.toCacheStats(total), byChain: stats };
+  }
+
+  private toCacheStats(counts: CacheCounts): CacheStats {
+    const { hitLatency, ...rest } = counts;
+    const lookups = counts.hits + counts.misses;
+
+    return {
+      ...rest,
+      hitRate: lookups > 0 ? counts.hits / lookups : 0,
+      avgHitLatency: counts.hits > 0 ? hitLatency / counts.hits : 0
+    };
+  }
+
   /**
    * Get usage statistics
    */
@@ -287,6 +430,9 @@ export class MetricsService {
     performance: PerformanceMetric[];
     errors: ErrorMetric[];
     usage: UsageMetric[];
+    hedges: ReturnType<MetricsService['getHedgeStats']>;
+    coalescing: ReturnType<MetricsService['getCoalesceStats']>;
+    cache: ReturnType<MetricsService['getCacheStats']>;
     timestamp: number;
   } {
     return {
@@ -294,6 +440,9 @@ export class MetricsService {
       performance: [...this.performanceMetrics],
       errors: [...this.errorMetrics],
       usage: [...this.usageMetrics],
+      hedges: this.getHedgeStats(),
+      coalescing: this.getCoalesceStats(),
+      cache: this.getCacheStats(),
       timestamp: Date.now()
     };
   }
@@ -306,6 +455,9 @@ export class MetricsService {
     this.performanceMetrics = [];
     this.errorMetrics = [];
     this.usageMetrics = [];
+    this.hedgeCounts.clear();
+    this.coalesceCounts.clear();
+    this.cacheCounts.clear();
 
     this.logger.info('All metrics cleared');
   }
@@ -0,0 +1,563 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ProxyService } from './proxy_service';
+import { RPCSelector } from './rpc_selector';
+import { SessionTracker } from './session_tracker';
+import { DEFAULT_RPC_CONFIG } from '../config/default_config';
+import { APP_CONSTANTS } from '../constants';
+import { ChainConfig, Env, RPCEndpoint } from '../types';
+import { createEnv, createKV, createSolanaTransaction, jsonResponse } from '../testing/fakes';
+import { Logger, LogLevel } from '../utils/logger';
+
+type UpstreamHandler = (url: string, payload: any) => Response | Promise<Response>;
+
+let nextHost = 0;
+
+/**
+ * Chain 1 with `count` endpoints on hosts no other test uses, so per-isolate
+ * circuit breaker and latency state can't leak between tests
+ */
+function createChain(count: number, overrides: Partial<ChainConfig> = {}): ChainConfig {
+  const rpcs: RPCEndpoint[] = Array.from({ length: count }, (_, i) => ({
+    url: `https://rpc${++nextHost}.test`,
+    name: `rpc-${i}`,
+    priority: count - i,
+    timeout: 1000,
+    maxRetries: 0,
+    enabled: true
+  }));
+  return { chainId: 1, name: 'Test', symbol: 'ETH', rpcs, ...overrides };
+}
+
+async function setup(chain: ChainConfig, handler: UpstreamHandler, envOverrides: Partial<Env> = {}) {
+  const env: Env = createEnv(envOverrides);
+  await env.RPC_CONFIG.put('rpc_config', JSON.stringify({ ...DEFAULT_RPC_CONFIG, chains: { [chain.chainId]: chain } }));
+
+  const calls: { url: string; payload: any }[] = [];
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    calls.push({ url, payload });
+    return handler(url, payload);
+  });
+
+  const proxy = new ProxyService(env, env.RPC_CACHE);
+  const send = (body: unknown, headers: Record<string, string> = {}, ctx?: ExecutionContext) => proxy.handleRequest(
+    new Request(`https://proxy.test/${chain.chainId}`, { method: 'POST', body: JSON.stringify(body), headers }),
+    env,
+    ctx
+  );
+  return { send, calls };
+}
+
+/**
+ * Upstream that answers a batch in reverse order, echoing each entry's method
+ */
+const reversingUpstream: UpstreamHandler = (_url, payload) => Array.isArray(payload)
+  ? jsonResponse([...payload].reverse().map(entry => ({ jsonrpc: '2.0', id: entry.id, result: entry.method })))
+  : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: payload.method });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('ProxyService batch requests', () => {
+  it('answers in request order with the client ids, even when ids repeat', async () => {
+    const { send, calls } = await setup(createChain(1), reversingUpstream);
+
+    const response = await send([
+      { jsonrpc: '2.0', id: 7, method: 'eth_chainId', params: [] },
+      { jsonrpc: '2.0', id: 7, method: 'net_version', params: [] },
+      { jsonrpc: '2.0', id: 'a', method: 'eth_gasPrice', params: [] }
+    ]);
+
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 7, result: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 7, result: 'net_version' },
+      { jsonrpc: '2.0', id: 'a', result: 'eth_gasPrice' }
+    ]);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].payload.map((entry: any) => entry.id)).toEqual([0, 1, 2]);
+  });
+
+  it('answers invalid entries in place without forwarding them', async () => {
+    const { send, calls } = await setup(createChain(1), reversingUpstream);
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+      { foo: 'bar' },
+      { jsonrpc: '2.0', id: 3, method: 'net_version' }
+    ])).json() as any[];
+
+    expect(body.map(entry => entry.id)).toEqual([1, null, 3]);
+    expect(body[1].error.code).toBe(-32600);
+    expect(calls[0].payload).toHaveLength(2);
+  });
+
+  it('forwards notifications but leaves them out of the response', async () => {
+    const { send, calls } = await setup(createChain(1), reversingUpstream);
+
+    const body = await (await send([
+      { jsonrpc: '2.0', method: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 2, method: 'net_version' }
+    ])).json();
+
+    expect(body).toEqual([{ jsonrpc: '2.0', id: 2, result: 'net_version' }]);
+    expect(calls[0].payload).toHaveLength(2);
+  });
+
+  it('answers a batch of notifications only with no content', async () => {
+    const { send } = await setup(createChain(1), reversingUpstream);
+
+    const response = await send([{ jsonrpc: '2.0', method: 'eth_chainId' }]);
+
+    expect(response.status).toBe(204);
+    expect(await response.text()).toBe('');
+  });
+
+  it('moves a rate-limited batch to the next endpoint instead of splitting it', async () => {
+    // Selection is weighted random, so rate-limit whichever endpoint is tried first
+    let limited: string | undefined;
+    const { send, calls } = await setup(createChain(2), (url, payload) => {
+      limited = limited ?? url;
+      return url === limited
+        ? jsonResponse({ jsonrpc: '2.0', id: null, error: { code: 429, message: 'Too many requests' } }, 429)
+        : reversingUpstream(url, payload);
+    });
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 2, method: 'net_version' }
+    ])).json() as any[];
+
+    expect(body.map(entry => entry.result)).toEqual(['eth_chainId', 'net_version']);
+    expect(calls.map(call => Array.isArray(call.payload))).toEqual([true, true]);
+    expect(calls[1].url).not.toBe(calls[0].url);
+  });
+
+  it('splits the batch when the upstream rejects arrays as invalid requests', async () => {
+    const { send, calls } = await setup(createChain(1), (_url, payload) => Array.isArray(payload)
+      ? jsonResponse({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } })
+      : reversingUpstream(_url, payload));
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 2, method: 'net_version' }
+    ])).json();
+
+    expect(body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 2, result: 'net_version' }
+    ]);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('passes any other whole-batch error to every entry without splitting', async () => {
+    const { send, calls } = await setup(createChain(1), () =>
+      jsonResponse({ jsonrpc: '2.0', id: null, error: { code: -32005, message: 'Quota exceeded' } }));
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 2, method: 'net_version' }
+    ])).json() as any[];
+
+    expect(body.map(entry => [entry.id, entry.error.code])).toEqual([[1, -32005], [2, -32005]]);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('ProxyService hedging', () => {
+  /**
+   * Upstream where the first endpoint called answers after 50ms and any other one at once
+   */
+  const slowPrimary = (): UpstreamHandler => {
+    let primary: string | undefined;
+    return (url, payload) => {
+      primary = primary ?? url;
+      return url === primary
+        ? new Promise(resolve => setTimeout(() => resolve(jsonResponse({ jsonrpc: '2.0', id: payload.id, result: 'primary' })), 50))
+        : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: 'hedge' });
+    };
+  };
+
+  it('answers from the hedge when the primary is slow', async () => {
+    const { send, calls } = await setup(createChain(2, { hedging: { delay: 5 } }), slowPrimary());
+
+    const body = await (await send({ jsonrpc: '2.0', id: 1, method: 'eth_getBalance', params: ['0x0', 'latest'] })).json() as any;
+
+    expect(body.result).toBe('hedge');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('lets the primary finish when picking the hedge endpoint throws', async () => {
+    const { send, calls } = await setup(createChain(2, { hedging: { delay: 5 } }), slowPrimary());
+    vi.spyOn(RPCSelector, 'getFailoverRPC').mockImplementation(() => {
+      throw new Error('selector failure');
+    });
+
+    const body = await (await send({ jsonrpc: '2.0', id: 1, method: 'eth_getBalance', params: ['0x0', 'latest'] })).json() as any;
+
+    expect(body.result).toBe('primary');
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('ProxyService batched transactions', () => {
+  // Signed example transaction from EIP-155
+  const RAW_TX = '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+  const TX_HASH = '0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788';
+
+  const acceptingUpstream: UpstreamHandler = (url, payload) => Array.isArray(payload)
+    ? reversingUpstream(url, payload)
+    : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: payload.method === 'eth_sendRawTransaction' ? TX_HASH : payload.method });
+
+  it('broadcasts a raw transaction entry to the configured fanout', async () => {
+    const { send, calls } = await setup(createChain(2, { broadcast: { fanout: 2 } }), acceptingUpstream);
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 'tx', method: 'eth_sendRawTransaction', params: [RAW_TX] },
+      { jsonrpc: '2.0', id: 'read', method: 'eth_chainId' }
+    ])).json();
+
+    expect(body).toEqual([
+      { jsonrpc: '2.0', id: 'tx', result: TX_HASH },
+      { jsonrpc: '2.0', id: 'read', result: 'eth_chainId' }
+    ]);
+    const sends = calls.filter(call => !Array.isArray(call.payload));
+    expect(new Set(sends.map(call => call.url)).size).toBe(2);
+    expect(calls.filter(call => Array.isArray(call.payload)).map(call => call.payload.length)).toEqual([1]);
+  });
+
+  it('answers a repeated raw transaction entry from its record', async () => {
+    const { send, calls } = await setup(createChain(1), acceptingUpstream);
+    const batch = [
+      { jsonrpc: '2.0', id: 1, method: 'eth_sendRawTransaction', params: [RAW_TX] },
+      { jsonrpc: '2.0', id: 2, method: 'eth_chainId' }
+    ];
+
+    await send(batch);
+    const sentBefore = calls.filter(call => call.payload.method === 'eth_sendRawTransaction').length;
+    const body = await (await send(batch)).json() as any[];
+
+    expect(sentBefore).toBe(1);
+    expect(calls.filter(call => call.payload.method === 'eth_sendRawTransaction')).toHaveLength(1);
+    expect(body[0]).toEqual({ jsonrpc: '2.0', id: 1, result: TX_HASH });
+  });
+
+  it('answers an "already known" raw transaction entry with its hash', async () => {
+    const { send } = await setup(createChain(1), (url, payload) => Array.isArray(payload)
+      ? reversingUpstream(url, payload)
+      : jsonResponse({ jsonrpc: '2.0', id: payload.id, error: { code: -32000, message: 'already known' } }));
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 'tx', method: 'eth_sendRawTransaction', params: [RAW_TX] }
+    ])).json();
+
+    expect(body).toEqual([{ jsonrpc: '2.0', id: 'tx', result: TX_HASH }]);
+  });
+
+  it('starts the rebroadcast of a Solana transaction entry', async () => {
+    const transaction = createSolanaTransaction();
+    const started: any[] = [];
+    const rebroadcast = {
+      idFromName: (name: string) => name,
+      get: () => ({
+        fetch: async (_url: string, init: RequestInit) => {
+          started.push(JSON.parse(init.body as string));
+          return jsonResponse({ status: 'pending' });
+        }
+      })
+    } as unknown as DurableObjectNamespace;
+    const { send } = await setup(
+      createChain(1, { chainId: 'sol-test', rebroadcast: { interval: 1000 } }),
+      (url, payload) => Array.isArray(payload)
+        ? reversingUpstream(url, payload)
+        : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: transaction.signature }),
+      { TRANSACTION_REBROADCAST: rebroadcast }
+    );
+
+    const body = await (await send([
+      { jsonrpc: '2.0', id: 1, method: 'sendTransaction', params: [transaction.encoded] },
+      { jsonrpc: '2.0', id: 2, method: 'getSlot' }
+    ])).json();
+
+    expect(body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: transaction.signature },
+      { jsonrpc: '2.0', id: 2, result: 'getSlot' }
+    ]);
+    expect(started).toHaveLength(1);
+    expect(started[0]).toMatchObject({
+      chainId: 'sol-test',
+      interval: 1000,
+      transaction: { signature: transaction.signature, blockhash: transaction.blockhash }
+    });
+  });
+});
+
+describe('ProxyService batch sessions', () => {
+  const tracker = new SessionTracker(createEnv(), new Logger(LogLevel.ERROR));
+  const batch = [
+    { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber' },
+    { jsonrpc: '2.0', id: 2, method: 'eth_gasPrice' }
+  ];
+
+  it('retries an entry answered from behind the session head on its own', async () => {
+    const chain = createChain(1, { chainId: 7101, monotonicHead: true });
+    await tracker.observe('7101:latest:batch-behind', 0x10);
+    const { send, calls } = await setup(chain, (_url, payload) => Array.isArray(payload)
+      ? jsonResponse(payload.map(entry => ({ jsonrpc: '2.0', id: entry.id, result: '0x5' })))
+      : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: '0x20' }));
+
+    const body = await (await send(batch, { 'X-Session-ID': 'batch-behind' })).json();
+
+    expect(body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: '0x20' },
+      { jsonrpc: '2.0', id: 2, result: '0x5' }
+    ]);
+    expect(calls).toHaveLength(2);
+    expect(await tracker.get('7101:latest:batch-behind')).toMatchObject({ height: 0x20, rpcUrl: chain.rpcs[0].url });
+  });
+
+  it('advances the session with heads served in a batch', async () => {
+    const chain = createChain(1, { chainId: 7102, monotonicHead: true });
+    const { send } = await setup(chain, (_url, payload) =>
+      jsonResponse(payload.map((entry: any) => ({ jsonrpc: '2.0', id: entry.id, result: '0x30' }))));
+
+    await send(batch, { 'X-Session-ID': 'batch-ahead' });
+
+    expect(await tracker.get('7102:latest:batch-ahead')).toMatchObject({ height: 0x30 });
+    expect(await tracker.get('7102:latest:other')).toBeUndefined();
+  });
+});
+
+describe('ProxyService quorum reads', () => {
+  const call = { jsonrpc: '2.0', id: 'q', method: 'eth_call', params: [{ to: '0x01' }, 'latest'] };
+
+  it('answers with the result the required endpoints agree on', async () => {
+    const chain = createChain(3, { quorum: { eth_call: { required: 2, of: 3 } } });
+    const results = new Map([[chain.rpcs[0].url, '0xAB'], [chain.rpcs[1].url, '0xab'], [chain.rpcs[2].url, '0xcd']]);
+    const { send } = await setup(chain, (url, payload) =>
+      jsonResponse({ jsonrpc: '2.0', id: payload.id, result: results.get(url) }));
+
+    const body: any = await (await send(call)).json();
+
+    expect(body).toMatchObject({ id: 'q' });
+    expect(body.result.toLowerCase()).toBe('0xab');
+  });
+
+  it('fails when no result reaches the quorum', async () => {
+    const chain = createChain(3, { quorum: { eth_call: { required: 2, of: 3 } } });
+    const { send } = await setup(chain, (url, payload) =>
+      jsonResponse({ jsonrpc: '2.0', id: payload.id, result: url }));
+
+    const body: any = await (await send(call)).json();
+
+    expect(body.error).toMatchObject({ code: -32004, data: { required: 2, of: 3 } });
+    expect(body.error.data.answers).toHaveLength(3);
+  });
+
+  it('does not count identical errors as agreement', async () => {
+    const chain = createChain(3, { quorum: { eth_call: { required: 2, of: 3 } } });
+    const revert = { code: 3, message: 'execution reverted' };
+    const { send } = await setup(chain, (_url, payload) =>
+      jsonResponse({ jsonrpc: '2.0', id: payload.id, error: revert }));
+
+    const body: any = await (await send(call)).json();
+
+    expect(body.error).toMatchObject({ code: -32004, data: { required: 2, of: 3 } });
+    expect(body.error.data.answers).toEqual(chain.rpcs.map(rpc => ({ rpc: rpc.name, error: revert })));
+  });
+});
+
+describe('ProxyService failover', () => {
+  const request = { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber' };
+
+  it('moves to another endpoint after a failure without repeating one', async () => {
+    const chain = createChain(3);
+    const failing = new Set<string>();
+    const { send, calls } = await setup(chain, (url, payload) => {
+      // The first two endpoints called fail, whichever the selector picks
+      if (failing.size < 2 && !failing.has(url)) {
+        failing.add(url);
+      }
+      return failing.has(url)
+        ? new Response('unavailable', { status: 503 })
+        : jsonResponse({ jsonrpc: '2.0', id: payload.id, result: '0x10' });
+    });
+
+    const body = await (await send(request)).json();
+
+    expect(body).toEqual({ jsonrpc: '2.0', id: 1, result: '0x10' });
+    expect(new Set(calls.map(call => call.url)).size).toBe(3);
+  });
+
+  it('tries each endpoint 1 + maxRetries times before giving up', async () => {
+    vi.spyOn(ProxyService.prototype as any, 'sleep').mockResolvedValue(undefined);
+    const chain = createChain(2);
+    chain.rpcs[0].maxRetries = 1;
+    const { send, calls } = await setup(chain, () => new Response('unavailable', { status: 503 }));
+
+    const response = await send(request);
+
+    expect(response.status).toBeGreaterThanOrEqual(500);
+    expect(calls.filter(call => call.url === chain.rpcs[0].url)).toHaveLength(2);
+    expect(calls.filter(call => call.url === chain.rpcs[1].url)).toHaveLength(1);
+  });
+
+  /**
+   * Clock that only moves when the upstream answers (after `callDuration` ms) or the proxy backs off
+   */
+  function slowUpstream(callDuration: number): UpstreamHandler {
+    let now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    vi.spyOn(ProxyService.prototype as any, 'sleep').mockImplementation(async (ms: unknown) => {
+      now += ms as number;
+    });
+    return () => {
+      now += callDuration;
+      return new Response('unavailable', { status: 503 });
+    };
+  }
+
+  it('starts no new round once the request deadline has passed', async () => {
+    const chain = createChain(1);
+    chain.rpcs[0].maxRetries = 10;
+    const { send, calls } = await setup(chain, slowUpstream(APP_CONSTANTS.DEFAULTS.REQUEST_DEADLINE * 0.8));
+
+    const response = await send(request);
+
+    expect(response.status).toBeGreaterThanOrEqual(500);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('tries no further endpoint once the request deadline has passed', async () => {
+    const { send, calls } = await setup(createChain(3), slowUpstream(APP_CONSTANTS.DEFAULTS.REQUEST_DEADLINE));
+
+    await send(request);
+
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('ProxyService coalescing', () => {
+  it('sends identical concurrent requests upstream once, answering each with its own id', async () => {
+    const chain = createChain(1, { chainId: 7201 });
+    const { send, calls } = await setup(chain, async (_url, payload) => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return jsonResponse({ jsonrpc: '2.0', id: payload.id, result: '0x10' });
+    });
+
+    const bodies = await Promise.all([
+      send({ jsonrpc: '2.0', id: 'a', method: 'eth_blockNumber' }).then(response => response.json()),
+      send({ jsonrpc: '2.0', id: 'b', method: 'eth_blockNumber' }).then(response => response.json())
+    ]);
+
+    expect(bodies).toEqual([
+      { jsonrpc: '2.0', id: 'a', result: '0x10' },
+      { jsonrpc: '2.0', id: 'b', result: '0x10' }
+    ]);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not coalesce methods the chain turned off', async () => {
+    const chain = createChain(1, { chainId: 7202, coalescing: { enabled: false } });
+    const { send, calls } = await setup(chain, async (_url, payload) => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return jsonResponse({ jsonrpc: '2.0', id: payload.id, result: '0x10' });
+    });
+
+    await Promise.all([
+      send({ jsonrpc: '2.0', id: 'a', method: 'eth_blockNumber' }),
+      send({ jsonrpc: '2.0', id: 'b', method: 'eth_blockNumber' })
+    ]);
+
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe('ProxyService stale cache', () => {
+  const request = { jsonrpc: '2.0', id: 1, method: 'eth_chainId' };
+
+  /**
+   * Chain whose upstream answers `results` in turn (503 once they run out), with eth_chainId
+   * cached from a first request and the clock moved past its TTL
+   */
+  async function setupExpired(overrides: Partial<ChainConfig>, ...results: string[]) {
+    const chain = createChain(1, overrides);
+    const { send, calls } = await setup(chain, (_url, payload) => {
+      const result = results.shift();
+      return result === undefined
+        ? new Response('unavailable', { status: 503 })
+        : jsonResponse({ jsonrpc: '2.0', id: payload.id, result });
+    }, { RPC_CACHE: createKV() });
+
+    await send(request);
+    const expiredAt = Date.now() + (APP_CONSTANTS.CACHE_POLICY.IMMUTABLE_TTL + 10) * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(expiredAt);
+    return { send, calls };
+  }
+
+  it('serves the expired entry when every endpoint fails', async () => {
+    const { send } = await setupExpired({ chainId: 7301 }, '0x1');
+
+    const response = await send(request);
+
+    expect(response.headers.get('X-Cache')).toBe('STALE');
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: '0x1' });
+  });
+
+  it('returns the error when the method may not be served stale', async () => {
+    const { send } = await setupExpired({ chainId: 7302, staleCache: { methods: { eth_chainId: 0 } } }, '0x1');
+
+    const response = await send(request);
+
+    expect(response.headers.get('X-Cache')).toBeNull();
+    expect(response.ok).toBe(false);
+  });
+
+  it('serves expired entries for batch entries whose upstream call failed', async () => {
+    const { send } = await setupExpired({ chainId: 7304 }, '0x1');
+
+    const response = await send([request, { jsonrpc: '2.0', id: 2, method: 'eth_blockNumber' }]);
+    const body: any = await response.json();
+
+    expect(response.headers.get('X-Cache')).toBe('STALE');
+    expect(Number(response.headers.get('Age'))).toBeGreaterThanOrEqual(APP_CONSTANTS.CACHE_POLICY.IMMUTABLE_TTL);
+    expect(body[0]).toEqual({ jsonrpc: '2.0', id: 1, result: '0x1' });
+    expect(body[1]).toMatchObject({ id: 2, error: { code: APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR } });
+  });
+
+  it('answers a quorum read with the quorum outcome even when an expired entry exists', async () => {
+    const config = createKV();
+    const chain = createChain(2, { chainId: 7305 });
+    const { send } = await setup(chain, (url, payload) => jsonResponse({ jsonrpc: '2.0', id: payload.id, result: url }), {
+      RPC_CACHE: createKV(),
+      RPC_CONFIG: config
+    });
+    await send(request);
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + (APP_CONSTANTS.CACHE_POLICY.IMMUTABLE_TTL + 10) * 1000);
+
+    // The method switches to quorum reads while its entry is still in the cache
+    const quorumChain = { ...chain, quorum: { eth_chainId: { required: 2, of: 2 } } };
+    await config.put('rpc_config', JSON.stringify({ ...DEFAULT_RPC_CONFIG, chains: { [chain.chainId]: quorumChain } }));
+    const response = await send(request);
+
+    expect(response.headers.get('X-Cache')).toBeNull();
+    expect(await response.json()).toMatchObject({ error: { code: APP_CONSTANTS.JSON_RPC_ERRORS.QUORUM_NOT_REACHED } });
+  });
+
+  it('answers from the expired entry and refreshes it in the background when revalidating', async () => {
+    const { send, calls } = await setupExpired({ chainId: 7303, staleCache: { revalidate: true } }, '0x1', '0x2');
+    const background: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => background.push(promise) } as unknown as ExecutionContext;
+
+    const response = await send(request, {}, ctx);
+    expect(response.headers.get('X-Cache')).toBe('STALE');
+    expect(await response.json()).toMatchObject({ result: '0x1' });
+
+    await Promise.all(background);
+    expect(calls).toHaveLength(2);
+    const refreshed = await send(request);
+    expect(refreshed.headers.get('X-Cache')).toMatch(/^HIT/);
+    expect(await refreshed.json()).toMatchObject({ result: '0x2' });
+  });
+});
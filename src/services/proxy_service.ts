@@ -3,46 +3,93 @@ import {
   JSONRPCRequest,
   JSONRPCResponse,
   ProxyContext,
+  CacheHit,
   RPCEndpoint,
   ChainConfig,
   ErrorCode,
   HttpStatusCode,
-  CORSConfig
+  CORSConfig,
+  RPCSelectionOptions,
+  RPCCapability,
+  BroadcastResult,
+  QuorumPolicy,
+  QuorumAnswer,
+  SessionState
 } from '../types';
 import { ConfigService } from './config_service';
 import { RPCSelector } from './rpc_selector';
+import { HealthService } from './health_service';
 import { CacheService } from './cache_service';
+import { CachePolicy } from './cache_policy';
 import { MetricsService, getMetricsService } from './metrics_service';
+import { UpstreamClient, UpstreamCallResult } from './upstream_client';
+import { CircuitBreaker } from './circuit_breaker';
+import { TransactionStore } from './transaction_store';
+import { TransactionRebroadcaster } from './transaction_rebroadcaster';
+import { SessionTracker } from './session_tracker';
+import { SecretStore } from './secret_store';
 import { Logger, LogLevel } from '../utils/logger';
 import {
   errorHandler,
   ValidationError,
   NetworkError,
-  TimeoutError,
   ChainNotSupportedError,
   SystemError
 } from '../utils/error_handler';
 import { CORSHandler } from '../utils/cors';
-import { DEFAULT_MAX_RETRIES, RETRY_BASE_DELAY, DEFAULT_CHAIN_ID } from '../constants';
+import { APP_CONSTANTS, RETRY_BASE_DELAY, DEFAULT_CHAIN_ID } from '../constants';
 import { generateCacheKey } from '../utils/hash';
+import { getHedgePolicy, getHedgeDelay } from '../utils/hedging';
+import { isMethodAllowed } from '../utils/method_policy';
+import { getRequiredCapabilities } from '../utils/method_requirements';
+import { getChainHead } from '../utils/chain';
+import { isCoalescingEnabled } from '../utils/coalescing';
+import { RequestDeduplicator, getRequestDeduplicator } from '../utils/deduplicator';
+import { getBroadcastFanout, getRebroadcastPolicy, isAlreadyKnownError } from '../utils/broadcast';
+import { getTransactionHash, parseSolanaTransaction } from '../utils/transaction';
+import { getSessionKey, getResponseHeight } from '../utils/session';
+import { getQuorumPolicy, normalizeQuorumAnswer } from '../utils/quorum';
+
+/**
+ * Failover state handed to an attempt: the current round's selection inputs and
+ * a hook to count extra endpoints (e.g. a hedge) as tried in this round
+ */
+interface FailoverRound {
+  selection: RPCSelectionOptions;
+  markTried: (rpc: RPCEndpoint) => void;
+}
 
 export class ProxyService {
   private configService: ConfigService;
+  private healthService: HealthService;
   private logger: Logger;
   private cacheService: CacheService | null = null;
   private metricsService: MetricsService;
+  private upstreamClient: UpstreamClient;
+  private circuitBreaker: CircuitBreaker;
+  private deduplicator: RequestDeduplicator;
+  private transactionStore: TransactionStore;
+  private rebroadcaster: TransactionRebroadcaster;
+  private sessionTracker: SessionTracker;
   private corsHandler: CORSHandler | null = null;
 
   constructor(env: Env, cache?: KVNamespace) {
     this.configService = new ConfigService(env);
+    this.healthService = new HealthService(env);
     this.logger = Logger.getInstance(LogLevel.INFO, { service: 'proxy' });
     this.metricsService = getMetricsService(this.logger);
+    this.upstreamClient = new UpstreamClient(this.logger, new SecretStore(env));
+    this.circuitBreaker = new CircuitBreaker(env, this.logger);
+    this.deduplicator = getRequestDeduplicator();
+    this.transactionStore = new TransactionStore(env.RPC_HEALTH, this.logger);
+    this.rebroadcaster = new TransactionRebroadcaster(env, this.logger);
+    this.sessionTracker = new SessionTracker(env, this.logger);
     if (cache) {
       this.cacheService = new CacheService(cache);
     }
   }
 
-  async handleRequest(request: Request, env: Env): Promise<Response> {
+  async handleRequest(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
     const startTime = Date.now();
     const requestId = crypto.randomUUID();
     const url = new URL(request.url);
@@ -72,16 +119,22 @@ export class ProxyService {
     try {
       // Parse and validate JSON-RPC request
       const body = await request.text();
-      let jsonRPCRequest: JSONRPCRequest;
+      let parsedBody: unknown;
 
       try {
-        jsonRPCRequest = JSON.parse(body);
+        parsedBody = JSON.parse(body);
       } catch (error) {
         const parseError = new ValidationError('Failed to parse JSON request');
         const handledError = errorHandler.handleError(parseError, requestId);
         return errorHandler.createErrorResponse(handledError);
       }
 
+      // JSON-RPC 2.0 batch: an array of requests answered with an array of responses
+      if (Array.isArray(parsedBody)) {
+        return await this.handleBatchRequest(request, parsedBody, requestId, startTime, origin, ctx);
+      }
+
+      const jsonRPCRequest = parsedBody as JSONRPCRequest;
       if (!this.isValidJSONRPC(jsonRPCRequest)) {
         this.logger.warn('Invalid JSON-RPC request format', { requestId, request: jsonRPCRequest });
         return this.createErrorResponse(
@@ -116,9 +169,24 @@ export class ProxyService {
         );
       }
 
-      // Check for healthy RPCs
-      const healthyRPCs = chainConfig.rpcs.filter(rpc => rpc.isActive);
-      if (healthyRPCs.length === 0) {
+      // Enforce the chain's method policy before touching cache or upstreams
+      if (!isMethodAllowed(chainConfig, jsonRPCRequest.method)) {
+        this.logger.warn('Method rejected by chain method policy', {
+          requestId,
+          chainId,
+          method: jsonRPCRequest.method
+        });
+        return this.createErrorResponse(
+          APP_CONSTANTS.JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          'Method not found',
+          jsonRPCRequest.id,
+          requestId,
+          origin
+        );
+      }
+
+      // Check for enabled RPCs
+      if (!RPCSelector.hasHealthyRPCs(chainConfig)) {
         this.logger.error('No healthy RPCs available', { requestId, chainId });
         return this.createErrorResponse(
           ErrorCode.NO_HEALTHY_RPCS,
@@ -128,54 +196,130 @@ export class ProxyService {
         );
       }
 
-      // Check cache first if available
-      if (this.cacheService) {
-        const cacheKey = generateCacheKey(chainId, jsonRPCRequest.method, jsonRPCRequest.params || []);
-        const cachedResponse = await this.cacheService.getCachedRPCResponse(
+      // Client session whose head must not go backwards, when the chain keeps them
+      const session = getSessionKey(request, chainConfig, jsonRPCRequest);
+      const sessionState = session ? await this.sessionTracker.get(session) : undefined;
+
+      // Quorum reads are always answered by endpoints that agree, never from cache
+      const quorum = getQuorumPolicy(chainConfig, jsonRPCRequest.method);
+
+      // Check cache first if the request can be cached at all
+      let staleEntry: CacheHit | null = null;
+      if (this.cacheService && !quorum && CachePolicy.isCacheable({ chainConfig }, jsonRPCRequest)) {
+        const cacheParams = CachePolicy.getCacheKeyParams({ chainConfig }, jsonRPCRequest);
+        const cacheKey = generateCacheKey(chainId, jsonRPCRequest.method, cacheParams);
+        const usable = await this.cacheService.getCachedRPCResponse(
           chainId.toString(),
           jsonRPCRequest.method,
-          jsonRPCRequest.params || []
+          cacheParams,
+          value => CachePolicy.satisfiesRequest(jsonRPCRequest, value)
+            && !this.isBehindSession(sessionState, chainConfig, jsonRPCRequest, value.result)
         );
 
-        if (cachedResponse) {
+        if (usable && !usable.stale) {
           this.logger.logCacheOperation('hit', cacheKey, 'proxy-service', undefined, requestId);
           this.logger.debug('Cache hit for RPC request', {
             requestId,
             method: jsonRPCRequest.method,
-            chainId
+            chainId,
+            tier: usable.tier
           });
 
-          const headers = new Headers();
-          headers.set('Content-Type', 'application/json');
-          headers.set('X-Request-ID', requestId);
-          headers.set('X-Cache', 'HIT');
+          await this.observeSession(session, chainConfig, jsonRPCRequest, usable.value.result);
+          return this.createCachedResponse(usable, chainId, jsonRPCRequest, requestId, origin);
+        }
 
-          const response = new Response(JSON.stringify(cachedResponse), {
-            status: 200,
-            headers
-          });
+        this.logger.logCacheOperation('miss', cacheKey, 'proxy-service', undefined, requestId);
+        // A stale entry stands in when every upstream fails (or right away when revalidating)
+        staleEntry = usable;
+      }
 
-          // Add CORS headers if enabled
-          return this.corsHandler ? this.corsHandler.addCORSHeaders(response, origin) : response;
-        } else {
-          this.logger.logCacheOperation('miss', cacheKey, 'proxy-service', undefined, requestId);
-        }
+      // Only endpoints with the capabilities the request needs (archive, trace, ...) qualify
+      const selection = await this.getSelectionOptions(chainId);
+      selection.require = getRequiredCapabilities(
+        chainConfig,
+        jsonRPCRequest,
+        getChainHead(chainConfig, selection.health)
+      );
+      if (!RPCSelector.hasCapableRPCs(chainConfig, selection.require)) {
+        this.logger.warn('No RPC endpoint has the required capabilities', {
+          requestId,
+          chainId,
+          method: jsonRPCRequest.method,
+          required: selection.require
+        });
+        return this.createErrorResponse(
+          ErrorCode.NO_CAPABLE_RPCS,
+          this.getNoCapableRPCsMessage(selection.require),
+          jsonRPCRequest.id,
+          requestId,
+          origin,
+          { requiredCapabilities: selection.require }
+        );
+      }
+
+      // A session only goes to its pinned endpoint, or to endpoints that have reached its head
+      if (sessionState) {
+        selection.minHeight = sessionState.height;
+        selection.pinned = sessionState.rpcUrl;
       }
 
       // Create proxy context
       const context: ProxyContext = {
         chainId,
         request: jsonRPCRequest,
+        selection,
         startTime,
-        requestId
+        requestId,
+        ...(session ? { session, sessionState } : {})
       };
 
-      // Attempt proxy with retries
-      const response = await this.proxyWithRetries(context, chainConfig);
+      if (staleEntry && ctx && CachePolicy.shouldRevalidate({ chainConfig })) {
+        // Stale-while-revalidate: answer now, refresh the cache after the response is sent
+        ctx.waitUntil(this.proxyCoalesced(context, chainConfig).catch(error => {
+          this.logger.warn('Background cache revalidation failed', {
+            requestId,
+            chainId,
+            method: jsonRPCRequest.method,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }));
+        return this.createCachedResponse(staleEntry, chainId, jsonRPCRequest, requestId, origin);
+      }
+
+      // Signed transactions are submitted once per hash, Solana transactions may be rebroadcast,
+      // quorum reads go to several endpoints; everything else is proxied with retries,
+      // sharing the upstream call with identical in-flight requests
+      let response: Response;
+      if (quorum) {
+        response = await this.proxyWithQuorum(context, chainConfig, quorum, ctx);
+      } else if (jsonRPCRequest.method === APP_CONSTANTS.TRANSACTIONS.SUBMIT_METHOD) {
+        response = await this.submitTransaction(context, chainConfig, ctx);
+      } else if (getRebroadcastPolicy(chainConfig, jsonRPCRequest.method) && this.rebroadcaster.isAvailable()) {
+        response = await this.submitSolanaTransaction(context, chainConfig);
+      } else {
+        response = await this.proxyCoalesced(context, chainConfig);
+      }
+
+      if (!response.ok && staleEntry && !quorum) {
+        // Stale-if-error: every endpoint failed, so the last good answer beats an error;
+        // a quorum read is answered by the quorum outcome, disagreement included
+        this.logger.warn('All RPC endpoints failed, serving stale cache entry', {
+          requestId,
+          chainId,
+          method: jsonRPCRequest.method,
+          age: staleEntry.age,
+          attempts: context.attempts
+        });
+        return this.createCachedResponse(staleEntry, chainId, jsonRPCRequest, requestId, origin, context.attempts);
+      }
 
       // Add request ID to response headers
       const headers = new Headers(response.headers);
       headers.set('X-Request-ID', requestId);
+      if (context.attempts?.length) {
+        headers.set('X-RPC-Attempts', context.attempts.join(', '));
+      }
 
       // Log response and performance
       const duration = Date.now() - startTime;
@@ -250,206 +394,1509 @@ export class ProxyService {
     }
   }
 
+  /**
+   * Proxy a request, letting identical concurrent requests share one upstream call
+   * Requests that join an in-flight call get its response with their own JSON-RPC id
+   */
+  private async proxyCoalesced(context: ProxyContext, chainConfig: ChainConfig): Promise<Response> {
+    const { chainId, request } = context;
+    // Sessions route to their own endpoints, so they can't share another caller's upstream call
+    if (!isCoalescingEnabled(chainConfig, request.method) || context.session) {
+      return this.proxyWithRetries(context, chainConfig);
+    }
+
+    const key = generateCacheKey(chainId, request.method, request.params || []);
+    let isLeader = false;
+
+    // Responses can only be read once, so the shared result is the buffered body
+    const shared = await this.deduplicator.deduplicate(key, async () => {
+      isLeader = true;
+      const response = await this.proxyWithRetries(context, chainConfig);
+      return {
+        status: response.status,
+        headers: [...response.headers.entries()],
+        body: await response.text(),
+        attempts: context.attempts ?? []
+      };
+    });
+
+    this.metricsService.recordCoalesce(chainId, request.method, isLeader ? 'upstream' : 'coalesced');
+
+    if (isLeader) {
+      return new Response(shared.body, { status: shared.status, headers: shared.headers });
+    }
+
+    this.logger.debug('Request coalesced with in-flight upstream call', {
+      requestId: context.requestId,
+      chainId,
+      method: request.method
+    });
+    context.attempts = [...shared.attempts];
+
+    const headers = new Headers(shared.headers);
+    headers.delete('Content-Length');
+    return new Response(this.rewriteResponseId(shared.body, request.id), { status: shared.status, headers });
+  }
+
+  /**
+   * Replace the id of a serialized JSON-RPC response; other bodies are returned unchanged
+   */
+  private rewriteResponseId(body: string, id: string | number): string {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'id' in parsed) {
+        return JSON.stringify({ ...parsed, id });
+      }
+    } catch {
+      // Not JSON; pass through
+    }
+    return body;
+  }
+
   private async proxyWithRetries(
     context: ProxyContext,
-    chainConfig: ChainConfig,
-    maxRetries: number = DEFAULT_MAX_RETRIES
+    chainConfig: ChainConfig
   ): Promise<Response> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        // Select RPC endpoint using static method
-        const selectedRPC = RPCSelector.selectRPC(chainConfig);
-        if (!selectedRPC) {
-          throw new Error('No RPC endpoint available');
-        }
-
-        context.selectedRPC = selectedRPC;
+    context.attempts = context.attempts ?? [];
 
-        this.logger.debug('Attempting RPC call', {
-          requestId: context.requestId,
-          attempt: attempt + 1,
-          maxRetries: maxRetries + 1,
-          rpcUrl: selectedRPC.url,
-          chainId: context.chainId
-        });
+    try {
+      return await this.runWithFailover(
+        context.chainId,
+        chainConfig,
+        context.selection ?? {},
+        context.attempts,
+        context.requestId,
+        async (primaryRPC, failover) => {
+          this.logger.debug('Attempting RPC call', {
+            requestId: context.requestId,
+            attempt: context.attempts?.length,
+            rpcUrl: primaryRPC.url,
+            chainId: context.chainId
+          });
 
-        // Make the actual RPC call
-        const response = await this.makeRPCCall(context);
+          // Make the actual RPC call, hedged on a second endpoint when the method allows it
+          const { rpc: selectedRPC, response, callDuration } = await this.callWithHedging(
+            context,
+            chainConfig,
+            primaryRPC,
+            failover
+          );
+          context.selectedRPC = selectedRPC;
+
+          if (!response.ok) {
+            throw new Error(`RPC call failed with status: ${response.status}`);
+          }
 
-        if (response.ok) {
           const duration = Date.now() - context.startTime;
 
           // Record response time for RPC selector
-          RPCSelector.recordResponseTime(selectedRPC.url, duration);
+          RPCSelector.recordResponseTime(selectedRPC.url, callDuration);
 
           this.logger.info('RPC call successful', {
             requestId: context.requestId,
             chainId: context.chainId,
             rpcUrl: selectedRPC.url,
             duration,
-            attempt: attempt + 1
+            attempt: context.attempts?.length
           });
           return response;
-        } else {
-          throw new Error(`RPC call failed with status: ${response.status}`);
         }
+      );
+    } catch (error) {
+      const lastError = error instanceof Error ? error : new Error('Unknown error');
+
+      // All retries failed
+      this.logger.error('All RPC retry attempts failed', {
+        requestId: context.requestId,
+        chainId: context.chainId,
+        attempts: context.attempts,
+        finalError: lastError.message
+      });
+
+      const networkError = new NetworkError(lastError.message || 'All RPC endpoints failed');
+      const handledError = errorHandler.handleError(networkError);
+      return errorHandler.createErrorResponse(handledError);
+    }
+  }
+
+  /**
+   * Run an upstream operation with failover across the chain's endpoints
+   * Each round tries every eligible endpoint at most once; an endpoint takes part in
+   * at most 1 + its own maxRetries rounds, and RETRY_BASE_DELAY backoff only applies
+   * between rounds. No attempt or round starts once REQUEST_DEADLINE has passed, so the
+   * caller still has time to answer. Names of the endpoints tried are appended to `attempts`.
+   */
+  private async runWithFailover<T>(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    selection: RPCSelectionOptions,
+    attempts: string[],
+    requestId: string | undefined,
+    operation: (rpc: RPCEndpoint, failover: FailoverRound) => Promise<T>
+  ): Promise<T> {
+    const deadline = Date.now() + APP_CONSTANTS.DEFAULTS.REQUEST_DEADLINE;
+    const attemptCounts = new Map<string, number>();
+    const exhausted: string[] = [];
+    let triedThisRound: string[] = [];
+    let lastFailedURL: string | null = null;
+    let lastError: Error | null = null;
+    let round = 0;
+
+    const markTried = (rpc: RPCEndpoint) => {
+      triedThisRound.push(rpc.url);
+      const count = (attemptCounts.get(rpc.url) || 0) + 1;
+      attemptCounts.set(rpc.url, count);
+      if (count > rpc.maxRetries) {
+        exhausted.push(rpc.url);
+      }
+      attempts.push(rpc.name);
+    };
+
+    for (;;) {
+      if (attempts.length > 0 && Date.now() >= deadline) {
+        this.logger.warn('Request deadline passed, giving up on failover', { requestId, chainId, round: round + 1 });
+        break;
+      }
+
+      const roundSelection: RPCSelectionOptions = {
+        ...selection,
+        exclude: [...(selection.exclude || []), ...exhausted, ...triedThisRound]
+      };
+      const selectedRPC = await this.selectRPC(chainId, chainConfig, roundSelection, lastFailedURL);
+
+      if (!selectedRPC) {
+        const remaining = RPCSelector.getCandidateRPCs(chainConfig, {
+          ...selection,
+          exclude: [...(selection.exclude || []), ...exhausted]
+        });
+        if (triedThisRound.length === 0 || remaining.length === 0) {
+          // Nothing left to try: endpoints are exhausted, disabled or have an open circuit
+          break;
+        }
+
+        const delay = RETRY_BASE_DELAY * Math.pow(2, round);
+        if (Date.now() + delay >= deadline) {
+          this.logger.warn('Request deadline reached before the next round', { requestId, chainId, round: round + 1 });
+          break;
+        }
+        this.logger.debug('All RPC endpoints tried, backing off', {
+          requestId,
+          chainId,
+          round: round + 1,
+          delay
+        });
+        await this.sleep(delay);
+
+        round++;
+        triedThisRound = [];
+        lastFailedURL = null;
+        continue;
+      }
 
+      markTried(selectedRPC);
+
+      try {
+        return await operation(selectedRPC, { selection: roundSelection, markTried });
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
+        lastFailedURL = selectedRPC.url;
 
         this.logger.warn('RPC call attempt failed', {
-          requestId: context.requestId,
-          attempt: attempt + 1,
-          maxRetries: maxRetries + 1,
+          requestId,
+          attempt: attempts.length,
+          round: round + 1,
+          rpcUrl: selectedRPC.url,
           error: lastError.message,
-          chainId: context.chainId
+          chainId
         });
+      }
+    }
 
-        // If this isn't the last attempt, wait before retrying
-        if (attempt < maxRetries) {
-          const delay = RETRY_BASE_DELAY * Math.pow(2, attempt);
-          await this.sleep(delay);
-        }
+    throw lastError || new Error('No RPC endpoint available');
+  }
+
+  private async makeRPCCall(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    selectedRPC: RPCEndpoint | undefined = context.selectedRPC,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (!selectedRPC) {
+      throw new Error('No RPC endpoint selected');
+    }
+
+    const { request } = context;
+    const result = await this.callUpstream(context.chainId, selectedRPC, request, context.requestId, signal);
+    const jsonResponse = result.json;
+
+    // Basic JSON-RPC response validation
+    if (jsonResponse && jsonResponse.jsonrpc === '2.0' && 'id' in jsonResponse) {
+      // An endpoint behind the session's head counts as a failed attempt, so failover moves on
+      if (!jsonResponse.error && this.isBehindSession(context.sessionState, chainConfig, request, jsonResponse.result)) {
+        throw new Error('RPC endpoint is behind the session head');
+      }
+      if (!jsonResponse.error) {
+        await this.observeSession(context.session, chainConfig, request, jsonResponse.result, selectedRPC.url);
+      }
+
+      // Cache successful response if cache service is available
+      if (this.cacheService && !jsonResponse.error) {
+        await this.cacheResponse(
+          context.chainId,
+          chainConfig,
+          request,
+          jsonResponse,
+          getChainHead(chainConfig, context.selection?.health),
+          context.requestId
+        );
       }
     }
 
-    // All retries failed
-    this.logger.error('All RPC retry attempts failed', {
-      requestId: context.requestId,
-      chainId: context.chainId,
-      maxRetries: maxRetries + 1,
-      finalError: lastError?.message
+    return new Response(result.body, {
+      status: result.status,
+      headers: result.headers,
     });
+  }
+
+  /**
+   * Call the primary endpoint and, for hedged methods, a second endpoint once the primary
+   * has been silent for the hedge delay. The first valid JSON-RPC response wins and the
+   * other call is aborted; when neither is valid the primary's outcome is returned.
+   */
+  private async callWithHedging(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    primaryRPC: RPCEndpoint,
+    failover: FailoverRound
+  ): Promise<{ rpc: RPCEndpoint; response: Response; callDuration: number }> {
+    const policy = getHedgePolicy(chainConfig, context.request.method);
+    const startTime = Date.now();
+
+    if (!policy) {
+      const response = await this.makeRPCCall(context, chainConfig, primaryRPC);
+      return { rpc: primaryRPC, response, callDuration: Date.now() - startTime };
+    }
+
+    const delay = getHedgeDelay(policy, primaryRPC);
+    const controllers: AbortController[] = [];
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pending = 0;
+      let fallback: { rpc: RPCEndpoint; response: Response; callDuration: number } | null = null;
+      let lastError: unknown = null;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
 
-    const networkError = new NetworkError(lastError?.message || 'All RPC endpoints failed');
-    const handledError = errorHandler.handleError(networkError);
-    return errorHandler.createErrorResponse(handledError);
+      const settle = () => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        controllers.forEach(controller => controller.abort());
+      };
+
+      const finishIfDone = () => {
+        if (settled || pending > 0) {
+          return;
+        }
+        settle();
+        if (fallback) {
+          resolve(fallback);
+        } else {
+          reject(lastError);
+        }
+      };
+
+      const launch = (rpc: RPCEndpoint, isHedge: boolean) => {
+        const controller = new AbortController();
+        controllers.push(controller);
+        pending++;
+
+        this.makeRPCCall(context, chainConfig, rpc, controller.signal).then(async response => ({
+          response,
+          valid: response.ok && this.isValidJSONRPCResponse(await response.clone().text())
+        })).then(({ response, valid }) => {
+          pending--;
+          if (settled) {
+            return;
+          }
+
+          const outcome = { rpc, response, callDuration: Date.now() - startTime };
+          if (valid) {
+            settle();
+            if (isHedge) {
+              this.metricsService.recordHedge(context.chainId, context.request.method, 'won');
+            }
+            resolve(outcome);
+            return;
+          }
+
+          if (!isHedge || !fallback) {
+            fallback = outcome;
+          }
+          finishIfDone();
+        }, error => {
+          pending--;
+          if (!isHedge || lastError === null) {
+            lastError = error;
+          }
+          finishIfDone();
+        });
+      };
+
+      launch(primaryRPC, false);
+
+      hedgeTimer = setTimeout(async () => {
+        if (settled) {
+          return;
+        }
+
+        // A failure here only costs the hedge; the primary attempt still settles the race
+        try {
+          const hedgeRPC = await this.selectRPC(context.chainId, chainConfig, failover.selection, primaryRPC.url);
+          if (!hedgeRPC || settled) {
+            return;
+          }
+
+          failover.markTried(hedgeRPC);
+          this.metricsService.recordHedge(context.chainId, context.request.method, 'sent');
+          this.logger.debug('Sending hedged request', {
+            requestId: context.requestId,
+            chainId: context.chainId,
+            method: context.request.method,
+            primaryUrl: primaryRPC.url,
+            hedgeUrl: hedgeRPC.url,
+            delay
+          });
+          launch(hedgeRPC, true);
+        } catch (error) {
+          this.logger.error('Failed to send hedged request', {
+            requestId: context.requestId,
+            chainId: context.chainId,
+            method: context.request.method,
+            primaryUrl: primaryRPC.url,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }, delay);
+    });
   }
 
-  private async makeRPCCall(context: ProxyContext): Promise<Response> {
-    if (!context.selectedRPC) {
-      throw new Error('No RPC endpoint selected');
+  /**
+   * Submit a signed transaction once per transaction hash
+   * A repeat of a recently accepted transaction is answered from its record without going upstream.
+   * An "already known" error means an earlier attempt reached the mempool, so the client gets the
+   * transaction hash instead of the error.
+   */
+  private async submitTransaction(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    ctx?: ExecutionContext
+  ): Promise<Response> {
+    const { chainId, request, requestId } = context;
+    const txHash = getTransactionHash(request.params?.[0]);
+
+    const previous = txHash ? await this.transactionStore.get(chainId, txHash) : null;
+    if (previous) {
+      this.logger.info('Repeated transaction submission answered from record', {
+        requestId,
+        chainId,
+        txHash,
+        submissions: previous.submissions + 1
+      });
+      await this.transactionStore.recordRepeat(previous);
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: previous.result }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', 'X-Transaction-Replay': 'true' }
+      });
     }
 
-    const { selectedRPC, request } = context;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), selectedRPC.timeout);
-    const callStartTime = Date.now();
-
-    // Log external service call
-    this.logger.logExternalCall(
-      selectedRPC.name,
-      'rpc-call',
-      selectedRPC.url,
-      'POST',
-      undefined, // statusCode will be set after response
-      undefined, // duration will be set after response
-      context.requestId
-    );
+    const fanout = getBroadcastFanout(chainConfig, request.method);
+    const response = fanout > 0
+      ? await this.broadcastTransaction(context, chainConfig, fanout, ctx)
+      : await this.proxyCoalesced(context, chainConfig);
+
+    // Malformed transactions have no hash to key a record by; the upstream error is passed on
+    if (!txHash) {
+      return response;
+    }
 
+    let body = await response.text();
+    const headers = new Headers(response.headers);
+    let parsed: JSONRPCResponse | undefined;
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
+      parsed = JSON.parse(body);
+    } catch {
+      // Not JSON-RPC; pass through
+    }
+
+    let result = typeof parsed?.result === 'string' ? parsed.result : undefined;
+    if (!result && isAlreadyKnownError(parsed?.error)) {
+      this.logger.info('Upstream already has the transaction, answering with its hash', {
+        requestId,
+        chainId,
+        txHash
+      });
+      result = txHash;
+      body = JSON.stringify({ jsonrpc: '2.0', id: request.id, result });
+      headers.delete('Content-Length');
+    }
+
+    if (result) {
+      await this.transactionStore.recordAccepted(chainId, txHash, result, context.attempts ?? [], context.broadcast);
+    }
+
+    return new Response(body, { status: response.status, headers });
+  }
+
+  /**
+   * Send a Solana transaction and, once an endpoint accepts it, keep rebroadcasting it
+   * until it is confirmed or its blockhash expires (see TransactionRebroadcastDurableObject)
+   */
+  private async submitSolanaTransaction(context: ProxyContext, chainConfig: ChainConfig): Promise<Response> {
+    const { chainId, request, requestId } = context;
+    const policy = getRebroadcastPolicy(chainConfig, request.method);
+    const [encoded, options] = request.params || [];
+    const encoding = options?.encoding ?? 'base58';
+    const parsed = parseSolanaTransaction(encoded, encoding);
+
+    const response = await this.proxyCoalesced(context, chainConfig);
+    if (!policy || !parsed) {
+      return response;
+    }
+
+    const body = await response.text();
+    let result: unknown;
+    try {
+      result = JSON.parse(body)?.result;
+    } catch {
+      // Not JSON-RPC; pass through
+    }
+
+    if (typeof result === 'string') {
+      const rebroadcast = await this.rebroadcaster.start(
+        chainId,
+        { ...parsed, encoded, encoding },
+        policy.interval
+      );
+      this.logger.info('Transaction rebroadcast started', {
+        requestId,
+        chainId,
+        signature: parsed.signature,
+        blockhash: parsed.blockhash,
+        status: rebroadcast?.status
+      });
+    }
+
+    return new Response(body, { status: response.status, headers: response.headers });
+  }
+
+  /**
+   * Send a signed transaction to several endpoints at once
+   * The first endpoint that accepts the transaction, or already has it, answers the request;
+   * the remaining calls finish in the background and the per-endpoint report is logged.
+   * When no endpoint accepts it, the first rejection is returned unchanged.
+   * X-Broadcast-Results lists each endpoint's outcome at the time of the response.
+   */
+  private async broadcastTransaction(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    fanout: number,
+    ctx?: ExecutionContext
+  ): Promise<Response> {
+    const { chainId, request, requestId } = context;
+    const txHash = getTransactionHash(request.params?.[0]);
+
+    const targets = await this.selectTargets(chainId, chainConfig, context.selection, fanout);
+    context.attempts = targets.map(rpc => rpc.name);
+
+    if (targets.length === 0) {
+      const networkError = new NetworkError('No RPC endpoint available');
+      return errorHandler.createErrorResponse(errorHandler.handleError(networkError));
+    }
+
+    const startTime = Date.now();
+    const results: BroadcastResult[] = targets.map(rpc => ({ rpc: rpc.name, outcome: 'pending' }));
+    context.broadcast = results;
+    const replies: (UpstreamCallResult | null)[] = targets.map(() => null);
+
+    let resolveWinner: (index: number | null) => void = () => {};
+    const winner = new Promise<number | null>(resolve => {
+      resolveWinner = resolve;
+    });
+
+    const calls = targets.map(async (rpc, index) => {
+      const result = results[index];
+      try {
+        const reply = await this.callUpstream(chainId, rpc, request, requestId);
+        const json = reply.json as JSONRPCResponse | undefined;
+        replies[index] = reply;
+        result.duration = Date.now() - startTime;
+
+        if (reply.ok && typeof json?.result === 'string') {
+          result.outcome = 'accepted';
+          result.txHash = json.result;
+          RPCSelector.recordResponseTime(rpc.url, reply.duration);
+        } else if (isAlreadyKnownError(json?.error)) {
+          result.outcome = 'known';
+          result.txHash = txHash ?? undefined;
+          result.error = json?.error?.message;
+        } else if (json?.error) {
+          result.outcome = 'rejected';
+          result.error = json.error.message;
+        } else {
+          result.outcome = 'failed';
+          result.error = `HTTP ${reply.status}`;
+        }
+      } catch (error) {
+        result.duration = Date.now() - startTime;
+        result.outcome = 'failed';
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      if (result.outcome === 'accepted' || result.outcome === 'known') {
+        resolveWinner(index);
+      }
+    });
+
+    const completed = Promise.all(calls).then(() => {
+      resolveWinner(null);
+      const success = results.some(result => result.outcome === 'accepted' || result.outcome === 'known');
+      this.logger[success ? 'info' : 'warn']('Transaction broadcast completed', {
+        requestId,
+        chainId,
+        txHash,
+        results
+      });
+    });
+
+    const winnerIndex = await winner;
+    // The response doesn't wait for slower endpoints, but their outcome is still logged
+    ctx?.waitUntil(completed);
+
+    const report = results.map(result => `${result.rpc}=${result.outcome}`).join(', ');
+    const headers = new Headers({ 'Content-Type': 'application/json', 'X-Broadcast-Results': report });
+
+    const acceptedHash = winnerIndex !== null ? results[winnerIndex].txHash : undefined;
+    if (acceptedHash) {
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: acceptedHash }), {
+        status: 200,
+        headers
+      });
+    }
+
+    // No hash to answer with: pass on the winning or the first rejecting endpoint's reply
+    const replyIndex = winnerIndex ?? results.findIndex(result => result.outcome === 'rejected');
+    const reply = replyIndex >= 0 ? replies[replyIndex] : null;
+    if (reply) {
+      return new Response(reply.body, { status: reply.status, headers });
+    }
+
+    const networkError = new NetworkError('All RPC endpoints failed');
+    const response = errorHandler.createErrorResponse(errorHandler.handleError(networkError));
+    response.headers.set('X-Broadcast-Results', report);
+    return response;
+  }
+
+  /**
+   * Answer a read only when enough endpoints return the same result
+   */
+  private async proxyWithQuorum(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    policy: QuorumPolicy,
+    ctx?: ExecutionContext
+  ): Promise<Response> {
+    const { response, reply } = await this.resolveQuorum(context, chainConfig, policy, ctx);
+    const headers = { 'Content-Type': 'application/json' };
+
+    if (reply) {
+      // Pass on the agreed upstream body as received, under the client's id
+      return new Response(this.rewriteResponseId(reply.body, context.request.id), { status: reply.status, headers });
+    }
+
+    return new Response(JSON.stringify(response), { status: HttpStatusCode.OK, headers });
+  }
+
+  /**
+   * Send a read to `of` endpoints and settle on the first answer `required` of them return
+   * Answers are compared after normalization (key order, hex case, Solana context slot).
+   * When no answer reaches the quorum the caller gets a JSON-RPC error listing every
+   * endpoint's answer; disagreements are logged once all calls have finished.
+   */
+  private async resolveQuorum(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    policy: QuorumPolicy,
+    ctx?: ExecutionContext
+  ): Promise<{ response: JSONRPCResponse; reply?: UpstreamCallResult }> {
+    const { chainId, request, requestId } = context;
+
+    const targets = await this.selectTargets(chainId, chainConfig, context.selection, policy.of);
+    context.attempts = context.attempts ?? [];
+    context.attempts.push(...targets.map(rpc => rpc.name));
+
+    if (targets.length < policy.required) {
+      this.logger.warn('Not enough RPC endpoints for quorum', {
+        requestId,
+        chainId,
+        method: request.method,
+        required: policy.required,
+        available: targets.length
+      });
+      return {
+        response: this.buildErrorPayload(
+          APP_CONSTANTS.JSON_RPC_ERRORS.QUORUM_NOT_REACHED,
+          'Not enough RPC endpoints available for quorum',
+          request.id,
+          { required: policy.required, of: policy.of, available: targets.length }
+        )
       };
+    }
+
+    const answers: QuorumAnswer[] = targets.map(rpc => ({ rpc: rpc.name, failure: 'pending' }));
+    // Replies grouped by normalized answer; the first group to reach `required` wins
+    const groups = new Map<string, UpstreamCallResult[]>();
 
-      // Add API key if available
-      if (selectedRPC.apiKey) {
-        headers['Authorization'] = `Bearer ${selectedRPC.apiKey}`;
+    let resolveAgreement: (reply: UpstreamCallResult | null) => void = () => {};
+    const agreement = new Promise<UpstreamCallResult | null>(resolve => {
+      resolveAgreement = resolve;
+    });
+
+    const calls = targets.map(async (rpc, index) => {
+      const answer = answers[index];
+      try {
+        const reply = await this.callUpstream(chainId, rpc, request, requestId);
+        const json = reply.json as JSONRPCResponse | undefined;
+
+        if (!json || !this.isValidJSONRPCResponse(reply.body)) {
+          answer.failure = `HTTP ${reply.status}`;
+          return;
+        }
+
+        delete answer.failure;
+        // Errors are reported with the answers but only results can agree
+        const key = normalizeQuorumAnswer(chainConfig, json);
+        if (key === null) {
+          answer.error = json.error;
+          return;
+        }
+        answer.result = json.result;
+        RPCSelector.recordResponseTime(rpc.url, reply.duration);
+        const group = [...(groups.get(key) ?? []), reply];
+        groups.set(key, group);
+        if (group.length >= policy.required) {
+          resolveAgreement(group[0]);
+        }
+      } catch (error) {
+        answer.failure = error instanceof Error ? error.message : 'Unknown error';
+      }
+    });
+
+    const completed = Promise.all(calls).then(() => {
+      resolveAgreement(null);
+      if (groups.size > 1 || (groups.size > 0 && answers.some(answer => answer.error))) {
+        this.logger.warn('Quorum disagreement', {
+          requestId,
+          chainId,
+          method: request.method,
+          required: policy.required,
+          answers
+        });
+      }
+    });
+
+    const reply = await agreement;
+    // Agreement doesn't wait for slower endpoints, but a disagreement among them is still logged
+    ctx?.waitUntil(completed);
+
+    if (reply) {
+      return { response: { ...(reply.json as JSONRPCResponse), id: request.id }, reply };
+    }
+
+    this.logger.error('Quorum not reached', {
+      requestId,
+      chainId,
+      method: request.method,
+      required: policy.required,
+      answers
+    });
+    return {
+      response: this.buildErrorPayload(
+        APP_CONSTANTS.JSON_RPC_ERRORS.QUORUM_NOT_REACHED,
+        'RPC endpoints did not agree on a result',
+        request.id,
+        { required: policy.required, of: policy.of, answers }
+      )
+    };
+  }
+
+  /**
+   * Pick up to `count` endpoints for a fan-out call
+   * Highest priority first, skipping endpoints whose circuit refuses the request
+   */
+  private async selectTargets(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    selection: RPCSelectionOptions | undefined,
+    count: number
+  ): Promise<RPCEndpoint[]> {
+    const candidates = [...RPCSelector.getCandidateRPCs(chainConfig, selection)]
+      .sort((a, b) => b.priority - a.priority);
+    const targets: RPCEndpoint[] = [];
+    for (const rpc of candidates) {
+      if (targets.length >= count) {
+        break;
+      }
+      if (await this.circuitBreaker.allowRequest(chainId, rpc.url)) {
+        targets.push(rpc);
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Check that an upstream body is a JSON-RPC response (result or error)
+   */
+  private isValidJSONRPCResponse(body: string): boolean {
+    try {
+      const parsed = JSON.parse(body);
+      return parsed && parsed.jsonrpc === '2.0' && ('result' in parsed || 'error' in parsed);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build endpoint selection inputs: runtime health plus endpoints with an open circuit
+   */
+  private async getSelectionOptions(chainId: number | string): Promise<RPCSelectionOptions> {
+    const [health, openURLs] = await Promise.all([
+      this.healthService.getHealthStates(),
+      this.circuitBreaker.getOpenURLs(chainId)
+    ]);
+
+    return { health, exclude: openURLs };
+  }
+
+  /**
+   * Select an endpoint whose circuit lets the request through, away from the one that just failed
+   * Endpoints the breaker refuses (e.g. a half-open trial is already in flight) are excluded
+   */
+  private async selectRPC(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    selection: RPCSelectionOptions,
+    failedRPCUrl: string | null = null
+  ): Promise<RPCEndpoint | null> {
+    for (;;) {
+      const rpc = failedRPCUrl
+        ? RPCSelector.getFailoverRPC(chainConfig, failedRPCUrl, selection)
+        : RPCSelector.selectRPC(chainConfig, selection);
+      if (!rpc || await this.circuitBreaker.allowRequest(chainId, rpc.url)) {
+        return rpc;
+      }
+      selection.exclude = [...(selection.exclude || []), rpc.url];
+    }
+  }
+
+  /**
+   * Call an upstream endpoint and feed the outcome to its circuit breaker
+   * Network errors, timeouts, 5xx and 429 count as failures; JSON-RPC errors do not
+   */
+  private async callUpstream(
+    chainId: number | string,
+    rpc: RPCEndpoint,
+    payload: unknown,
+    requestId?: string,
+    signal?: AbortSignal
+  ): Promise<UpstreamCallResult> {
+    let result: UpstreamCallResult;
+    try {
+      result = await this.upstreamClient.call(rpc, payload, { requestId, signal });
+    } catch (error) {
+      // Aborting the losing side of a hedge says nothing about the endpoint
+      if (signal?.aborted) {
+        throw error;
       }
 
-      const response = await fetch(selectedRPC.url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(request),
-        signal: controller.signal,
+      await this.circuitBreaker.recordFailure(
+        chainId,
+        rpc.url,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw error;
+    }
+
+    if (result.status >= 500 || result.status === 429) {
+      await this.circuitBreaker.recordFailure(chainId, rpc.url, `HTTP ${result.status}`);
+    } else {
+      await this.circuitBreaker.recordSuccess(chainId, rpc.url);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether a result shows a lower head than the session has already been served
+   */
+  private isBehindSession(
+    state: SessionState | undefined,
+    chainConfig: ChainConfig,
+    request: JSONRPCRequest,
+    result: unknown
+  ): boolean {
+    if (!state) {
+      return false;
+    }
+
+    const height = getResponseHeight(chainConfig, request, result);
+    return height !== undefined && height < state.height;
+  }
+
+  /**
+   * Record the head a result shows as served to the session
+   */
+  private async observeSession(
+    session: string | null | undefined,
+    chainConfig: ChainConfig,
+    request: JSONRPCRequest,
+    result: unknown,
+    rpcUrl?: string
+  ): Promise<void> {
+    const height = session ? getResponseHeight(chainConfig, request, result) : undefined;
+    if (session && height !== undefined) {
+      await this.sessionTracker.observe(session, height, rpcUrl);
+    }
+  }
+
+  /**
+   * Answer a request from a cache entry
+   * X-Cache reports the tier for fresh hits and STALE otherwise; Age is the entry's age in seconds
+   */
+  private createCachedResponse(
+    hit: CacheHit,
+    chainId: number | string,
+    request: JSONRPCRequest,
+    requestId: string,
+    origin: string | null,
+    attempts?: string[]
+  ): Response {
+    const headers = new Headers();
+    headers.set('Content-Type', 'application/json');
+    headers.set('X-Request-ID', requestId);
+    headers.set('X-Cache', hit.stale ? 'STALE' : `HIT-${hit.tier}`);
+    headers.set('Age', String(hit.age));
+    if (attempts?.length) {
+      headers.set('X-RPC-Attempts', attempts.join(', '));
+    }
+
+    if (hit.stale) {
+      this.metricsService.recordCacheEvent(chainId, request.method, 'stale');
+    }
+
+    const response = new Response(JSON.stringify({ ...hit.value, id: request.id }), {
+      status: 200,
+      headers
+    });
+
+    // Add CORS headers if enabled
+    return this.corsHandler ? this.corsHandler.addCORSHeaders(response, origin) : response;
+  }
+
+  /**
+   * Store a successful upstream response in the cache for as long as the cache policy allows
+   */
+  private async cacheResponse(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    request: JSONRPCRequest,
+    response: JSONRPCResponse,
+    head?: number,
+    requestId?: string
+  ): Promise<void> {
+    if (!this.cacheService) {
+      return;
+    }
+
+    // Seen blocks feed reorg detection even when this response itself is not cached
+    const blocks = CachePolicy.getBlockDependencies({ chainConfig, head }, response.result);
+    await this.cacheService.observeBlocks(chainId.toString(), blocks);
+
+    const ttl = CachePolicy.getTTL({ chainConfig, head }, request, response.result);
+    if (ttl <= 0) {
+      return;
+    }
+
+    const cacheParams = CachePolicy.getCacheKeyParams({ chainConfig }, request);
+    const cacheSetStartTime = Date.now();
+    await this.cacheService.cacheRPCResponse(
+      chainId.toString(),
+      request.method,
+      cacheParams,
+      response,
+      ttl,
+      CachePolicy.getStaleTTL({ chainConfig }, request),
+      blocks
+    );
+
+    const cacheSetDuration = Date.now() - cacheSetStartTime;
+    const cacheKey = generateCacheKey(chainId, request.method, cacheParams);
+    this.logger.logCacheOperation('set', cacheKey, 'proxy-service', cacheSetDuration, requestId);
+
+    this.logger.debug('Response cached', {
+      requestId,
+      method: request.method,
+      chainId,
+      ttl
+    });
+  }
+
+  /**
+   * Handle a JSON-RPC batch request
+   * Entries are validated individually, cacheable entries are answered from cache and
+   * the remainder is forwarded upstream; responses keep the original batch order
+   */
+  private async handleBatchRequest(
+    request: Request,
+    entries: unknown[],
+    requestId: string,
+    startTime: number,
+    origin: string | null,
+    ctx?: ExecutionContext
+  ): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (entries.length === 0) {
+      return this.createErrorResponse(
+        APP_CONSTANTS.JSON_RPC_ERRORS.INVALID_REQUEST,
+        'Invalid Request',
+        null,
+        requestId,
+        origin
+      );
+    }
+
+    if (entries.length > APP_CONSTANTS.BATCH.MAX_SIZE) {
+      this.logger.warn('Batch request too large', { requestId, size: entries.length });
+      return this.createErrorResponse(
+        APP_CONSTANTS.JSON_RPC_ERRORS.INVALID_REQUEST,
+        `Batch size exceeds limit of ${APP_CONSTANTS.BATCH.MAX_SIZE}`,
+        null,
+        requestId,
+        origin
+      );
+    }
+
+    const responses: JSONRPCResponse[] = new Array(entries.length);
+    const validEntries: { index: number; request: JSONRPCRequest }[] = [];
+    // Notifications (no id) are forwarded like requests but get no entry in the response
+    const notifications = new Set<number>();
+
+    entries.forEach((entry, index) => {
+      if (this.isValidJSONRPC(entry)) {
+        validEntries.push({ index, request: entry });
+      } else if (this.isJSONRPCNotification(entry)) {
+        notifications.add(index);
+        validEntries.push({ index, request: { ...(entry as object), id: null } as unknown as JSONRPCRequest });
+      } else {
+        responses[index] = this.buildErrorPayload(
+          APP_CONSTANTS.JSON_RPC_ERRORS.INVALID_REQUEST,
+          'Invalid Request',
+          this.extractEntryId(entry)
+        );
+      }
+    });
+
+    const chainId = this.extractChainId(request, validEntries[0]?.request);
+    const chainConfig = chainId ? await this.configService.getChainConfig(chainId) : null;
+    let cacheHits = 0;
+    // Stale entries served for entries whose upstream call failed, and the oldest one's age
+    let staleHits = 0;
+    let staleAge = 0;
+    const attempts: string[] = [];
+
+    if (!chainId || !chainConfig) {
+      this.logger.warn('Chain configuration not found for batch', { requestId, chainId });
+      for (const { index, request: entry } of validEntries) {
+        responses[index] = this.buildErrorPayload(ErrorCode.CHAIN_NOT_SUPPORTED, 'Chain not supported', entry.id);
+      }
+    } else if (!RPCSelector.hasHealthyRPCs(chainConfig)) {
+      this.logger.error('No healthy RPCs available', { requestId, chainId });
+      for (const { index, request: entry } of validEntries) {
+        responses[index] = this.buildErrorPayload(ErrorCode.NO_HEALTHY_RPCS, 'No healthy RPCs available', entry.id);
+      }
+    } else {
+      // Entries rejected by the method policy get their own error
+      const allowedEntries = validEntries.filter(({ index, request: entry }) => {
+        if (isMethodAllowed(chainConfig, entry.method)) {
+          return true;
+        }
+        this.logger.warn('Method rejected by chain method policy', { requestId, chainId, method: entry.method });
+        responses[index] = this.buildErrorPayload(
+          APP_CONSTANTS.JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          'Method not found',
+          entry.id
+        );
+        return false;
       });
 
-      clearTimeout(timeoutId);
+      // Client sessions of the entries (one per Solana commitment), loaded once per session
+      const sessions = new Map(allowedEntries.map(({ index, request: entry }) =>
+        [index, getSessionKey(request, chainConfig, entry)] as const));
+      const sessionKeys = [...new Set([...sessions.values()].filter((key): key is string => key !== null))];
+      const sessionStates = new Map(await Promise.all(sessionKeys.map(async key =>
+        [key, await this.sessionTracker.get(key)] as const)));
+      const stateOf = (index: number) => sessionStates.get(sessions.get(index) ?? '');
+
+      // Answer what we can from cache
+      const pending: { index: number; request: JSONRPCRequest }[] = [];
+      const staleEntries = new Map<number, CacheHit>();
+      const cachedResponses = await Promise.all(allowedEntries.map(({ index, request: entry }) =>
+        this.cacheService
+          && !getQuorumPolicy(chainConfig, entry.method)
+          && CachePolicy.isCacheable({ chainConfig }, entry)
+          ? this.cacheService.getCachedRPCResponse(
+            chainId.toString(),
+            entry.method,
+            CachePolicy.getCacheKeyParams({ chainConfig }, entry),
+            value => CachePolicy.satisfiesRequest(entry, value)
+              && !this.isBehindSession(stateOf(index), chainConfig, entry, value.result)
+          )
+          : Promise.resolve(null)
+      ));
+
+      for (const [i, entry] of allowedEntries.entries()) {
+        const cacheKey = generateCacheKey(
+          chainId,
+          entry.request.method,
+          CachePolicy.getCacheKeyParams({ chainConfig }, entry.request)
+        );
+        const cached = cachedResponses[i];
+        if (cached && !cached.stale) {
+          this.logger.logCacheOperation('hit', cacheKey, 'proxy-service', undefined, requestId);
+          await this.observeSession(sessions.get(entry.index), chainConfig, entry.request, cached.value.result);
+          responses[entry.index] = { ...cached.value, id: entry.request.id };
+          cacheHits++;
+        } else {
+          if (this.cacheService) {
+            this.logger.logCacheOperation('miss', cacheKey, 'proxy-service', undefined, requestId);
+          }
+          if (cached) {
+            // A stale entry stands in when the entry's upstream call fails
+            staleEntries.set(entry.index, cached);
+          }
+          pending.push(entry);
+        }
+      }
 
-      // Validate response is JSON-RPC
-      if (response.headers.get('content-type')?.includes('application/json')) {
-        const responseText = await response.text();
-        try {
-          const jsonResponse = JSON.parse(responseText);
-          // Basic JSON-RPC response validation
-          if (jsonResponse.jsonrpc === '2.0' && 'id' in jsonResponse) {
-            // Cache successful response if cache service is available
-            if (this.cacheService && !jsonResponse.error) {
-              const cacheSetStartTime = Date.now();
-              await this.cacheService.cacheRPCResponse(
-                context.chainId.toString(),
-                context.request.method,
-                context.request.params || [],
-                jsonResponse
-              );
-
-              const cacheSetDuration = Date.now() - cacheSetStartTime;
-              const cacheKey = generateCacheKey(context.chainId, context.request.method, context.request.params || []);
-              this.logger.logCacheOperation('set', cacheKey, 'proxy-service', cacheSetDuration, context.requestId);
-
-              this.logger.debug('Response cached', {
-                requestId: context.requestId,
-                method: context.request.method,
-                chainId: context.chainId
-              });
+      const selection = pending.length > 0 ? await this.getSelectionOptions(chainId) : {};
+      const head = getChainHead(chainConfig, selection.health);
+      const forwardable = pending.filter(({ index, request: entry }) => {
+        const required = getRequiredCapabilities(chainConfig, entry, head);
+        if (RPCSelector.hasCapableRPCs(chainConfig, required)) {
+          return true;
+        }
+        responses[index] = this.buildErrorPayload(
+          ErrorCode.NO_CAPABLE_RPCS,
+          this.getNoCapableRPCsMessage(required),
+          entry.id,
+          { requiredCapabilities: required }
+        );
+        return false;
+      });
+
+      // Quorum reads and transactions are sent the way single requests are;
+      // the rest of the batch goes upstream together
+      const quorumEntries = forwardable.filter(({ request: entry }) => getQuorumPolicy(chainConfig, entry.method));
+      const transactionEntries = forwardable.filter(({ request: entry }) =>
+        !getQuorumPolicy(chainConfig, entry.method) && this.isBatchSubmission(chainConfig, entry.method));
+      const batchable = forwardable.filter(entry => !quorumEntries.includes(entry) && !transactionEntries.includes(entry));
+
+      await Promise.all(quorumEntries.map(async ({ index, request: entry }) => {
+        const context: ProxyContext = {
+          chainId,
+          request: entry,
+          selection: { ...selection, require: getRequiredCapabilities(chainConfig, entry, head) },
+          attempts,
+          startTime: Date.now(),
+          requestId
+        };
+        const { response } = await this.resolveQuorum(context, chainConfig, getQuorumPolicy(chainConfig, entry.method)!, ctx);
+        responses[index] = response;
+      }));
+
+      await Promise.all(transactionEntries.map(async ({ index, request: entry }) => {
+        const context: ProxyContext = {
+          chainId,
+          request: entry,
+          selection: { ...selection, require: getRequiredCapabilities(chainConfig, entry, head) },
+          attempts: [],
+          startTime: Date.now(),
+          requestId
+        };
+        const response = await this.submitBatchEntry(context, chainConfig, ctx);
+        attempts.push(...(context.attempts ?? []));
+        responses[index] = await this.toBatchResponse(response, entry.id);
+      }));
+
+      if (batchable.length > 0) {
+        // The batch goes where the most advanced of its sessions may go
+        const sessionState = batchable
+          .map(({ index }) => stateOf(index))
+          .reduce<SessionState | undefined>((highest, state) =>
+            state && (!highest || state.height > highest.height) ? state : highest, undefined);
+        // Stale-if-error: every endpoint failed, so the last good answer beats an error
+        const serveStale = (index: number, entry: JSONRPCRequest, stale: CacheHit) => {
+          this.logger.warn('All RPC endpoints failed, serving stale cache entry', {
+            requestId,
+            chainId,
+            method: entry.method,
+            age: stale.age
+          });
+          this.metricsService.recordCacheEvent(chainId, entry.method, 'stale');
+          responses[index] = { ...stale.value, id: entry.id };
+          staleHits++;
+          staleAge = Math.max(staleAge, stale.age);
+        };
+        const failed = new Set<number>();
+        const upstreamResponses = await this.forwardBatch(
+          chainId,
+          chainConfig,
+          batchable.map(entry => entry.request),
+          sessionState ? { ...selection, minHeight: sessionState.height, pinned: sessionState.rpcUrl } : selection,
+          requestId,
+          attempts,
+          failed
+        );
+
+        await Promise.all(batchable.map(async ({ index, request: entry }, i) => {
+          const response = upstreamResponses[i];
+          const session = sessions.get(index);
+          const state = stateOf(index);
+          const stale = staleEntries.get(index);
+          if (failed.has(i) && stale) {
+            serveStale(index, entry, stale);
+          } else if (!session || response.error) {
+            responses[index] = response;
+          } else if (state && this.isBehindSession(state, chainConfig, entry, response.result)) {
+            // An entry answered from behind its session's head is retried alone, the way single requests are
+            const context: ProxyContext = {
+              chainId,
+              request: entry,
+              selection: {
+                ...selection,
+                require: getRequiredCapabilities(chainConfig, entry, head),
+                minHeight: state.height,
+                pinned: state.rpcUrl
+              },
+              attempts: [],
+              startTime: Date.now(),
+              requestId,
+              session,
+              sessionState: state
+            };
+            const retried = await this.proxyWithRetries(context, chainConfig);
+            attempts.push(...(context.attempts ?? []));
+            if (!retried.ok && stale) {
+              serveStale(index, entry, stale);
+            } else {
+              responses[index] = await this.toBatchResponse(retried, entry.id);
             }
+          } else {
+            await this.observeSession(session, chainConfig, entry, response.result);
+            responses[index] = response;
+          }
+        }));
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    this.logger.logResponse(request.method, url.pathname, HttpStatusCode.OK, duration, requestId, {
+      batchSize: entries.length,
+      cacheHits
+    });
 
-            // Log successful external call
-            const callDuration = Date.now() - callStartTime;
-            this.logger.logExternalCall(
-              selectedRPC.name,
-              'rpc-call',
-              selectedRPC.url,
-              'POST',
-              response.status,
-              callDuration,
-              context.requestId,
-              true
-            );
-
-            return new Response(responseText, {
-              status: response.status,
-              headers: response.headers,
-            });
+    this.metricsService.recordUsage(
+      url.pathname,
+      request.method,
+      chainId || 'unknown',
+      duration,
+      HttpStatusCode.OK,
+      request.headers.get('user-agent') || undefined,
+      request.headers.get('cf-connecting-ip') || undefined
+    );
+
+    this.metricsService.recordPerformance(
+      'proxy-batch-request',
+      duration,
+      true,
+      'proxy-service',
+      { chainId, batchSize: entries.length, cacheHits }
+    );
+
+    const headers = new Headers();
+    headers.set('Content-Type', 'application/json');
+    headers.set('X-Request-ID', requestId);
+    if (attempts.length > 0) {
+      // Split batches try endpoints per entry in parallel; list each endpoint once
+      headers.set('X-RPC-Attempts', [...new Set(attempts)].join(', '));
+    }
+    if (this.cacheService && staleHits > 0) {
+      // As for single requests, STALE with the age in seconds of the oldest stale entry served
+      headers.set('X-Cache', 'STALE');
+      headers.set('Age', String(staleAge));
+    } else if (this.cacheService) {
+      const cacheStatus = cacheHits === 0 ? 'MISS' : cacheHits === validEntries.length ? 'HIT' : 'PARTIAL';
+      headers.set('X-Cache', cacheStatus);
+    }
+
+    // A batch of notifications only is answered with nothing at all
+    const answered = responses.filter((_, index) => !notifications.has(index));
+    const response = answered.length > 0
+      ? new Response(JSON.stringify(answered), { status: HttpStatusCode.OK, headers })
+      : new Response(null, { status: HttpStatusCode.NO_CONTENT, headers });
+
+    return this.corsHandler ? this.corsHandler.addCORSHeaders(response, origin) : response;
+  }
+
+  /**
+   * Forward batch entries upstream as a single batch call
+   * Falls back to one call per entry when the upstream does not accept batches;
+   * positions whose upstream call failed are added to `failed`
+   */
+  private async forwardBatch(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    requests: JSONRPCRequest[],
+    selection: RPCSelectionOptions,
+    requestId: string,
+    attempts: string[],
+    failed: Set<number>
+  ): Promise<JSONRPCResponse[]> {
+    // The whole batch goes to one endpoint, which needs every capability any entry needs
+    const head = getChainHead(chainConfig, selection.health);
+    const required = [...new Set(requests.flatMap(entry => getRequiredCapabilities(chainConfig, entry, head)))];
+    if (!RPCSelector.hasCapableRPCs(chainConfig, required)) {
+      return this.forwardSplitBatch(chainId, chainConfig, requests, selection, requestId, attempts, failed);
+    }
+    selection = { ...selection, require: required };
+
+    // Upstream ids are rewritten to batch positions so duplicate client ids stay unambiguous
+    const payload = requests.map((entry, index) => ({ ...entry, id: index }));
+
+    let selectedRPC: RPCEndpoint;
+    let result: UpstreamCallResult;
+    try {
+      ({ selectedRPC, result } = await this.runWithFailover(
+        chainId,
+        chainConfig,
+        selection,
+        attempts,
+        requestId,
+        async rpc => {
+          const result = await this.callUpstream(chainId, rpc, payload, requestId);
+          // Server errors and rate limits are worth another endpoint, not a split into N calls
+          if (!Array.isArray(result.json) && (result.status >= 500 || result.status === 429)) {
+            throw new Error(`RPC batch call failed with status: ${result.status}`);
           }
-        } catch (parseError) {
-          this.logger.warn('Invalid JSON response from RPC', {
-            requestId: context.requestId,
-            rpcUrl: selectedRPC.url,
-            parseError: parseError instanceof Error ? parseError.message : 'Unknown error'
-          });
+          return { selectedRPC: rpc, result };
         }
+      ));
+    } catch (error) {
+      const lastError = error instanceof Error ? error : new Error('Unknown error');
+
+      this.logger.error('All RPC batch attempts failed', {
+        requestId,
+        chainId,
+        attempts,
+        finalError: lastError.message
+      });
+
+      requests.forEach((_, index) => failed.add(index));
+      return requests.map(entry => this.buildErrorPayload(
+        APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR,
+        lastError.message || 'All RPC endpoints failed',
+        entry.id
+      ));
+    }
+
+    if (!Array.isArray(result.json) && this.isBatchUnsupported(result)) {
+      this.logger.info('Upstream does not accept batch requests, splitting', {
+        requestId,
+        chainId,
+        rpcUrl: selectedRPC.url,
+        status: result.status
+      });
+      return this.forwardSplitBatch(chainId, chainConfig, requests, selection, requestId, attempts, failed);
+    }
+
+    if (!Array.isArray(result.json)) {
+      // Any other non-batch answer (e.g. a JSON-RPC error for the whole batch) applies to every entry
+      const error = (result.json as JSONRPCResponse | undefined)?.error;
+      this.logger.warn('Upstream answered batch request with a single response', {
+        requestId,
+        chainId,
+        rpcUrl: selectedRPC.url,
+        status: result.status,
+        error: error?.message
+      });
+      if (!error) {
+        requests.forEach((_, index) => failed.add(index));
       }
+      return requests.map(entry => error
+        ? this.buildErrorPayload(error.code, error.message, entry.id, error.data)
+        : this.buildErrorPayload(
+          APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR,
+          `Invalid batch response from upstream (status: ${result.status})`,
+          entry.id
+        ));
+    }
 
+    RPCSelector.recordResponseTime(selectedRPC.url, result.duration);
+
+    const byPosition = new Map<number, JSONRPCResponse>();
+    for (const item of result.json) {
+      if (item && typeof item === 'object' && typeof item.id === 'number') {
+        byPosition.set(item.id, item);
+      }
+    }
+
+    return Promise.all(requests.map(async (entry, index) => {
+      const upstreamResponse = byPosition.get(index);
+      if (!upstreamResponse) {
+        failed.add(index);
+        return this.buildErrorPayload(
+          APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR,
+          'No response from upstream for this request',
+          entry.id
+        );
+      }
+
+      const response = { ...upstreamResponse, id: entry.id };
+      if (!response.error) {
+        await this.cacheResponse(chainId, chainConfig, entry, response, head, requestId);
+      }
       return response;
+    }));
+  }
 
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      // Log failed external call
-      const callDuration = Date.now() - callStartTime;
-      this.logger.logExternalCall(
-        selectedRPC.name,
-        'rpc-call',
-        selectedRPC.url,
-        'POST',
-        undefined,
-        callDuration,
-        context.requestId,
-        false
-      );
+  /**
+   * Check whether an upstream's answer to a batch shows it doesn't accept batches at all:
+   * an Invalid Request / Parse error for the array, an error naming batches, or a
+   * client-error status without a JSON-RPC body
+   */
+  private isBatchUnsupported(result: UpstreamCallResult): boolean {
+    const error = (result.json as JSONRPCResponse | undefined)?.error;
+    if (error) {
+      const codes: readonly number[] = APP_CONSTANTS.BATCH.UNSUPPORTED_ERROR_CODES;
+      return codes.includes(error.code) || /batch/i.test(error.message || '');
+    }
+
+    const statuses: readonly number[] = APP_CONSTANTS.BATCH.UNSUPPORTED_STATUSES;
+    return statuses.includes(result.status);
+  }
+
+  /**
+   * Forward batch entries one by one through the regular retry path
+   */
+  private async forwardSplitBatch(
+    chainId: number | string,
+    chainConfig: ChainConfig,
+    requests: JSONRPCRequest[],
+    selection: RPCSelectionOptions,
+    requestId: string,
+    attempts: string[],
+    failed: Set<number>
+  ): Promise<JSONRPCResponse[]> {
+    const head = getChainHead(chainConfig, selection.health);
+
+    return Promise.all(requests.map(async (entry, index) => {
+      const context: ProxyContext = {
+        chainId,
+        request: entry,
+        selection: { ...selection, require: getRequiredCapabilities(chainConfig, entry, head) },
+        attempts,
+        startTime: Date.now(),
+        requestId
+      };
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new TimeoutError(`Request timeout after ${selectedRPC.timeout}ms`);
+      const response = await this.proxyWithRetries(context, chainConfig);
+      if (!response.ok) {
+        failed.add(index);
       }
+      return this.toBatchResponse(response, entry.id);
+    }));
+  }
 
-      throw error;
+  /**
+   * Whether a batch entry submits a transaction, which is sent on its own like a single request
+   * so transaction handling (idempotency record, broadcast, Solana rebroadcast) applies to it
+   */
+  private isBatchSubmission(chainConfig: ChainConfig, method: string): boolean {
+    return method === APP_CONSTANTS.TRANSACTIONS.SUBMIT_METHOD
+      || (getRebroadcastPolicy(chainConfig, method) !== null && this.rebroadcaster.isAvailable());
+  }
+
+  /**
+   * Submit a transaction entry of a batch
+   */
+  private async submitBatchEntry(
+    context: ProxyContext,
+    chainConfig: ChainConfig,
+    ctx?: ExecutionContext
+  ): Promise<Response> {
+    return context.request.method === APP_CONSTANTS.TRANSACTIONS.SUBMIT_METHOD
+      ? this.submitTransaction(context, chainConfig, ctx)
+      : this.submitSolanaTransaction(context, chainConfig);
+  }
+
+  /**
+   * Turn the response to a single request into a batch entry answering `id`
+   */
+  private async toBatchResponse(response: Response, id: JSONRPCRequest['id']): Promise<JSONRPCResponse> {
+    const text = await response.text();
+
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && parsed.jsonrpc === '2.0') {
+        return { ...parsed, id } as JSONRPCResponse;
+      }
+
+      // Non JSON-RPC body (e.g. the proxy's own error envelope)
+      return this.buildErrorPayload(
+        APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR,
+        parsed?.error?.message || `Upstream request failed with status: ${response.status}`,
+        id
+      );
+    } catch {
+      return this.buildErrorPayload(
+        APP_CONSTANTS.JSON_RPC_ERRORS.INTERNAL_ERROR,
+        `Invalid response from upstream (status: ${response.status})`,
+        id
+      );
     }
   }
 
-  private extractChainId(request: Request, jsonRPCRequest: JSONRPCRequest): number | string | null {
+  /**
+   * Error message for requests no configured endpoint can serve
+   */
+  private getNoCapableRPCsMessage(required: RPCCapability[]): string {
+    return `No RPC endpoint supports this request (requires: ${required.join(', ')})`;
+  }
+
+  /**
+   * Best-effort id extraction from an invalid batch entry
+   */
+  private extractEntryId(entry: unknown): string | number | null {
+    if (entry && typeof entry === 'object' && 'id' in entry) {
+      const id = (entry as { id: unknown }).id;
+      if (typeof id === 'string' || typeof id === 'number') {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  private extractChainId(request: Request, jsonRPCRequest?: JSONRPCRequest): number | string | null {
     const url = new URL(request.url);
 
     // Try to extract from URL path (e.g., /rpc/1, /1, /sol-dev, /sol-main)
@@ -479,7 +1926,7 @@ export class ProxyService {
     }
 
     // Try to extract from JSON-RPC params (if method supports it)
-    if (jsonRPCRequest.params && Array.isArray(jsonRPCRequest.params)) {
+    if (jsonRPCRequest?.params && Array.isArray(jsonRPCRequest.params)) {
       // Some methods might include chainId in params
       for (const param of jsonRPCRequest.params) {
         if (typeof param === 'object' && param !== null && 'chainId' in param) {
@@ -512,13 +1959,22 @@ export class ProxyService {
     );
   }
 
-  private createErrorResponse(
-    code: ErrorCode | number,
-    message: string,
-    id: any,
-    requestId?: string,
-    origin?: string | null
-  ): Response {
+  /**
+   * A JSON-RPC notification: a request without an id, which gets no response
+   */
+  private isJSONRPCNotification(request: any): boolean {
+    return (
+      request &&
+      typeof request === 'object' &&
+      !Array.isArray(request) &&
+      request.jsonrpc === '2.0' &&
+      typeof request.method === 'string' &&
+      request.method.length > 0 &&
+      !('id' in request)
+    );
+  }
+
+  private buildErrorPayload(code: ErrorCode | number, message: string, id: any, data?: any): JSONRPCResponse {
     const errorResponse: JSONRPCResponse = {
       jsonrpc: '2.0',
       error: {
@@ -528,6 +1984,23 @@ export class ProxyService {
       id,
     };
 
+    if (data !== undefined) {
+      errorResponse.error!.data = data;
+    }
+
+    return errorResponse;
+  }
+
+  private createErrorResponse(
+    code: ErrorCode | number,
+    message: string,
+    id: any,
+    requestId?: string,
+    origin?: string | null,
+    data?: any
+  ): Response {
+    const errorResponse = this.buildErrorPayload(code, message, id, data);
+
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
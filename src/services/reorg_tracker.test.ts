@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ReorgTracker } from './reorg_tracker';
+import { APP_CONSTANTS } from '../constants';
+import { Logger, LogLevel } from '../utils/logger';
+import { createKV } from '../testing/fakes';
+
+const { WINDOW } = APP_CONSTANTS.REORG;
+const hash = (byte: string) => `0x${byte.repeat(64)}`;
+
+// Windows and orphan snapshots are shared by the isolate, so each test uses its own chain
+function createTracker() {
+  const kv = createKV();
+  return { kv, tracker: new ReorgTracker(kv, 'test', new Logger(LogLevel.ERROR)) };
+}
+
+describe('ReorgTracker', () => {
+  it('flags blocks replaced at a height seen before and records them in KV', async () => {
+    const { kv, tracker } = createTracker();
+    await tracker.observe('reorg-1', [{ number: 100, hash: hash('a') }]);
+
+    expect(await tracker.isOrphaned('reorg-1', [{ number: 100, hash: hash('a') }])).toBe(false);
+
+    await tracker.observe('reorg-1', [{ number: 100, hash: hash('b') }]);
+
+    expect(await tracker.isOrphaned('reorg-1', [{ number: 100, hash: hash('a') }])).toBe(true);
+    expect(await tracker.isOrphaned('reorg-1', [{ number: 100, hash: hash('b') }])).toBe(false);
+    expect(JSON.parse(kv.store.get('test:reorgs:reorg-1') as string)).toHaveProperty(hash('a'));
+  });
+
+  it('rejects entries whose block another isolate saw replaced', async () => {
+    const { kv, tracker } = createTracker();
+    await kv.put('test:reorgs:reorg-2', JSON.stringify({ [hash('c')]: { number: 7, detectedAt: Date.now() } }));
+
+    expect(await tracker.isOrphaned('reorg-2', [{ number: 7, hash: hash('c') }])).toBe(true);
+    expect(await tracker.isOrphaned('reorg-2', [])).toBe(false);
+  });
+
+  it('forgets heights that have fallen out of the window', async () => {
+    const { kv, tracker } = createTracker();
+    await tracker.observe('reorg-3', [{ number: 1, hash: hash('a') }]);
+    await tracker.observe('reorg-3', [{ number: 2 + WINDOW, hash: hash('d') }]);
+
+    await tracker.observe('reorg-3', [{ number: 1, hash: hash('b') }]);
+
+    expect(await tracker.isOrphaned('reorg-3', [{ number: 1, hash: hash('a') }])).toBe(false);
+    expect(kv.store.size).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { BlockDependency } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+const { WINDOW, ORPHAN_RETENTION, STATE_TTL } = APP_CONSTANTS.REORG;
+
+// Orphaned block hashes of one chain, with their height and when the reorg was seen
+type OrphanedBlocks = Record<string, { number: number; detectedAt: number }>;
+
+/**
+ * Reorg tracker
+ * Remembers the block hash seen at each recent height of a chain. A different hash at a known
+ * height means the chain reorganized: the replaced block is recorded as orphaned in KV, and cache
+ * entries read from an orphaned block are rejected by every isolate.
+ */
+export class ReorgTracker {
+  // Per-isolate hash seen at each recent height, per chain
+  private static windows: Map<string, Map<number, string>> = new Map();
+  // Per-isolate copies of the orphan lists stored in KV
+  private static snapshots: Map<string, { orphans: OrphanedBlocks; fetchedAt: number }> = new Map();
+
+  private kv: KVNamespace;
+  private keyPrefix: string;
+  private logger: Logger;
+
+  constructor(kv: KVNamespace, keyPrefix: string, logger: Logger) {
+    this.kv = kv;
+    this.keyPrefix = keyPrefix;
+    this.logger = logger;
+  }
+
+  /**
+   * Record the blocks seen in an upstream response, detecting reorgs at heights seen before
+   */
+  async observe(chainId: string, blocks: BlockDependency[]): Promise<void> {
+    if (blocks.length === 0) {
+      return;
+    }
+
+    const window = this.getWindow(chainId);
+    const orphaned: BlockDependency[] = [];
+
+    for (const block of blocks) {
+      const known = window.get(block.number);
+      if (known !== undefined && known !== block.hash) {
+        orphaned.push({ number: block.number, hash: known });
+      }
+      window.set(block.number, block.hash);
+    }
+
+    // Forget heights that have fallen out of the window
+    const highest = Math.max(...window.keys());
+    for (const height of window.keys()) {
+      if (highest - height > WINDOW) {
+        window.delete(height);
+      }
+    }
+
+    if (orphaned.length > 0) {
+      this.logger.warn('Chain reorg detected', { chainId, orphaned });
+      await this.recordOrphans(chainId, orphaned);
+    }
+  }
+
+  /**
+   * Check whether any of the blocks a cache entry was read from has been reorged out
+   */
+  async isOrphaned(chainId: string, blocks: BlockDependency[]): Promise<boolean> {
+    if (blocks.length === 0) {
+      return false;
+    }
+
+    const window = ReorgTracker.windows.get(chainId);
+    const replaced = blocks.some(block => {
+      const known = window?.get(block.number);
+      return known !== undefined && known !== block.hash;
+    });
+    if (replaced) {
+      return true;
+    }
+
+    const orphans = await this.getOrphans(chainId);
+    return blocks.some(block => orphans[block.hash] !== undefined);
+  }
+
+  private getWindow(chainId: string): Map<number, string> {
+    let window = ReorgTracker.windows.get(chainId);
+    if (!window) {
+      window = new Map();
+      ReorgTracker.windows.set(chainId, window);
+    }
+    return window;
+  }
+
+  private getKey(chainId: string): string {
+    return `${this.keyPrefix}:reorgs:${chainId}`;
+  }
+
+  /**
+   * Load the chain's orphan list, reusing the isolate copy while it is fresh
+   */
+  private async getOrphans(chainId: string, refresh: boolean = false): Promise<OrphanedBlocks> {
+    const snapshot = ReorgTracker.snapshots.get(chainId);
+    if (!refresh && snapshot && Date.now() - snapshot.fetchedAt < STATE_TTL * 1000) {
+      return snapshot.orphans;
+    }
+
+    let orphans: OrphanedBlocks = {};
+    try {
+      orphans = await this.kv.get<OrphanedBlocks>(this.getKey(chainId), 'json') || {};
+    } catch (error) {
+      this.logger.warn('Failed to load orphaned blocks', {
+        chainId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (snapshot) {
+        return snapshot.orphans;
+      }
+    }
+
+    ReorgTracker.snapshots.set(chainId, { orphans, fetchedAt: Date.now() });
+    return orphans;
+  }
+
+  private async recordOrphans(chainId: string, blocks: BlockDependency[]): Promise<void> {
+    try {
+      const orphans = { ...await this.getOrphans(chainId, true) };
+      const now = Date.now();
+
+      for (const block of blocks) {
+        orphans[block.hash] = { number: block.number, detectedAt: now };
+      }
+      for (const [hash, orphan] of Object.entries(orphans)) {
+        if (now - orphan.detectedAt > ORPHAN_RETENTION * 1000) {
+          delete orphans[hash];
+        }
+      }
+
+      await this.kv.put(this.getKey(chainId), JSON.stringify(orphans), { expirationTtl: ORPHAN_RETENTION });
+      ReorgTracker.snapshots.set(chainId, { orphans, fetchedAt: now });
+    } catch (error) {
+      this.logger.error('Failed to record orphaned blocks', {
+        chainId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
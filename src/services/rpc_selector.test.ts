@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { RPCSelector } from './rpc_selector';
+import { ChainConfig, RPCEndpoint, RPCHealthStateMap } from '../types';
+import { getRPCHealthKey } from '../utils/chain';
+
+const rpc = (url: string, overrides: Partial<RPCEndpoint> = {}): RPCEndpoint =>
+  ({ url, name: url, priority: 1, timeout: 1000, maxRetries: 0, enabled: true, ...overrides });
+
+function chainWith(...rpcs: RPCEndpoint[]): ChainConfig {
+  return { chainId: 1, name: 'Test', symbol: 'ETH', rpcs };
+}
+
+function health(states: Record<string, object>): RPCHealthStateMap {
+  return Object.fromEntries(Object.entries(states).map(([url, state]) => [getRPCHealthKey(1, url), state])) as RPCHealthStateMap;
+}
+
+const urls = (rpcs: RPCEndpoint[]) => rpcs.map(candidate => candidate.url);
+
+describe('RPCSelector.getCandidateRPCs', () => {
+  it('never selects endpoints the operator disabled, whatever their health', () => {
+    const chain = chainWith(rpc('a', { enabled: false }), rpc('b'));
+
+    expect(urls(RPCSelector.getCandidateRPCs(chain, { health: health({ a: { isHealthy: true }, b: { isHealthy: false } }) })))
+      .toEqual(['b']);
+  });
+
+  it('prefers healthy endpoints and treats unchecked ones as healthy', () => {
+    const chain = chainWith(rpc('a'), rpc('b'), rpc('c'));
+
+    expect(urls(RPCSelector.getCandidateRPCs(chain, { health: health({ a: { isHealthy: false }, b: { isHealthy: true } }) })))
+      .toEqual(['b', 'c']);
+  });
+
+  it('falls back to enabled endpoints when none is healthy', () => {
+    const chain = chainWith(rpc('a'), rpc('b'));
+
+    expect(urls(RPCSelector.getCandidateRPCs(chain, { health: health({ a: { isHealthy: false }, b: { isHealthy: false } }) })))
+      .toEqual(['a', 'b']);
+  });
+
+  it('never falls back to endpoints serving another chain', () => {
+    const chain = chainWith(rpc('a'), rpc('b'));
+
+    expect(urls(RPCSelector.getCandidateRPCs(chain, {
+      health: health({ a: { isHealthy: false, quarantined: true }, b: { isHealthy: false } })
+    }))).toEqual(['b']);
+  });
+
+  it('leaves out excluded endpoints', () => {
+    expect(urls(RPCSelector.getCandidateRPCs(chainWith(rpc('a'), rpc('b')), { exclude: ['a'] }))).toEqual(['b']);
+  });
+
+  it('reports whether a chain can route at all', () => {
+    expect(RPCSelector.hasHealthyRPCs(chainWith(rpc('a', { enabled: false })))).toBe(false);
+    expect(RPCSelector.hasHealthyRPCs(chainWith(rpc('a', { enabled: false }), rpc('b')))).toBe(true);
+  });
+});
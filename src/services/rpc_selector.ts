@@ -1,4 +1,5 @@
-import { RPCEndpoint, ChainConfig } from '../types';
+import { RPCEndpoint, ChainConfig, RPCHealthStateMap, RPCSelectionOptions, RPCCapability } from '../types';
+import { getRPCHealthKey } from '../utils/chain';
 
 /**
  * Enhanced RPC selector with performance tracking
@@ -12,9 +13,8 @@ export class RPCSelector {
    * Select a random RPC endpoint from available healthy endpoints
    * Uses weighted random selection based on priority and response time
    */
-  static selectRPC(chainConfig: ChainConfig): RPCEndpoint | null {
-    // Filter only active RPCs
-    const activeRPCs = chainConfig.rpcs.filter(rpc => rpc.isActive);
+  static selectRPC(chainConfig: ChainConfig, options: RPCSelectionOptions = {}): RPCEndpoint | null {
+    const activeRPCs = this.getCandidateRPCs(chainConfig, options);
 
     if (activeRPCs.length === 0) {
       return null;
@@ -29,6 +29,96 @@ export class RPCSelector {
     return this.weightedRandomSelection(activeRPCs);
   }
 
+  /**
+   * Get endpoints eligible for selection
+   * Combines the operator `enabled` flag with the runtime health state
+   */
+  static getCandidateRPCs(chainConfig: ChainConfig, options: RPCSelectionOptions = {}): RPCEndpoint[] {
+    // Quarantined endpoints serve another chain, so unlike unhealthy ones they are never a fallback
+    const enabledRPCs = chainConfig.rpcs.filter(
+      rpc => rpc.enabled
+        && !options.exclude?.includes(rpc.url)
+        && !this.isQuarantined(chainConfig.chainId, rpc, options.health)
+        && this.hasCapabilities(rpc, options.require)
+    );
+    const healthyRPCs = enabledRPCs.filter(
+      rpc => this.isHealthy(chainConfig.chainId, rpc, options.health)
+    );
+    const inSyncRPCs = healthyRPCs.filter(
+      rpc => !this.isDegraded(chainConfig.chainId, rpc, options.health)
+    );
+
+    // Endpoints trailing the head are only used when every healthy endpoint trails it;
+    // health data lags behind reality, so trying an unhealthy endpoint beats failing outright
+    const candidates = inSyncRPCs.length > 0
+      ? inSyncRPCs
+      : healthyRPCs.length > 0 ? healthyRPCs : enabledRPCs;
+
+    return this.applySession(chainConfig, candidates, options);
+  }
+
+  /**
+   * Narrow candidates for a client session: its pinned endpoint when that is available, otherwise
+   * endpoints last reported at or above the session's head (all of them when none is)
+   */
+  private static applySession(
+    chainConfig: ChainConfig,
+    rpcs: RPCEndpoint[],
+    options: RPCSelectionOptions
+  ): RPCEndpoint[] {
+    const pinned = options.pinned ? rpcs.find(rpc => rpc.url === options.pinned) : undefined;
+    if (pinned) {
+      return [pinned];
+    }
+
+    const minHeight = options.minHeight;
+    if (minHeight === undefined) {
+      return rpcs;
+    }
+
+    const caughtUp = rpcs.filter(rpc =>
+      (options.health?.[getRPCHealthKey(chainConfig.chainId, rpc.url)]?.height ?? -1) >= minHeight
+    );
+    return caughtUp.length > 0 ? caughtUp : rpcs;
+  }
+
+  /**
+   * Check runtime health of an endpoint
+   * Endpoints without a recorded health state are treated as healthy
+   */
+  static isHealthy(chainId: number | string, rpc: RPCEndpoint, health?: RPCHealthStateMap): boolean {
+    const state = health?.[getRPCHealthKey(chainId, rpc.url)];
+    return !state || state.isHealthy;
+  }
+
+  /**
+   * Check whether the last health check found an endpoint serving a different chain
+   */
+  static isQuarantined(chainId: number | string, rpc: RPCEndpoint, health?: RPCHealthStateMap): boolean {
+    return health?.[getRPCHealthKey(chainId, rpc.url)]?.quarantined === true;
+  }
+
+  /**
+   * Check whether an endpoint has every required capability
+   */
+  static hasCapabilities(rpc: RPCEndpoint, required?: RPCCapability[]): boolean {
+    return !required || required.every(capability => rpc.capabilities?.includes(capability));
+  }
+
+  /**
+   * Check whether any enabled endpoint of a chain has the required capabilities
+   */
+  static hasCapableRPCs(chainConfig: ChainConfig, required?: RPCCapability[]): boolean {
+    return chainConfig.rpcs.some(rpc => rpc.enabled && this.hasCapabilities(rpc, required));
+  }
+
+  /**
+   * Check whether an endpoint was last seen lagging behind the chain head
+   */
+  static isDegraded(chainId: number | string, rpc: RPCEndpoint, health?: RPCHealthStateMap): boolean {
+    return health?.[getRPCHealthKey(chainId, rpc.url)]?.degraded === true;
+  }
+
   /**
    * Weighted random selection based on RPC priority and response time
    * Higher priority and faster RPCs have higher chance of being selected
@@ -103,6 +193,22 @@ export class RPCSelector {
     return sum / times.length;
   }
 
+  /**
+   * Get a latency percentile (0-100) for an RPC endpoint from the tracked samples
+   * Returns 0 when there are no samples yet
+   */
+  static getLatencyPercentile(rpcUrl: string, percentile: number): number {
+    const times = this.responseTimesMap.get(rpcUrl);
+
+    if (!times || times.length === 0) {
+      return 0;
+    }
+
+    const sorted = [...times].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+
   /**
    * Clear response time tracking for an RPC
    */
@@ -114,10 +220,15 @@ export class RPCSelector {
    * Get next available RPC for failover
    * Excludes the failed RPC from selection
    */
-  static getFailoverRPC(chainConfig: ChainConfig, failedRPCUrl: string): RPCEndpoint | null {
-    const availableRPCs = chainConfig.rpcs.filter(
-      rpc => rpc.isActive && rpc.url !== failedRPCUrl
-    );
+  static getFailoverRPC(
+    chainConfig: ChainConfig,
+    failedRPCUrl: string,
+    options: RPCSelectionOptions = {}
+  ): RPCEndpoint | null {
+    const availableRPCs = this.getCandidateRPCs(chainConfig, {
+      ...options,
+      exclude: [...(options.exclude || []), failedRPCUrl]
+    });
 
     if (availableRPCs.length === 0) {
       return null;
@@ -127,17 +238,21 @@ export class RPCSelector {
   }
 
   /**
-   * Get all healthy RPCs for a chain
+   * Get all enabled and healthy RPCs for a chain that are not lagging behind the head
    */
-  static getHealthyRPCs(chainConfig: ChainConfig): RPCEndpoint[] {
-    return chainConfig.rpcs.filter(rpc => rpc.isActive);
+  static getHealthyRPCs(chainConfig: ChainConfig, health?: RPCHealthStateMap): RPCEndpoint[] {
+    return chainConfig.rpcs.filter(rpc =>
+      rpc.enabled &&
+      this.isHealthy(chainConfig.chainId, rpc, health) &&
+      !this.isDegraded(chainConfig.chainId, rpc, health)
+    );
   }
 
   /**
-   * Check if chain has any healthy RPCs available
+   * Check if chain has any enabled RPCs that requests can be routed to
    */
   static hasHealthyRPCs(chainConfig: ChainConfig): boolean {
-    return chainConfig.rpcs.some(rpc => rpc.isActive);
+    return chainConfig.rpcs.some(rpc => rpc.enabled);
   }
 
   /**
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { SecretStore } from './secret_store';
+import { RPCConfig, RPCEndpoint } from '../types';
+import { ValidationError } from '../utils/validation';
+import { createEnv } from '../testing/fakes';
+
+// base64 of 32 bytes
+const KEY = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+const OTHER_KEY = 'HxwdHh8aGxwZGBcWFRQTEhEQDw4NDAsKCQgHBgUEAwI=';
+
+const rpc: RPCEndpoint = { url: 'https://rpc.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true };
+
+function configWith(endpoint: RPCEndpoint): RPCConfig {
+  return { chains: { 1: { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [endpoint] } } } as unknown as RPCConfig;
+}
+
+describe('SecretStore', () => {
+  it('decrypts what it encrypted, with a fresh IV each time', async () => {
+    const store = new SecretStore(createEnv({ CONFIG_ENCRYPTION_KEY: KEY }));
+    const first = await store.encrypt('provider-key');
+    const second = await store.encrypt('provider-key');
+
+    expect(first).toMatch(/^enc:v1:/);
+    expect(first).not.toBe(second);
+    expect(await store.resolve(first)).toBe('provider-key');
+  });
+
+  it('rejects ciphertext made with another key', async () => {
+    const encrypted = await new SecretStore(createEnv({ CONFIG_ENCRYPTION_KEY: OTHER_KEY })).encrypt('provider-key');
+
+    await expect(new SecretStore(createEnv({ CONFIG_ENCRYPTION_KEY: KEY })).resolve(encrypted))
+      .rejects.toThrow('Failed to decrypt provider secret');
+  });
+
+  it('resolves references from Worker secrets', async () => {
+    const store = new SecretStore(createEnv({ ALCHEMY_KEY: 'from-env' }));
+
+    expect(await store.resolve('secret://ALCHEMY_KEY')).toBe('from-env');
+    await expect(store.resolve('secret://MISSING_KEY')).rejects.toThrow('Secret MISSING_KEY is not set');
+    expect(await store.resolve('plain')).toBe('plain');
+  });
+
+  it('encrypts inline secrets when protecting a config', async () => {
+    const store = new SecretStore(createEnv({ CONFIG_ENCRYPTION_KEY: KEY }));
+
+    const saved = await store.protectConfig(
+      configWith({ ...rpc, apiKey: 'secret://KEY', auth: { type: 'bearer', token: 'inline' } }),
+      async () => null
+    );
+
+    const endpoint = saved.chains[1].rpcs[0];
+    expect(endpoint.apiKey).toBe('secret://KEY');
+    expect(endpoint.auth).toMatchObject({ type: 'bearer' });
+    expect(await store.resolve((endpoint.auth as { token: string }).token)).toBe('inline');
+  });
+
+  it('keeps the stored secret for a redacted value', async () => {
+    const store = new SecretStore(createEnv());
+    const stored = configWith({ ...rpc, auth: { type: 'bearer', token: 'enc:v1:stored' } });
+
+    const saved = await store.protectConfig(
+      configWith({ ...rpc, auth: { type: 'bearer', token: '[REDACTED]' } }),
+      async () => stored
+    );
+
+    expect(saved.chains[1].rpcs[0].auth).toEqual({ type: 'bearer', token: 'enc:v1:stored' });
+  });
+
+  it('rejects a redacted value with nothing stored to keep', async () => {
+    const store = new SecretStore(createEnv());
+    const stored = configWith({ ...rpc, auth: { type: 'path', key: 'enc:v1:stored' } });
+
+    await expect(store.protectConfig(
+      configWith({ ...rpc, auth: { type: 'bearer', token: '[REDACTED]' } }),
+      async () => stored
+    )).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,193 @@
+import { Env, RPCConfig, RPCEndpoint, ChainConfig } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { ConfigurationError } from '../utils/error_handler';
+import { ValidationError } from '../utils/validation';
+import { base64Decode, base64Encode } from '../utils/base64';
+import {
+  getEndpointSecrets,
+  mapEndpointSecrets,
+  isSecretRef,
+  isEncryptedSecret,
+  isInlineSecret
+} from '../utils/secrets';
+
+/**
+ * Secret Store
+ * Resolves provider secrets at request time: `secret://NAME` from Worker secrets and
+ * `enc:v1:` values by decrypting them with CONFIG_ENCRYPTION_KEY (AES-GCM).
+ * Also encrypts inline secrets before a config is written to KV.
+ */
+export class SecretStore {
+  // Per-isolate caches: imported master keys by their encoded form, plaintext by ciphertext
+  private static keys = new Map<string, Promise<CryptoKey>>();
+  private static decrypted = new Map<string, string>();
+
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  /**
+   * Whether a master key is configured, i.e. inline secrets can be stored encrypted
+   */
+  canEncrypt(): boolean {
+    return !!this.env.CONFIG_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Resolve a stored secret value to the credential itself
+   */
+  async resolve(value: string): Promise<string> {
+    if (isSecretRef(value)) {
+      const name = value.slice(APP_CONSTANTS.SECRETS.REF_PREFIX.length);
+      const secret = (this.env as unknown as Record<string, unknown>)[name];
+      if (typeof secret !== 'string' || !secret) {
+        throw new ConfigurationError(`Secret ${name} is not set`);
+      }
+      return secret;
+    }
+
+    if (isEncryptedSecret(value)) {
+      return this.decrypt(value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Copy an endpoint with its secrets resolved, ready to authenticate an upstream call
+   */
+  async resolveEndpoint(rpc: RPCEndpoint): Promise<RPCEndpoint> {
+    const secrets = getEndpointSecrets(rpc);
+    if (secrets.length === 0) {
+      return rpc;
+    }
+
+    const resolved = new Map<string, string>();
+    await Promise.all(secrets.map(async ({ field, value }) => {
+      resolved.set(field, await this.resolve(value));
+    }));
+
+    return mapEndpointSecrets(rpc, (value, field) => resolved.get(field) ?? value);
+  }
+
+  /**
+   * Encrypt a secret as enc:v1:<iv>:<ciphertext>
+   */
+  async encrypt(value: string): Promise<string> {
+    const key = await this.getKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+
+    return `${APP_CONSTANTS.SECRETS.ENCRYPTED_PREFIX}${base64Encode(iv)}:${base64Encode(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt an enc:v1: value
+   */
+  async decrypt(value: string): Promise<string> {
+    const cached = SecretStore.decrypted.get(value);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const [iv, ciphertext] = value.slice(APP_CONSTANTS.SECRETS.ENCRYPTED_PREFIX.length).split(':');
+    const key = await this.getKey();
+
+    let plaintext: string;
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64Decode(iv) },
+        key,
+        base64Decode(ciphertext)
+      );
+      plaintext = new TextDecoder().decode(decrypted);
+    } catch {
+      throw new ConfigurationError('Failed to decrypt provider secret (wrong CONFIG_ENCRYPTION_KEY?)');
+    }
+
+    SecretStore.decrypted.set(value, plaintext);
+    return plaintext;
+  }
+
+  /**
+   * Prepare a config for storage
+   * Inline secrets are encrypted when a master key is configured, and redaction placeholders
+   * sent back from an admin read keep the secret already stored for the same endpoint
+   */
+  async protectConfig(config: RPCConfig, loadStored: () => Promise<RPCConfig | null>): Promise<RPCConfig> {
+    let stored: RPCConfig | null | undefined;
+    let inline = false;
+    const chains: Record<string, ChainConfig> = {};
+
+    for (const [chainId, chainConfig] of Object.entries(config.chains || {})) {
+      const rpcs: RPCEndpoint[] = [];
+
+      for (const rpc of chainConfig?.rpcs || []) {
+        const replacements = new Map<string, string>();
+
+        for (const { field, value } of getEndpointSecrets(rpc)) {
+          let secret = value;
+          if (secret === APP_CONSTANTS.SECRETS.REDACTED) {
+            stored = stored === undefined ? await loadStored() : stored;
+            const previous = stored?.chains[chainId]?.rpcs?.find(candidate => candidate.url === rpc.url);
+            const kept = previous && (field === 'apiKey' || previous.auth?.type === rpc.auth?.type)
+              ? getEndpointSecrets(previous).find(entry => entry.field === field)?.value
+              : undefined;
+            if (!kept) {
+              throw new ValidationError(`${field} of RPC ${rpc.name} is redacted and no stored secret can be kept`);
+            }
+            secret = kept;
+          }
+
+          if (isInlineSecret(secret)) {
+            inline = true;
+            if (this.canEncrypt()) {
+              secret = await this.encrypt(secret);
+            }
+          }
+          replacements.set(field, secret);
+        }
+
+        rpcs.push(mapEndpointSecrets(rpc, (value, field) => replacements.get(field) ?? value));
+      }
+
+      chains[chainId] = { ...chainConfig, rpcs };
+    }
+
+    if (inline && !this.canEncrypt()) {
+      console.warn('CONFIG_ENCRYPTION_KEY is not set; inline provider secrets are stored in plain text');
+    }
+
+    return { ...config, chains };
+  }
+
+  /**
+   * Import the master key (base64 of 16, 24 or 32 random bytes)
+   */
+  private getKey(): Promise<CryptoKey> {
+    const encoded = this.env.CONFIG_ENCRYPTION_KEY;
+    if (!encoded) {
+      return Promise.reject(new ConfigurationError('CONFIG_ENCRYPTION_KEY is required for encrypted provider secrets'));
+    }
+
+    let key = SecretStore.keys.get(encoded);
+    if (!key) {
+      key = (async () => {
+        let raw: Uint8Array;
+        try {
+          raw = base64Decode(encoded);
+        } catch {
+          raw = new Uint8Array(0);
+        }
+        if (![16, 24, 32].includes(raw.length)) {
+          throw new ConfigurationError('CONFIG_ENCRYPTION_KEY must be a base64-encoded 128, 192 or 256-bit key');
+        }
+        return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+      })();
+      SecretStore.keys.set(encoded, key);
+    }
+    return key;
+  }
+}
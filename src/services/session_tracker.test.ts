@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { advanceSession, SessionDurableObject, SessionTable, SessionTracker } from './session_tracker';
+import { APP_CONSTANTS } from '../constants';
+import { Logger, LogLevel } from '../utils/logger';
+import { createDurableObjectState, createEnv, jsonResponse } from '../testing/fakes';
+
+const { TTL, MAX_SESSIONS } = APP_CONSTANTS.SESSION;
+
+describe('advanceSession', () => {
+  it('pins a new session to the endpoint that served it', () => {
+    expect(advanceSession(undefined, 10, 'https://a.test', 1000))
+      .toEqual({ height: 10, rpcUrl: 'https://a.test', updatedAt: 1000 });
+  });
+
+  it('ignores a lower head', () => {
+    expect(advanceSession({ height: 10, rpcUrl: 'https://a.test', updatedAt: 0 }, 9, 'https://b.test')).toBeNull();
+  });
+
+  it('repins on a higher head', () => {
+    expect(advanceSession({ height: 10, rpcUrl: 'https://a.test', updatedAt: 0 }, 11, 'https://b.test', 5))
+      .toEqual({ height: 11, rpcUrl: 'https://b.test', updatedAt: 5 });
+  });
+
+  it('keeps the pin on the same head', () => {
+    expect(advanceSession({ height: 10, rpcUrl: 'https://a.test', updatedAt: 0 }, 10, 'https://b.test', 5))
+      .toEqual({ height: 10, rpcUrl: 'https://a.test', updatedAt: 5 });
+  });
+
+  it('keeps the pin when the head comes without an endpoint', () => {
+    expect(advanceSession({ height: 10, rpcUrl: 'https://a.test', updatedAt: 0 }, 12, undefined, 5))
+      .toEqual({ height: 12, rpcUrl: 'https://a.test', updatedAt: 5 });
+  });
+});
+
+describe('SessionTable', () => {
+  it('forgets sessions idle for longer than the TTL', () => {
+    const table = new SessionTable();
+    table.observe('s', 10, 'https://a.test', 0);
+
+    expect(table.get('s', TTL * 1000)?.height).toBe(10);
+    expect(table.get('s', TTL * 1000 + 1)).toBeUndefined();
+  });
+
+  it('evicts the least recently updated session when full', () => {
+    const table = new SessionTable();
+    for (let i = 0; i < MAX_SESSIONS; i++) {
+      table.observe(`s${i}`, 1, undefined, 0);
+    }
+    table.observe('s0', 2, undefined, 0);
+    table.observe('new', 1, undefined, 0);
+
+    expect(table.get('s0', 0)?.height).toBe(2);
+    expect(table.get('s1', 0)).toBeUndefined();
+    expect(table.get('new', 0)?.height).toBe(1);
+  });
+});
+
+describe('SessionDurableObject', () => {
+  const observe = (height: number, rpcUrl?: string) =>
+    new Request('https://session/observe', { method: 'POST', body: JSON.stringify({ height, rpcUrl }) });
+
+  it('stores the highest head and schedules its expiry', async () => {
+    const state = createDurableObjectState();
+    const session = new SessionDurableObject(state, createEnv());
+
+    await session.fetch(observe(10, 'https://a.test'));
+    const kept = await (await session.fetch(observe(9, 'https://b.test'))).json();
+
+    expect(kept).toMatchObject({ height: 10, rpcUrl: 'https://a.test' });
+    expect(await (await session.fetch(new Request('https://session/state'))).json()).toMatchObject({ height: 10 });
+    expect(state.alarm).toBeGreaterThan(Date.now());
+  });
+
+  it('clears the state once the session has expired', async () => {
+    const state = createDurableObjectState();
+    const session = new SessionDurableObject(state, createEnv());
+    await session.fetch(observe(10));
+
+    await session.alarm();
+    expect(state.store.size).toBe(1);
+
+    state.store.set('state', { height: 10, updatedAt: Date.now() - TTL * 1000 - 1 });
+    expect(await (await session.fetch(new Request('https://session/state'))).json()).toBeNull();
+    await session.alarm();
+    expect(state.store.size).toBe(0);
+  });
+
+  it('rejects unknown actions and observations without a height', async () => {
+    const session = new SessionDurableObject(createDurableObjectState(), createEnv());
+
+    expect((await session.fetch(new Request('https://session/reset'))).status).toBe(404);
+    expect((await session.fetch(new Request('https://session/observe', { method: 'POST', body: '{}' }))).status).toBe(404);
+  });
+});
+
+describe('SessionTracker', () => {
+  const logger = new Logger(LogLevel.ERROR);
+
+  it('keeps sessions per isolate without a Durable Object', async () => {
+    const tracker = new SessionTracker(createEnv(), logger);
+    await tracker.observe('tracker:local', 10, 'https://a.test');
+
+    expect(await new SessionTracker(createEnv(), logger).get('tracker:local'))
+      .toMatchObject({ height: 10, rpcUrl: 'https://a.test' });
+  });
+
+  it('uses the Durable Object of the session when bound', async () => {
+    const requests: { name: string; url: string; body?: unknown }[] = [];
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: (name: string) => ({
+        fetch: async (url: string, init: RequestInit) => {
+          requests.push({ name, url, body: init.body ? JSON.parse(init.body as string) : undefined });
+          return jsonResponse({ height: 20, rpcUrl: 'https://b.test', updatedAt: 0 });
+        }
+      })
+    } as unknown as DurableObjectNamespace;
+    const tracker = new SessionTracker(createEnv({ SESSION_TRACKER: namespace }), logger);
+
+    await tracker.observe('tracker:bound', 20, 'https://b.test');
+    expect(await tracker.get('tracker:bound')).toMatchObject({ height: 20 });
+    expect(requests).toEqual([
+      { name: 'session:tracker:bound', url: 'https://session/observe', body: { height: 20, rpcUrl: 'https://b.test' } },
+      { name: 'session:tracker:bound', url: 'https://session/state', body: undefined }
+    ]);
+    // Nothing was kept in the isolate
+    expect(await new SessionTracker(createEnv(), logger).get('tracker:bound')).toBeUndefined();
+  });
+
+  it('falls back to the isolate when the Durable Object fails', async () => {
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: async () => new Response('error', { status: 500 }) })
+    } as unknown as DurableObjectNamespace;
+    const tracker = new SessionTracker(createEnv({ SESSION_TRACKER: namespace }), logger);
+
+    await tracker.observe('tracker:failing', 30);
+    expect(await tracker.get('tracker:failing')).toMatchObject({ height: 30 });
+  });
+});
@@ -0,0 +1,204 @@
+import { Env, SessionState } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+const { TTL, MAX_SESSIONS } = APP_CONSTANTS.SESSION;
+
+/**
+ * Apply a head served to a session to its state; null when the state doesn't change
+ * A higher head (or the first one served by an endpoint) pins the session to that endpoint
+ */
+export function advanceSession(
+  current: SessionState | undefined,
+  height: number,
+  rpcUrl: string | undefined,
+  now: number = Date.now()
+): SessionState | null {
+  if (current && height < current.height) {
+    return null;
+  }
+
+  const repin = !current || height > current.height || !current.rpcUrl;
+  return {
+    height,
+    rpcUrl: (repin ? rpcUrl : undefined) ?? current?.rpcUrl,
+    updatedAt: now
+  };
+}
+
+/**
+ * Whether a session state has outlived the session TTL
+ */
+function isExpired(state: SessionState, now: number): boolean {
+  return now - state.updatedAt > TTL * 1000;
+}
+
+/**
+ * Session states of one isolate, least recently used first
+ */
+export class SessionTable {
+  // Insertion order doubles as recency order: updated sessions are moved to the end
+  private sessions: Map<string, SessionState> = new Map();
+
+  /**
+   * Get a session's state; undefined when it is unknown or has expired
+   */
+  get(key: string, now: number = Date.now()): SessionState | undefined {
+    const state = this.sessions.get(key);
+    if (state && isExpired(state, now)) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+    return state;
+  }
+
+  /**
+   * Record a head served to a session and return the session's state
+   */
+  observe(key: string, height: number, rpcUrl?: string, now: number = Date.now()): SessionState | undefined {
+    const current = this.get(key, now);
+    const updated = advanceSession(current, height, rpcUrl, now);
+    if (!updated) {
+      return current;
+    }
+
+    this.sessions.delete(key);
+    this.sessions.set(key, updated);
+
+    if (this.sessions.size > MAX_SESSIONS) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest !== undefined) {
+        this.sessions.delete(oldest);
+      }
+    }
+    return updated;
+  }
+}
+
+/**
+ * Durable Object holding the state of one client session
+ * One instance per session keeps its head consistent across isolates and colos;
+ * an alarm clears the state once the session has been idle for the session TTL
+ */
+export class SessionDurableObject implements DurableObject {
+  private static readonly STORAGE_KEY = 'state';
+
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const action = new URL(request.url).pathname;
+    const now = Date.now();
+
+    const stored = await this.state.storage.get<SessionState>(SessionDurableObject.STORAGE_KEY);
+    const current = stored && !isExpired(stored, now) ? stored : undefined;
+
+    switch (action) {
+      case '/state':
+        return this.json(current ?? null);
+
+      case '/observe': {
+        if (request.method !== 'POST') break;
+        const body = await request.json() as { height?: number; rpcUrl?: string };
+        if (typeof body.height !== 'number') break;
+
+        const updated = advanceSession(current, body.height, body.rpcUrl, now);
+        if (!updated) {
+          return this.json(current);
+        }
+
+        await this.state.storage.put(SessionDurableObject.STORAGE_KEY, updated);
+        await this.state.storage.setAlarm(now + TTL * 1000);
+        return this.json(updated);
+      }
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const stored = await this.state.storage.get<SessionState>(SessionDurableObject.STORAGE_KEY);
+    if (stored && !isExpired(stored, Date.now())) {
+      await this.state.storage.setAlarm(stored.updatedAt + TTL * 1000);
+      return;
+    }
+    await this.state.storage.deleteAll();
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Session tracker used on the request path
+ * Remembers the highest head each client session has been served and the endpoint that served it.
+ * Talks to the SESSION_TRACKER Durable Object when bound, otherwise keeps state per isolate.
+ */
+export class SessionTracker {
+  // Per-isolate sessions, used when no Durable Object is bound or it can't be reached
+  private static localTable: SessionTable = new SessionTable();
+
+  private env: Env;
+  private logger: Logger;
+
+  constructor(env: Env, logger: Logger) {
+    this.env = env;
+    this.logger = logger;
+  }
+
+  /**
+   * Get a session's state; undefined when it is unknown or has expired
+   */
+  async get(key: string): Promise<SessionState | undefined> {
+    const state = await this.send<SessionState | null>(key, '/state');
+    if (state !== undefined) {
+      return state ?? undefined;
+    }
+    return SessionTracker.localTable.get(key);
+  }
+
+  /**
+   * Record a head served to a session
+   */
+  async observe(key: string, height: number, rpcUrl?: string): Promise<void> {
+    const state = await this.send<SessionState>(key, '/observe', { height, rpcUrl });
+    if (state === undefined) {
+      SessionTracker.localTable.observe(key, height, rpcUrl);
+    }
+  }
+
+  /**
+   * Call the session's Durable Object; returns undefined when it is not bound or unreachable
+   */
+  private async send<T>(key: string, action: string, body?: unknown): Promise<T | undefined> {
+    const namespace = this.env.SESSION_TRACKER;
+    if (!namespace) {
+      return undefined;
+    }
+
+    try {
+      const stub = namespace.get(namespace.idFromName(`session:${key}`));
+      const response = await stub.fetch(`https://session${action}`, body === undefined
+        ? { method: 'GET' }
+        : { method: 'POST', body: JSON.stringify(body) });
+
+      if (!response.ok) {
+        throw new Error(`Session tracker responded with status ${response.status}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      this.logger.warn('Session Durable Object unavailable, using isolate state', {
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { Env, ChainConfig, RPCEndpoint, RebroadcastState, RebroadcastStatus, RebroadcastTransaction } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { ConfigService } from './config_service';
+import { HealthService } from './health_service';
+import { RPCSelector } from './rpc_selector';
+import { UpstreamClient } from './upstream_client';
+import { SecretStore } from './secret_store';
+import { Logger, LogLevel } from '../utils/logger';
+import { getRebroadcastPolicy } from '../utils/broadcast';
+
+const { METHOD, MAX_DURATION, RETENTION } = APP_CONSTANTS.REBROADCAST;
+
+/**
+ * Durable Object that rebroadcasts one Solana transaction until it lands or its blockhash expires
+ * Each alarm checks getSignatureStatuses, then isBlockhashValid, then resends the transaction
+ * to the chain's top endpoints with preflight skipped. The outcome is kept for an hour.
+ */
+export class TransactionRebroadcastDurableObject implements DurableObject {
+  private static readonly STATE_KEY = 'state';
+  private static readonly TRANSACTION_KEY = 'transaction';
+
+  private state: DurableObjectState;
+  private env: Env;
+  private logger: Logger;
+  private upstreamClient: UpstreamClient;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+    this.logger = Logger.getInstance(LogLevel.INFO, { service: 'rebroadcast' });
+    this.upstreamClient = new UpstreamClient(this.logger, new SecretStore(env));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const action = new URL(request.url).pathname;
+    const existing = await this.load();
+
+    switch (action) {
+      case '/start': {
+        // A repeated submission joins the loop that is already running
+        if (existing) {
+          return this.json(existing);
+        }
+
+        const body = await request.json() as {
+          chainId: number | string;
+          transaction: RebroadcastTransaction;
+          interval: number;
+        };
+        const now = Date.now();
+        const rebroadcast: RebroadcastState = {
+          chainId: body.chainId,
+          signature: body.transaction.signature,
+          blockhash: body.transaction.blockhash,
+          status: 'pending',
+          broadcasts: 0,
+          submittedAt: now,
+          updatedAt: now
+        };
+
+        await this.state.storage.put({
+          [TransactionRebroadcastDurableObject.STATE_KEY]: rebroadcast,
+          [TransactionRebroadcastDurableObject.TRANSACTION_KEY]: body.transaction
+        });
+        await this.state.storage.setAlarm(now + body.interval);
+        return this.json(rebroadcast);
+      }
+
+      case '/status':
+        if (existing) {
+          return this.json(existing);
+        }
+        break;
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const rebroadcast = await this.load();
+    if (!rebroadcast) {
+      return;
+    }
+
+    // Finished loops only schedule one more alarm: the end of their retention
+    if (rebroadcast.status !== 'pending') {
+      await this.state.storage.deleteAll();
+      return;
+    }
+
+    const chainConfig = await new ConfigService(this.env).getChainConfig(rebroadcast.chainId);
+    const policy = chainConfig ? getRebroadcastPolicy(chainConfig, METHOD) : null;
+    if (!chainConfig || !policy) {
+      await this.finish(rebroadcast, 'stopped', { error: 'Rebroadcast is no longer enabled for the chain' });
+      return;
+    }
+
+    const rpcs = await this.getEndpoints(chainConfig, policy.fanout);
+    const landed = await this.getSignatureStatus(rpcs, rebroadcast.signature);
+
+    if (landed?.confirmationStatus === 'confirmed' || landed?.confirmationStatus === 'finalized') {
+      await this.finish(rebroadcast, landed.err ? 'failed' : 'confirmed', {
+        confirmationStatus: landed.confirmationStatus,
+        slot: landed.slot,
+        error: landed.err ?? undefined
+      });
+      return;
+    }
+
+    // A processed transaction only needs to be watched; anything else is resent until its blockhash expires
+    if (!landed) {
+      const expired = Date.now() - rebroadcast.submittedAt > MAX_DURATION
+        || await this.isBlockhashExpired(rpcs, rebroadcast.blockhash);
+      if (expired) {
+        await this.finish(rebroadcast, 'expired');
+        return;
+      }
+
+      const transaction = await this.state.storage.get<RebroadcastTransaction>(
+        TransactionRebroadcastDurableObject.TRANSACTION_KEY
+      );
+      if (transaction) {
+        await Promise.allSettled(rpcs.map(rpc => this.upstreamClient.call(rpc, {
+          jsonrpc: '2.0',
+          id: 1,
+          method: METHOD,
+          params: [transaction.encoded, { encoding: transaction.encoding, skipPreflight: true, maxRetries: 0 }]
+        })));
+        rebroadcast.broadcasts++;
+      }
+    }
+
+    rebroadcast.updatedAt = Date.now();
+    await this.state.storage.put(TransactionRebroadcastDurableObject.STATE_KEY, rebroadcast);
+    await this.state.storage.setAlarm(Date.now() + policy.interval);
+  }
+
+  private async load(): Promise<RebroadcastState | null> {
+    return await this.state.storage.get<RebroadcastState>(TransactionRebroadcastDurableObject.STATE_KEY) ?? null;
+  }
+
+  /**
+   * Record the outcome and keep it until the retention period ends
+   */
+  private async finish(
+    rebroadcast: RebroadcastState,
+    status: RebroadcastStatus,
+    details: Pick<RebroadcastState, 'confirmationStatus' | 'slot' | 'error'> = {}
+  ): Promise<void> {
+    const now = Date.now();
+    Object.assign(rebroadcast, details, { status, updatedAt: now, finishedAt: now });
+
+    await this.state.storage.put(TransactionRebroadcastDurableObject.STATE_KEY, rebroadcast);
+    await this.state.storage.delete(TransactionRebroadcastDurableObject.TRANSACTION_KEY);
+    await this.state.storage.setAlarm(now + RETENTION);
+
+    this.logger[status === 'confirmed' ? 'info' : 'warn']('Transaction rebroadcast finished', {
+      chainId: rebroadcast.chainId,
+      signature: rebroadcast.signature,
+      status,
+      broadcasts: rebroadcast.broadcasts,
+      duration: now - rebroadcast.submittedAt,
+      error: rebroadcast.error
+    });
+  }
+
+  /**
+   * Highest-priority usable endpoints of the chain
+   */
+  private async getEndpoints(chainConfig: ChainConfig, fanout: number): Promise<RPCEndpoint[]> {
+    const health = await new HealthService(this.env).getHealthStates();
+    return [...RPCSelector.getCandidateRPCs(chainConfig, { health })]
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, fanout);
+  }
+
+  /**
+   * Ask the endpoints in turn for the signature status; null while the cluster hasn't seen it
+   */
+  private async getSignatureStatus(
+    rpcs: RPCEndpoint[],
+    signature: string
+  ): Promise<{ confirmationStatus?: string; slot?: number; err?: unknown } | null> {
+    for (const rpc of rpcs) {
+      const value = await this.query(rpc, 'getSignatureStatuses', [[signature]]);
+      if (Array.isArray(value)) {
+        return value[0] ?? null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether the blockhash is no longer valid; an unanswered check counts as still valid
+   */
+  private async isBlockhashExpired(rpcs: RPCEndpoint[], blockhash: string): Promise<boolean> {
+    for (const rpc of rpcs) {
+      const value = await this.query(rpc, 'isBlockhashValid', [blockhash, { commitment: 'processed' }]);
+      if (typeof value === 'boolean') {
+        return !value;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Call a Solana method that answers with { context, value } and return the value
+   */
+  private async query(rpc: RPCEndpoint, method: string, params: unknown[]): Promise<unknown> {
+    try {
+      const result = await this.upstreamClient.call(rpc, { jsonrpc: '2.0', id: 1, method, params });
+      return result.ok ? result.json?.result?.value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Starts rebroadcast loops and reads their outcome from the TRANSACTION_REBROADCAST Durable Object
+ * One instance per chain and signature
+ */
+export class TransactionRebroadcaster {
+  private env: Env;
+  private logger: Logger;
+
+  constructor(env: Env, logger: Logger) {
+    this.env = env;
+    this.logger = logger;
+  }
+
+  /**
+   * Check whether the Durable Object is bound
+   */
+  isAvailable(): boolean {
+    return this.env.TRANSACTION_REBROADCAST !== undefined;
+  }
+
+  /**
+   * Start rebroadcasting a transaction; a running loop for the same signature is left as is
+   */
+  async start(
+    chainId: number | string,
+    transaction: RebroadcastTransaction,
+    interval: number
+  ): Promise<RebroadcastState | null> {
+    return this.send<RebroadcastState>(chainId, transaction.signature, '/start', { chainId, transaction, interval });
+  }
+
+  /**
+   * Get the state of a transaction's rebroadcast loop; null when there is none
+   */
+  async getStatus(chainId: number | string, signature: string): Promise<RebroadcastState | null> {
+    return this.send<RebroadcastState>(chainId, signature, '/status');
+  }
+
+  private async send<T>(chainId: number | string, signature: string, action: string, body?: unknown): Promise<T | null> {
+    const namespace = this.env.TRANSACTION_REBROADCAST;
+    if (!namespace) {
+      return null;
+    }
+
+    try {
+      const stub = namespace.get(namespace.idFromName(`${chainId}:${signature}`));
+      const response = await stub.fetch(`https://rebroadcast${action}`, body === undefined
+        ? { method: 'GET' }
+        : { method: 'POST', body: JSON.stringify(body) });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Rebroadcast responded with status ${response.status}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      this.logger.warn('Transaction rebroadcast Durable Object unavailable', {
+        chainId,
+        signature,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+}
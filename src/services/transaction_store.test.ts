@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionStore } from './transaction_store';
+import { Logger, LogLevel } from '../utils/logger';
+import { createKV } from '../testing/fakes';
+
+const TX_HASH = '0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788';
+
+function createStore() {
+  return new TransactionStore(createKV(), Logger.getInstance(LogLevel.ERROR));
+}
+
+describe('TransactionStore', () => {
+  it('has no record for an unknown transaction', async () => {
+    expect(await createStore().get(1, TX_HASH)).toBeNull();
+  });
+
+  it('records an accepted transaction per chain, whatever the hash casing', async () => {
+    const store = createStore();
+    await store.recordAccepted(1, TX_HASH, TX_HASH, ['rpc-a']);
+
+    expect(await store.get(1, TX_HASH.toUpperCase().replace('0X', '0x'))).toMatchObject({
+      chainId: 1,
+      txHash: TX_HASH,
+      result: TX_HASH,
+      submissions: 1,
+      rpcs: ['rpc-a']
+    });
+    expect(await store.get(2, TX_HASH)).toBeNull();
+  });
+
+  it('counts repeated submissions', async () => {
+    const store = createStore();
+    await store.recordAccepted(1, TX_HASH, TX_HASH, ['rpc-a']);
+    await store.recordRepeat((await store.get(1, TX_HASH))!);
+
+    expect((await store.get(1, TX_HASH))?.submissions).toBe(2);
+  });
+});
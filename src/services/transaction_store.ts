@@ -0,0 +1,87 @@
+import { TransactionSubmission, BroadcastResult } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+/**
+ * Transaction store
+ * Remembers signed transactions accepted upstream, keyed by chain and transaction hash,
+ * so a client retrying a submission gets the original answer instead of a second send.
+ * Records live in the RPC_HEALTH namespace next to the other runtime state.
+ */
+export class TransactionStore {
+  private kv: KVNamespace;
+  private logger: Logger;
+
+  constructor(kv: KVNamespace, logger: Logger) {
+    this.kv = kv;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the submission record of a transaction, or null when it hasn't been seen recently
+   */
+  async get(chainId: number | string, txHash: string): Promise<TransactionSubmission | null> {
+    try {
+      return await this.kv.get<TransactionSubmission>(this.getKey(chainId, txHash), 'json');
+    } catch (error) {
+      this.logger.warn('Failed to load transaction submission', {
+        chainId,
+        txHash,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record a transaction the upstreams accepted
+   */
+  async recordAccepted(
+    chainId: number | string,
+    txHash: string,
+    result: string,
+    rpcs: string[],
+    broadcast?: BroadcastResult[]
+  ): Promise<void> {
+    const now = Date.now();
+    await this.put({
+      chainId,
+      txHash,
+      result,
+      submittedAt: now,
+      lastSubmittedAt: now,
+      submissions: 1,
+      rpcs,
+      ...(broadcast ? { broadcast } : {})
+    });
+  }
+
+  /**
+   * Count a repeated submission of a recorded transaction
+   */
+  async recordRepeat(submission: TransactionSubmission): Promise<void> {
+    await this.put({
+      ...submission,
+      lastSubmittedAt: Date.now(),
+      submissions: submission.submissions + 1
+    });
+  }
+
+  private getKey(chainId: number | string, txHash: string): string {
+    return `tx:${chainId}:${txHash.toLowerCase()}`;
+  }
+
+  private async put(submission: TransactionSubmission): Promise<void> {
+    try {
+      await this.kv.put(this.getKey(submission.chainId, submission.txHash), JSON.stringify(submission), {
+        expirationTtl: APP_CONSTANTS.TRANSACTIONS.SUBMISSION_TTL
+      });
+    } catch (error) {
+      this.logger.error('Failed to record transaction submission', {
+        chainId: submission.chainId,
+        txHash: submission.txHash,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { RPCEndpoint } from '../types';
+import { Logger } from '../utils/logger';
+import { TimeoutError } from '../utils/error_handler';
+import { authorizeRequest } from '../utils/upstream_auth';
+import { SecretStore } from './secret_store';
+
+/**
+ * Raw result of a call to an upstream RPC endpoint
+ */
+export interface UpstreamCallResult {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: string;
+  json?: any; // Parsed body when upstream answered with valid JSON
+  duration: number;
+}
+
+export interface UpstreamCallOptions {
+  requestId?: string;
+  signal?: AbortSignal; // External abort signal (e.g. losing side of a race)
+  timeout?: number; // Overrides the endpoint timeout
+  headers?: Record<string, string>;
+}
+
+/**
+ * Upstream Client
+ * Sends JSON-RPC payloads (single or batch) to an RPC endpoint with timeout handling
+ */
+export class UpstreamClient {
+  private logger: Logger;
+  private secrets: SecretStore | null;
+
+  constructor(logger: Logger, secrets?: SecretStore) {
+    this.logger = logger;
+    this.secrets = secrets ?? null;
+  }
+
+  /**
+   * POST a JSON-RPC payload to an endpoint and read the full body
+   */
+  async call(rpc: RPCEndpoint, payload: unknown, options: UpstreamCallOptions = {}): Promise<UpstreamCallResult> {
+    const timeout = options.timeout ?? rpc.timeout;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onExternalAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onExternalAbort);
+    const startTime = Date.now();
+
+    try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...options.headers
+      };
+
+      // Provider auth: secrets are resolved per call, headers are added in place
+      // and URL keys go into the request URL only
+      const endpoint = this.secrets ? await this.secrets.resolveEndpoint(rpc) : rpc;
+      const url = authorizeRequest(endpoint, headers);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+
+      const body = await response.text();
+      const duration = Date.now() - startTime;
+
+      let json: any;
+      if (response.headers.get('content-type')?.includes('application/json')) {
+        try {
+          json = JSON.parse(body);
+        } catch (parseError) {
+          this.logger.warn('Invalid JSON response from RPC', {
+            requestId: options.requestId,
+            rpcUrl: rpc.url,
+            parseError: parseError instanceof Error ? parseError.message : 'Unknown error'
+          });
+        }
+      }
+
+      this.logger.logExternalCall(
+        rpc.name,
+        'rpc-call',
+        rpc.url,
+        'POST',
+        response.status,
+        duration,
+        options.requestId,
+        response.ok
+      );
+
+      return {
+        status: response.status,
+        ok: response.ok,
+        headers: response.headers,
+        body,
+        json,
+        duration
+      };
+    } catch (error) {
+      this.logger.logExternalCall(
+        rpc.name,
+        'rpc-call',
+        rpc.url,
+        'POST',
+        undefined,
+        Date.now() - startTime,
+        options.requestId,
+        false
+      );
+
+      if (error instanceof Error && error.name === 'AbortError' && !options.signal?.aborted) {
+        throw new TimeoutError('Request', timeout, options.requestId);
+      }
+
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onExternalAbort);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * In-memory stand-ins for Worker bindings used by unit tests
+ */
+
+import { Env } from '../types';
+import { base58Encode } from '../utils/base58';
+
+/**
+ * KV namespace backed by a Map; `store` exposes the raw values (expirations are ignored)
+ */
+export function createKV(): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+
+  const get = async (key: string, type?: unknown) => {
+    const value = store.get(key);
+    if (value === undefined) {
+      return null;
+    }
+    return type === 'json' || (type as { type?: string })?.type === 'json' ? JSON.parse(value) : value;
+  };
+
+  return {
+    store,
+    get,
+    getWithMetadata: async (key: string, type?: unknown) => ({
+      value: await get(key, type),
+      metadata: metadata.get(key) ?? null,
+      cacheStatus: null
+    }),
+    put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, value);
+      metadata.set(key, options?.metadata);
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+      metadata.delete(key);
+    },
+    list: async () => ({ keys: [...store.keys()].map(name => ({ name })), list_complete: true, cacheStatus: null })
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+/**
+ * Worker environment with fresh KV namespaces and no Durable Objects
+ */
+export function createEnv(overrides: Partial<Env> & Record<string, unknown> = {}): Env {
+  return {
+    RPC_CONFIG: createKV(),
+    RPC_HEALTH: createKV(),
+    ADMIN_API_KEY: 'test-admin-key',
+    HEALTH_CHECK_INTERVAL: '300000',
+    ...overrides
+  } as Env;
+}
+
+/**
+ * Cache API cache backed by a Map of request URLs to response bodies (Cache-Control is ignored)
+ */
+export function createCache(): Cache & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  const url = (request: RequestInfo | URL) => request instanceof Request ? request.url : String(request);
+
+  return {
+    store,
+    match: async (request: RequestInfo | URL) => {
+      const body = store.get(url(request));
+      return body === undefined ? undefined : new Response(body);
+    },
+    put: async (request: RequestInfo | URL, response: Response) => {
+      store.set(url(request), await response.text());
+    },
+    delete: async (request: RequestInfo | URL) => store.delete(url(request))
+  } as unknown as Cache & { store: Map<string, string> };
+}
+
+/**
+ * Durable Object state with Map-backed storage; `store` exposes the stored values and `alarm` the scheduled time
+ */
+export function createDurableObjectState(): DurableObjectState & { store: Map<string, unknown>; alarm: number | null } {
+  const store = new Map<string, unknown>();
+  const state = {
+    store,
+    alarm: null as number | null,
+    storage: {
+      get: async (key: string) => store.get(key),
+      put: async (key: string, value: unknown) => {
+        store.set(key, structuredClone(value));
+      },
+      deleteAll: async () => {
+        store.clear();
+      },
+      setAlarm: async (time: number) => {
+        state.alarm = time;
+      }
+    }
+  };
+  return state as unknown as DurableObjectState & { store: Map<string, unknown>; alarm: number | null };
+}
+
+/**
+ * Build a JSON response the way an upstream RPC endpoint sends it
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Build a minimal signed Solana wire transaction (one signature, two account keys, no instructions)
+ * Versioned transactions carry a version prefix and an empty address table lookup list.
+ */
+export function createSolanaTransaction(versioned = false): { encoded: string; signature: string; blockhash: string } {
+  const signature = new Uint8Array(64).fill(7);
+  const blockhash = new Uint8Array(32).fill(9);
+  const message = [
+    ...(versioned ? [0x80] : []),
+    1, 0, 1, // header
+    2, ...new Uint8Array(32).fill(1), ...new Uint8Array(32).fill(2), // account keys
+    ...blockhash,
+    0, // instructions
+    ...(versioned ? [0] : [])
+  ];
+
+  return {
+    encoded: base58Encode(Uint8Array.from([1, ...signature, ...message])),
+    signature: base58Encode(signature),
+    blockhash: base58Encode(blockhash)
+  };
+}
@@ -7,8 +7,12 @@ export interface Env {
   RPC_CONFIG: KVNamespace;
   RPC_HEALTH: KVNamespace;
   RPC_CACHE?: KVNamespace; // Optional cache namespace
+  CIRCUIT_BREAKER?: DurableObjectNamespace; // Shares circuit breaker state across isolates
+  TRANSACTION_REBROADCAST?: DurableObjectNamespace; // Rebroadcasts Solana transactions until they land
+  SESSION_TRACKER?: DurableObjectNamespace; // Shares client session heads across isolates
   ADMIN_API_KEY: string;
   HEALTH_CHECK_INTERVAL: string;
+  CONFIG_ENCRYPTION_KEY?: string; // Base64 AES-GCM key encrypting inline provider secrets in RPC_CONFIG
   DEBUG?: string;
 }
 
@@ -19,8 +23,81 @@ export interface RPCEndpoint {
   priority: number; // Higher priority = more likely to be selected
   timeout: number; // Request timeout in milliseconds
   maxRetries: number;
-  isActive: boolean;
-  apiKey?: string; // Optional API key for authenticated endpoints
+  enabled: boolean; // Admin flag: operators take endpoints out of rotation with this
+  /** @deprecated Legacy admin flag, migrated to `enabled` when the config is loaded */
+  isActive?: boolean;
+  /** @deprecated Sent as a bearer token; use `auth` */
+  apiKey?: string;
+  auth?: RPCAuth; // How the provider expects requests to be authenticated
+  capabilities?: RPCCapability[]; // What the node serves beyond a pruned full node
+}
+
+// Upstream authentication scheme of an endpoint
+export type RPCAuth =
+  | { type: 'bearer'; token: string } // Authorization: Bearer <token>
+  | { type: 'header'; name: string; value: string } // Custom header, e.g. x-api-key or x-token
+  | { type: 'path'; key: string } // Key appended to the URL path: https://host/v2/<key>
+  | { type: 'query'; name: string; value: string } // Key in the query string: https://host/?<name>=<value>
+  | { type: 'basic'; username: string; password: string }; // HTTP basic auth
+
+export type RPCAuthType = RPCAuth['type'];
+
+// Endpoint capability tags used for method-aware routing
+export type RPCCapability = 'archive' | 'trace' | 'debug' | 'websocket';
+
+// Runtime health state of an endpoint (stored in RPC_HEALTH, never in the persisted config)
+export interface RPCHealthState {
+  isHealthy: boolean;
+  lastChecked: number;
+  responseTime?: number;
+  height?: number;
+  lag?: number; // Blocks/slots behind the highest endpoint of the chain
+  degraded?: boolean; // Lag exceeds the chain's maxBlockLag
+  quarantined?: boolean; // Serves a different chain than configured; never selected
+  error?: string;
+}
+
+// Circuit breaker state of an upstream endpoint
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number; // When the circuit last opened
+  probeStartedAt?: number; // When the half-open trial request was handed out
+  lastError?: string;
+}
+
+// Circuit breaker entries of one chain, keyed by endpoint URL
+export type CircuitBreakerStateMap = Record<string, CircuitBreakerEntry>;
+
+// Health states keyed by `${chainId}_${url}`
+export type RPCHealthStateMap = Record<string, RPCHealthState>;
+
+// Inputs to RPC endpoint selection beyond the chain configuration
+export interface RPCSelectionOptions {
+  health?: RPCHealthStateMap;
+  exclude?: string[]; // Endpoint URLs that must not be selected
+  require?: RPCCapability[]; // Capabilities the selected endpoint must have
+  minHeight?: number; // Highest block/slot the client session has seen
+  pinned?: string; // Endpoint URL the client session is pinned to
+}
+
+// Chain family decides which RPC dialect a chain speaks
+export type ChainFamily = 'evm' | 'solana';
+
+// Health probe methods used by periodic health checks
+export interface HealthProbeConfig {
+  method: string; // Liveness method (e.g. eth_chainId, getHealth)
+  params?: any[];
+  heightMethod: string; // Method returning the current block number or slot
+  heightParams?: any[];
+}
+
+// Probe proving which chain an endpoint serves, with the answer a correct endpoint gives
+export interface ChainIdentity {
+  method: string; // eth_chainId (EVM) or getGenesisHash (Solana)
+  expected: number | string;
 }
 
 // Chain configuration
@@ -30,6 +107,144 @@ export interface ChainConfig {
   symbol: string;
   rpcs: RPCEndpoint[];
   blockExplorerUrl?: string;
+  family?: ChainFamily; // Inferred from chainId when omitted ('sol-*' = solana)
+  healthProbe?: Partial<HealthProbeConfig>; // Overrides the family default probe
+  genesisHash?: string; // Solana genesis hash endpoints must report (identity is not checked when omitted)
+  maxBlockLag?: number; // Blocks/slots an endpoint may trail the head before it counts as degraded
+  hedging?: HedgingConfig; // Hedged requests for slow reads (off when omitted)
+  methodPolicy?: MethodPolicy; // Adds to the family default method policy
+  coalescing?: CoalescingConfig; // Which methods share one in-flight upstream call
+  staleCache?: StaleCacheConfig; // Stale-if-error / stale-while-revalidate limits
+  archiveThreshold?: number; // Blocks behind the head after which state reads need an archive node
+  confirmations?: number; // Blocks behind the head after which cached block data is treated as final
+  broadcast?: BroadcastConfig; // Send raw transactions to several endpoints at once (off when omitted)
+  rebroadcast?: RebroadcastConfig; // Rebroadcast Solana transactions until confirmed (off when omitted)
+  monotonicHead?: boolean; // Never let a client session see the head go backwards (off when omitted)
+  quorum?: Record<string, QuorumPolicy>; // Methods whose result several endpoints must agree on
+}
+
+// Which JSON-RPC methods a chain forwards
+// Patterns are method names with `*` wildcards, e.g. 'eth_call', 'debug_*', '*'
+export interface MethodPolicy {
+  allow?: string[]; // When set, only matching methods are forwarded
+  deny?: string[]; // Matching methods are rejected; deny wins over allow
+  inheritDefaults?: boolean; // false drops the family default denies (kept by default)
+}
+
+// Hedging settings for a method
+export interface HedgePolicy {
+  enabled?: boolean;
+  delay?: number; // Milliseconds before the hedge is sent; defaults to the primary's p90 latency
+}
+
+// Chain-level hedging settings
+// `enabled` (default true) covers the family's default read methods and any method listed in `methods`
+export interface HedgingConfig extends HedgePolicy {
+  methods?: Record<string, HedgePolicy>;
+}
+
+// Stale cache settings
+// Entries are kept `maxStale` seconds past their TTL and served when every upstream fails
+export interface StaleCacheConfig {
+  maxStale?: number; // Replaces the default stale limit for every method
+  methods?: Record<string, number>; // Per-method stale limits; 0 disables stale serving
+  revalidate?: boolean; // Serve stale entries right away and refresh them in the background
+}
+
+// Request coalescing settings
+// `enabled` (default true) covers the family's default methods; `methods` turns single methods on or off
+export interface CoalescingConfig {
+  enabled?: boolean;
+  methods?: Record<string, boolean>;
+}
+
+// Transaction broadcast settings
+// eth_sendRawTransaction goes to `fanout` endpoints at once; the first to accept it answers
+export interface BroadcastConfig {
+  enabled?: boolean;
+  fanout?: number; // Endpoints the transaction is sent to; defaults to 3
+}
+
+// How one endpoint answered a broadcast transaction
+// `known` means the endpoint already had the transaction, which counts as accepted
+export type BroadcastOutcome = 'pending' | 'accepted' | 'known' | 'rejected' | 'failed';
+
+export interface BroadcastResult {
+  rpc: string; // Endpoint name
+  outcome: BroadcastOutcome;
+  txHash?: string;
+  error?: string;
+  duration?: number; // Milliseconds until the endpoint answered
+}
+
+// Quorum read: `required` of `of` endpoints must return the same result
+export interface QuorumPolicy {
+  required: number;
+  of: number;
+}
+
+// One endpoint's answer to a quorum read
+export interface QuorumAnswer {
+  rpc: string; // Endpoint name
+  result?: unknown;
+  error?: unknown; // JSON-RPC error returned by the endpoint
+  failure?: string; // Why no JSON-RPC answer was received (network error, HTTP status)
+}
+
+// What a client session has seen of a chain's head
+export interface SessionState {
+  height: number; // Highest block/slot returned to the session
+  rpcUrl?: string; // Endpoint that served it; the session is pinned to it
+  updatedAt: number;
+}
+
+// Solana rebroadcast settings
+// After sendTransaction succeeds, the transaction is resent every `interval` ms until it is
+// confirmed or its blockhash expires
+export interface RebroadcastConfig {
+  enabled?: boolean;
+  interval?: number; // Milliseconds between rebroadcasts; defaults to 2000
+  fanout?: number; // Endpoints each rebroadcast goes to; defaults to 3
+}
+
+// Where a rebroadcast Solana transaction stands
+// `failed` means it landed with an error, `expired` that its blockhash expired before it landed,
+// `stopped` that the loop ended without an outcome (e.g. rebroadcast was turned off for the chain)
+export type RebroadcastStatus = 'pending' | 'confirmed' | 'failed' | 'expired' | 'stopped';
+
+// A Solana wire transaction as the client sent it
+export interface RebroadcastTransaction {
+  signature: string;
+  blockhash: string;
+  encoded: string;
+  encoding: 'base58' | 'base64';
+}
+
+export interface RebroadcastState {
+  chainId: number | string;
+  signature: string;
+  blockhash: string;
+  status: RebroadcastStatus;
+  confirmationStatus?: string; // 'confirmed' or 'finalized' once landed
+  slot?: number;
+  error?: unknown; // Transaction error, or why the rebroadcast stopped
+  broadcasts: number; // Rebroadcast rounds sent
+  submittedAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+}
+
+// A signed transaction the proxy got accepted upstream
+// Repeated submissions of the same raw transaction are answered from this record
+export interface TransactionSubmission {
+  chainId: number | string;
+  txHash: string; // Keccak-256 of the raw transaction
+  result: string; // Transaction hash returned to the client
+  submittedAt: number;
+  lastSubmittedAt: number; // When the client last sent the transaction
+  submissions: number; // How many times the client sent the transaction
+  rpcs: string[]; // Endpoints the first submission went to
+  broadcast?: BroadcastResult[]; // Per-endpoint outcome when the transaction was broadcast
 }
 
 // CORS configuration
@@ -62,7 +277,10 @@ export interface HealthCheckResult {
   responseTime: number;
   lastChecked: number;
   error?: string;
-  blockNumber?: number;
+  height?: number; // Normalized chain height: block number (EVM) or slot (Solana)
+  lag?: number; // Blocks/slots behind the chain head seen by the same health check
+  degraded?: boolean; // Lag exceeds the chain's maxBlockLag
+  quarantined?: boolean; // Endpoint reported a different chain ID / genesis hash
 }
 
 // JSON-RPC types
@@ -89,6 +307,11 @@ export interface ProxyContext {
   chainId: number | string;
   request: JSONRPCRequest;
   selectedRPC?: RPCEndpoint;
+  selection?: RPCSelectionOptions;
+  attempts?: string[]; // Names of the endpoints tried, in order
+  broadcast?: BroadcastResult[]; // Per-endpoint outcome of a transaction broadcast
+  session?: string; // Client session key when the chain keeps a monotonic head
+  sessionState?: SessionState; // What the session had been served when the request came in
   startTime: number;
   requestId?: string; // Optional request ID for tracking
 }
@@ -113,7 +336,11 @@ export interface HealthSummary {
     name: string;
     totalRPCs: number;
     healthyRPCs: number;
+    degradedRPCs: number;
+    quarantinedRPCs: number;
     avgResponseTime: number;
+    headHeight?: number;
+    maxLag?: number;
   }>;
 }
 
@@ -159,6 +386,8 @@ export enum ErrorCode {
   INTERNAL_ERROR = -32603,
   CHAIN_NOT_SUPPORTED = -32001,
   NO_HEALTHY_RPCS = -32002,
+  NO_CAPABLE_RPCS = -32003,
+  QUORUM_NOT_REACHED = -32004,
 }
 
 // JSON-RPC method types for better type safety
@@ -315,7 +544,49 @@ export interface ValidationError {
 export interface CacheEntry<T = any> {
   data: T;
   timestamp: number;
-  ttl: number; // time to live in milliseconds
+  ttl: number; // time to live in seconds
+  staleTtl?: number; // seconds past `ttl` the entry may still be served as stale
+  blocks?: BlockDependency[]; // unconfirmed blocks the data was read from, checked against reorgs
+}
+
+// A block a cached response depends on
+export interface BlockDependency {
+  number: number;
+  hash: string;
+}
+
+// Cache tier that answered a lookup: L1 = per-colo Cache API, L2 = KV
+export type CacheTier = 'L1' | 'L2';
+
+// Result of a cache lookup; stale entries are past their TTL but within their stale limit
+export interface CacheHit<T = any> {
+  value: T;
+  tier: CacheTier;
+  age: number; // Seconds since the entry was stored
+  stale: boolean;
+  blocks?: BlockDependency[];
+}
+
+// What a cache purge covers
+export type CachePurgeScope =
+  | { scope: 'all' }
+  | { scope: 'chain'; chainId: string }
+  | { scope: 'method'; chainId: string; method: string }
+  | { scope: 'request'; chainId: string; method: string; params: any[] };
+
+// Cache generations of one chain
+export interface ChainCacheGenerations {
+  version: number;
+  methods: Record<string, number>;
+  // Keyed by request cache key; dropped once every entry they could hide has expired
+  requests: Record<string, { version: number; purgedAt: number }>;
+}
+
+// Cache generations: bumping a version makes every key built from the old one unreachable
+export interface CacheGenerationState {
+  global: number;
+  chains: Record<string, ChainCacheGenerations>;
+  updatedAt: number;
 }
 
 export interface CacheConfig {
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { base58Decode, base58Encode } from './base58';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('base58', () => {
+  it('encodes known vectors', () => {
+    expect(base58Encode(ascii('Hello World!'))).toBe('2NEpo7TZRRrLZSi2U');
+    expect(base58Encode(new Uint8Array(32))).toBe('11111111111111111111111111111111');
+    expect(base58Encode(Uint8Array.from([0, 0, 1]))).toBe('112');
+  });
+
+  it('decodes what it encodes, leading zeros included', () => {
+    const bytes = Uint8Array.from([0, 0, 255, 1, 2, 3]);
+    expect(base58Decode(base58Encode(bytes))).toEqual(bytes);
+    expect(base58Decode('2NEpo7TZRRrLZSi2U')).toEqual(ascii('Hello World!'));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(base58Decode('0OIl')).toBeNull();
+  });
+});
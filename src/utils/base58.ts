@@ -0,0 +1,63 @@
+/**
+ * Base58 (Bitcoin alphabet) as used by Solana for keys, signatures and blockhashes
+ */
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  // Leading zero bytes map to leading '1's
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += ALPHABET[0];
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += ALPHABET[digits[i]];
+  }
+  return result;
+}
+
+/**
+ * Decode a base58 string; null when it contains characters outside the alphabet
+ */
+export function base58Decode(value: string): Uint8Array | null {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    let carry = ALPHABET.indexOf(char);
+    if (carry < 0) {
+      return null;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (let i = 0; i < value.length && value[i] === ALPHABET[0]; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
@@ -0,0 +1,26 @@
+/**
+ * Base64 for binary data (btoa/atob only handle Latin-1 strings)
+ */
+
+/**
+ * Encode bytes as base64
+ */
+export function base64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 to bytes; throws on invalid input
+ */
+export function base64Decode(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
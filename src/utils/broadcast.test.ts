@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getBroadcastFanout, getRebroadcastPolicy, isAlreadyKnownError } from './broadcast';
+import { APP_CONSTANTS } from '../constants';
+import { ChainConfig } from '../types';
+
+function chain(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [], ...overrides };
+}
+
+describe('getBroadcastFanout', () => {
+  it('broadcasts raw transactions only when the chain enables it', () => {
+    expect(getBroadcastFanout(chain(), 'eth_sendRawTransaction')).toBe(0);
+    expect(getBroadcastFanout(chain({ broadcast: { enabled: false } }), 'eth_sendRawTransaction')).toBe(0);
+    expect(getBroadcastFanout(chain({ broadcast: {} }), 'eth_sendRawTransaction')).toBe(APP_CONSTANTS.BROADCAST.DEFAULT_FANOUT);
+    expect(getBroadcastFanout(chain({ broadcast: { fanout: 5 } }), 'eth_sendRawTransaction')).toBe(5);
+  });
+
+  it('never broadcasts other methods', () => {
+    expect(getBroadcastFanout(chain({ broadcast: {} }), 'eth_call')).toBe(0);
+  });
+});
+
+describe('isAlreadyKnownError', () => {
+  it('recognizes "already known" answers of common clients', () => {
+    expect(isAlreadyKnownError({ code: -32000, message: 'already known' })).toBe(true);
+    expect(isAlreadyKnownError({ code: -32000, message: 'nonce too low' })).toBe(false);
+    expect(isAlreadyKnownError(undefined)).toBe(false);
+  });
+});
+
+describe('getRebroadcastPolicy', () => {
+  it('only applies to sendTransaction on Solana chains that enable it', () => {
+    const solana = chain({ chainId: 'sol-main', rebroadcast: { interval: 1000 } });
+    expect(getRebroadcastPolicy(solana, 'sendTransaction')).toEqual({
+      interval: 1000,
+      fanout: APP_CONSTANTS.REBROADCAST.DEFAULT_FANOUT
+    });
+    expect(getRebroadcastPolicy(solana, 'getBalance')).toBeNull();
+    expect(getRebroadcastPolicy(chain({ rebroadcast: {} }), 'sendTransaction')).toBeNull();
+    expect(getRebroadcastPolicy(chain({ chainId: 'sol-main' }), 'sendTransaction')).toBeNull();
+  });
+});
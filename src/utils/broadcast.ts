@@ -0,0 +1,55 @@
+/**
+ * Transaction broadcast policy
+ * Decides whether a method is broadcast to several endpoints and how its answers are read
+ */
+
+import { ChainConfig, JSONRPCResponse } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily } from './chain';
+
+/**
+ * Number of endpoints a method is broadcast to on a chain; 0 when it takes the normal path
+ */
+export function getBroadcastFanout(chainConfig: ChainConfig, method: string): number {
+  const broadcast = chainConfig.broadcast;
+  const methods: readonly string[] = APP_CONSTANTS.BROADCAST.METHODS;
+
+  if (!broadcast || broadcast.enabled === false || !methods.includes(method)) {
+    return 0;
+  }
+
+  return Math.max(1, broadcast.fanout ?? APP_CONSTANTS.BROADCAST.DEFAULT_FANOUT);
+}
+
+/**
+ * Check whether a JSON-RPC error says the node already has the transaction
+ */
+export function isAlreadyKnownError(error: JSONRPCResponse['error']): boolean {
+  const message = error?.message?.toLowerCase();
+  if (!message) {
+    return false;
+  }
+
+  const patterns: readonly string[] = APP_CONSTANTS.BROADCAST.ALREADY_KNOWN_ERRORS;
+  return patterns.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Resolve the Solana rebroadcast policy for a method; null when the method is not rebroadcast
+ */
+export function getRebroadcastPolicy(chainConfig: ChainConfig, method: string): { interval: number; fanout: number } | null {
+  const rebroadcast = chainConfig.rebroadcast;
+  if (
+    !rebroadcast ||
+    rebroadcast.enabled === false ||
+    method !== APP_CONSTANTS.REBROADCAST.METHOD ||
+    getChainFamily(chainConfig) !== 'solana'
+  ) {
+    return null;
+  }
+
+  return {
+    interval: rebroadcast.interval ?? APP_CONSTANTS.REBROADCAST.DEFAULT_INTERVAL,
+    fanout: Math.max(1, rebroadcast.fanout ?? APP_CONSTANTS.REBROADCAST.DEFAULT_FANOUT)
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getChainFamily,
+  getChainHead,
+  getChainIdentity,
+  getChainIdentityMismatch,
+  getHealthProbe,
+  getRPCHealthKey,
+  normalizeHeight
+} from './chain';
+import { ChainConfig, RPCEndpoint } from '../types';
+
+const rpc = (url: string): RPCEndpoint => ({ url, name: url, priority: 1, timeout: 1000, maxRetries: 0, enabled: true });
+const evm: ChainConfig = { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [rpc('https://a.test'), rpc('https://b.test')] };
+const solana: ChainConfig = { ...evm, chainId: 'sol-test' };
+
+describe('getChainFamily', () => {
+  it('uses the configured family, then the sol- prefix', () => {
+    expect(getChainFamily(evm)).toBe('evm');
+    expect(getChainFamily(solana)).toBe('solana');
+    expect(getChainFamily({ chainId: 'devnet', family: 'solana' })).toBe('solana');
+  });
+});
+
+describe('getHealthProbe', () => {
+  it('uses the family defaults', () => {
+    expect(getHealthProbe(evm)).toEqual({ method: 'eth_chainId', params: [], heightMethod: 'eth_blockNumber', heightParams: [] });
+    expect(getHealthProbe(solana)).toEqual({ method: 'getHealth', params: [], heightMethod: 'getSlot', heightParams: [] });
+  });
+
+  it('merges per-chain overrides over the defaults', () => {
+    expect(getHealthProbe({ ...solana, healthProbe: { heightParams: [{ commitment: 'finalized' }] } }))
+      .toEqual({ method: 'getHealth', params: [], heightMethod: 'getSlot', heightParams: [{ commitment: 'finalized' }] });
+  });
+});
+
+describe('normalizeHeight', () => {
+  it('reads hex quantities, decimal strings and numbers', () => {
+    expect(normalizeHeight('0x12a05f')).toBe(0x12a05f);
+    expect(normalizeHeight('250')).toBe(250);
+    expect(normalizeHeight(300)).toBe(300);
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(normalizeHeight('')).toBeUndefined();
+    expect(normalizeHeight('0x')).toBeUndefined();
+    expect(normalizeHeight(NaN)).toBeUndefined();
+    expect(normalizeHeight(null)).toBeUndefined();
+    expect(normalizeHeight({ number: 1 })).toBeUndefined();
+  });
+});
+
+describe('getChainHead', () => {
+  it('takes the highest height any endpoint of the chain reported', () => {
+    const health = {
+      [getRPCHealthKey(1, 'https://a.test')]: { height: 100 },
+      [getRPCHealthKey(1, 'https://b.test')]: { height: 104 },
+      [getRPCHealthKey(2, 'https://a.test')]: { height: 900 }
+    } as any;
+
+    expect(getChainHead(evm, health)).toBe(104);
+    expect(getChainHead(evm, {})).toBeUndefined();
+    expect(getChainHead(evm)).toBeUndefined();
+  });
+});
+
+describe('getChainIdentity', () => {
+  it('expects the chain ID on EVM chains and the genesis hash on Solana', () => {
+    expect(getChainIdentity(evm)).toEqual({ method: 'eth_chainId', expected: 1 });
+    expect(getChainIdentity({ ...solana, genesisHash: 'genesis' })).toEqual({ method: 'getGenesisHash', expected: 'genesis' });
+  });
+
+  it('has nothing to compare against without a numeric chain ID or a genesis hash', () => {
+    expect(getChainIdentity(solana)).toBeNull();
+    expect(getChainIdentity({ ...evm, chainId: 'custom', family: 'evm' })).toBeNull();
+  });
+});
+
+describe('getChainIdentityMismatch', () => {
+  it('compares EVM chain IDs as numbers', () => {
+    const identity = { method: 'eth_chainId', expected: 137 };
+    expect(getChainIdentityMismatch(identity, '0x89')).toBeNull();
+    expect(getChainIdentityMismatch(identity, '0x1')).toBe('Chain identity mismatch: eth_chainId returned "0x1", expected 137');
+  });
+
+  it('compares Solana genesis hashes exactly', () => {
+    const identity = { method: 'getGenesisHash', expected: 'genesis' };
+    expect(getChainIdentityMismatch(identity, 'genesis')).toBeNull();
+    expect(getChainIdentityMismatch(identity, 'other')).toContain('expected "genesis"');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Chain family helpers
+ * EVM and Solana chains share the proxy but speak different JSON-RPC dialects
+ */
+
+import { ChainConfig, ChainFamily, ChainIdentity, HealthProbeConfig, RPCHealthStateMap } from '../types';
+import { APP_CONSTANTS } from '../constants';
+
+/**
+ * Resolve the chain family, falling back to the chain ID convention ('sol-*' = Solana)
+ */
+export function getChainFamily(chainConfig: Pick<ChainConfig, 'chainId' | 'family'>): ChainFamily {
+  if (chainConfig.family) {
+    return chainConfig.family;
+  }
+
+  return String(chainConfig.chainId).startsWith('sol-') ? 'solana' : 'evm';
+}
+
+/**
+ * Get the health probe for a chain, merging per-chain overrides over the family default
+ */
+export function getHealthProbe(chainConfig: ChainConfig): HealthProbeConfig {
+  const defaults = APP_CONSTANTS.HEALTH_PROBES[getChainFamily(chainConfig)];
+
+  return {
+    method: chainConfig.healthProbe?.method || defaults.method,
+    params: chainConfig.healthProbe?.params || [],
+    heightMethod: chainConfig.healthProbe?.heightMethod || defaults.heightMethod,
+    heightParams: chainConfig.healthProbe?.heightParams || []
+  };
+}
+
+/**
+ * Get the probe that proves an endpoint serves this chain
+ * EVM endpoints must report the configured chain ID, Solana endpoints the configured genesis hash;
+ * null when there is nothing to compare against (Solana without genesisHash, non-numeric EVM IDs)
+ */
+export function getChainIdentity(chainConfig: ChainConfig): ChainIdentity | null {
+  if (getChainFamily(chainConfig) === 'solana') {
+    return chainConfig.genesisHash
+      ? { method: APP_CONSTANTS.CHAIN_IDENTITY.solana, expected: chainConfig.genesisHash }
+      : null;
+  }
+
+  const chainId = Number(chainConfig.chainId);
+  return Number.isInteger(chainId) ? { method: APP_CONSTANTS.CHAIN_IDENTITY.evm, expected: chainId } : null;
+}
+
+/**
+ * Compare an identity probe result with the expected answer
+ * Returns a description of the mismatch, or null when the endpoint serves the chain
+ */
+export function getChainIdentityMismatch(identity: ChainIdentity, result: unknown): string | null {
+  const actual = typeof identity.expected === 'number' ? normalizeHeight(result) : result;
+  if (actual === identity.expected) {
+    return null;
+  }
+
+  return `Chain identity mismatch: ${identity.method} returned ${JSON.stringify(result)}, expected ${JSON.stringify(identity.expected)}`;
+}
+
+/**
+ * Get how many blocks/slots an endpoint may trail the chain head before it is degraded
+ */
+export function getMaxBlockLag(chainConfig: ChainConfig): number {
+  return chainConfig.maxBlockLag ?? APP_CONSTANTS.BLOCK_LAG[getChainFamily(chainConfig)];
+}
+
+/**
+ * Get how many blocks/slots behind the head cached block data must be before it is treated as final
+ */
+export function getConfirmations(chainConfig: ChainConfig): number {
+  return chainConfig.confirmations ?? APP_CONSTANTS.CACHE_POLICY.CONFIRMATIONS[getChainFamily(chainConfig)];
+}
+
+/**
+ * Key used for per-endpoint health data in RPC_HEALTH
+ */
+export function getRPCHealthKey(chainId: number | string, rpcUrl: string): string {
+  return `${chainId}_${rpcUrl}`;
+}
+
+/**
+ * Get the chain head from the last recorded health state: the highest height any endpoint reported
+ */
+export function getChainHead(chainConfig: ChainConfig, health?: RPCHealthStateMap): number | undefined {
+  const heights = chainConfig.rpcs
+    .map(rpc => health?.[getRPCHealthKey(chainConfig.chainId, rpc.url)]?.height)
+    .filter((height): height is number => height !== undefined);
+
+  return heights.length > 0 ? Math.max(...heights) : undefined;
+}
+
+/**
+ * Normalize a height result to a number
+ * EVM nodes return hex quantities ("0x12a05f"), Solana returns plain numbers
+ */
+export function normalizeHeight(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string' && value.length > 0) {
+    const parsed = value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { isCoalescingEnabled } from './coalescing';
+import { ChainConfig } from '../types';
+
+const evm: ChainConfig = { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [] };
+
+describe('isCoalescingEnabled', () => {
+  it('coalesces the family default read methods only', () => {
+    expect(isCoalescingEnabled(evm, 'eth_call')).toBe(true);
+    expect(isCoalescingEnabled(evm, 'eth_sendRawTransaction')).toBe(false);
+  });
+
+  it('lets per-method flags win over the chain flag', () => {
+    const chain = { ...evm, coalescing: { enabled: false, methods: { eth_blockNumber: true, eth_call: false } } };
+    expect(isCoalescingEnabled(chain, 'eth_blockNumber')).toBe(true);
+    expect(isCoalescingEnabled(chain, 'eth_getBalance')).toBe(false);
+    expect(isCoalescingEnabled({ ...evm, coalescing: { methods: { eth_call: false } } }, 'eth_call')).toBe(false);
+  });
+});
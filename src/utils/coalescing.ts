@@ -0,0 +1,24 @@
+/**
+ * Request coalescing policy
+ * Decides whether identical in-flight requests for a method share one upstream call
+ */
+
+import { ChainConfig } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily } from './chain';
+
+/**
+ * Check whether a method is coalesced on a chain
+ */
+export function isCoalescingEnabled(chainConfig: ChainConfig, method: string): boolean {
+  const coalescing = chainConfig.coalescing;
+
+  // An explicit per-method flag wins; otherwise the family defaults follow the chain flag
+  const override = coalescing?.methods?.[method];
+  if (override !== undefined) {
+    return override;
+  }
+
+  const defaults: readonly string[] = APP_CONSTANTS.COALESCING.DEFAULT_METHODS[getChainFamily(chainConfig)];
+  return coalescing?.enabled !== false && defaults.includes(method);
+}
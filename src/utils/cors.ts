@@ -182,12 +182,18 @@ export function createDevelopmentCORSConfig(): CORSConfig {
       'Accept',
       'Origin',
       'Access-Control-Request-Method',
-      'Access-Control-Request-Headers'
+      'Access-Control-Request-Headers',
+      'X-Session-ID'
     ],
     exposedHeaders: [
       'Content-Length',
       'Content-Type',
-      'X-Request-ID'
+      'X-Request-ID',
+      'X-RPC-Attempts',
+      'X-Cache',
+      'Age',
+      'X-Broadcast-Results',
+      'X-Transaction-Replay'
     ],
     maxAge: 86400,
     credentials: false
@@ -245,6 +251,7 @@ export function createAllowAllCORSConfig(): CORSConfig {
       'Access-Control-Request-Method',
       'Access-Control-Request-Headers',
       'X-API-Key',
+      'X-Session-ID',
       'X-Client-Version',
       'User-Agent',
       'Cache-Control',
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { RequestDeduplicator } from './deduplicator';
+
+describe('RequestDeduplicator', () => {
+  it('shares one in-flight call between identical requests', async () => {
+    const deduplicator = new RequestDeduplicator();
+    let calls = 0;
+    let release: (value: string) => void = () => {};
+    const call = () => {
+      calls++;
+      return new Promise<string>(resolve => {
+        release = resolve;
+      });
+    };
+
+    const first = deduplicator.deduplicate('key', call);
+    const second = deduplicator.deduplicate('key', call);
+    expect(deduplicator.getPendingCount()).toBe(1);
+    release('result');
+
+    expect(await Promise.all([first, second])).toEqual(['result', 'result']);
+    expect(calls).toBe(1);
+    expect(deduplicator.getPendingCount()).toBe(0);
+  });
+
+  it('starts a new call once the previous one has settled, even after a failure', async () => {
+    const deduplicator = new RequestDeduplicator();
+
+    await expect(deduplicator.deduplicate('key', async () => {
+      throw new Error('upstream down');
+    })).rejects.toThrow('upstream down');
+
+    expect(await deduplicator.deduplicate('key', async () => 'second')).toBe('second');
+  });
+
+  it('does not join calls older than maxAge', async () => {
+    const deduplicator = new RequestDeduplicator(0);
+    // Never settles, like an upstream call that hangs
+    deduplicator.deduplicate('key', () => new Promise<string>(() => {}));
+
+    expect(await deduplicator.deduplicate('key', async () => 'fresh')).toBe('fresh');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getHedgeDelay, getHedgePolicy } from './hedging';
+import { APP_CONSTANTS } from '../constants';
+import { ChainConfig, HedgingConfig, RPCEndpoint } from '../types';
+
+function chain(hedging?: HedgingConfig): ChainConfig {
+  return { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [], hedging };
+}
+
+describe('getHedgePolicy', () => {
+  it('hedges nothing when the chain has no hedging settings', () => {
+    expect(getHedgePolicy(chain(), 'eth_call')).toBeNull();
+  });
+
+  it('hedges the family default methods once enabled', () => {
+    expect(getHedgePolicy(chain({ delay: 100 }), 'eth_call')).toEqual({ delay: 100 });
+    expect(getHedgePolicy(chain({ delay: 100 }), 'eth_sendRawTransaction')).toBeNull();
+  });
+
+  it('lets a per-method entry add a method and replace the delay', () => {
+    const policy = getHedgePolicy(chain({ delay: 100, methods: { eth_getLogs: { delay: 300 } } }), 'eth_getLogs');
+    expect(policy).toEqual({ delay: 300 });
+  });
+
+  it('lets a per-method flag win over the chain flag', () => {
+    expect(getHedgePolicy(chain({ methods: { eth_call: { enabled: false } } }), 'eth_call')).toBeNull();
+    expect(getHedgePolicy(chain({ enabled: false, methods: { eth_call: { enabled: true } } }), 'eth_call')).toEqual({ delay: undefined });
+    expect(getHedgePolicy(chain({ enabled: false }), 'eth_call')).toBeNull();
+  });
+});
+
+describe('getHedgeDelay', () => {
+  const primary: RPCEndpoint = { url: 'https://hedge-delay.test', name: 'primary', priority: 1, timeout: 1000, maxRetries: 0, enabled: true };
+
+  it('uses the configured delay', () => {
+    expect(getHedgeDelay({ delay: 0 }, primary)).toBe(0);
+  });
+
+  it('falls back to the default delay while the primary has no latency samples', () => {
+    expect(getHedgeDelay({}, primary)).toBe(APP_CONSTANTS.HEDGING.DEFAULT_DELAY);
+  });
+});
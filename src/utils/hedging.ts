@@ -0,0 +1,49 @@
+/**
+ * Hedged request policy
+ * Decides whether a method is hedged on a chain and after how long
+ */
+
+import { ChainConfig, RPCEndpoint } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { RPCSelector } from '../services/rpc_selector';
+import { getChainFamily } from './chain';
+
+/**
+ * Resolve the hedging policy for a method; null when the method must not be hedged
+ */
+export function getHedgePolicy(chainConfig: ChainConfig, method: string): { delay?: number } | null {
+  const hedging = chainConfig.hedging;
+  if (!hedging) {
+    return null;
+  }
+
+  const override = hedging.methods?.[method];
+  const defaults: readonly string[] = APP_CONSTANTS.HEDGING.DEFAULT_METHODS[getChainFamily(chainConfig)];
+
+  // An explicit per-method flag wins; otherwise default and listed methods follow the chain flag
+  const enabled = override?.enabled
+    ?? (hedging.enabled !== false && (override !== undefined || defaults.includes(method)));
+
+  if (!enabled) {
+    return null;
+  }
+
+  return { delay: override?.delay ?? hedging.delay };
+}
+
+/**
+ * Milliseconds to wait for the primary endpoint before sending the hedge
+ * A configured delay wins; otherwise the primary's latency percentile is used
+ */
+export function getHedgeDelay(policy: { delay?: number }, primary: RPCEndpoint): number {
+  if (policy.delay !== undefined) {
+    return policy.delay;
+  }
+
+  const percentile = RPCSelector.getLatencyPercentile(primary.url, APP_CONSTANTS.HEDGING.LATENCY_PERCENTILE);
+  if (percentile === 0) {
+    return APP_CONSTANTS.HEDGING.DEFAULT_DELAY;
+  }
+
+  return Math.max(APP_CONSTANTS.HEDGING.MIN_DELAY, percentile);
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { keccak256 } from './keccak';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('keccak256', () => {
+  it('matches the known vectors for short inputs', () => {
+    expect(hex(keccak256(new Uint8Array(0)))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(hex(keccak256(ascii('abc')))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+
+  // The rate is 136 bytes: one byte short of a block, exactly one block, and more than one block
+  it('pads and absorbs inputs around the block boundary', () => {
+    expect(hex(keccak256(ascii('a'.repeat(135))))).toBe('34367dc248bbd832f4e3e69dfaac2f92638bd0bbd18f2912ba4ef454919cf446');
+    expect(hex(keccak256(ascii('a'.repeat(136))))).toBe('a6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e');
+    expect(hex(keccak256(ascii('a'.repeat(200))))).toBe('96ea54061def936c4be90b518992fdc6f12f535068a256229aca54267b4d084d');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Keccak-256 as used by Ethereum (original Keccak padding, not NIST SHA3-256)
+ * WebCrypto has no Keccak, so transaction hashes are computed here
+ */
+
+const MASK = (1n << 64n) - 1n;
+const RATE = 136; // Bytes absorbed per permutation for a 256-bit output
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offset of lane (x, y) at index x + 5y
+const ROTATIONS = [
+  0n, 1n, 62n, 28n, 27n,
+  36n, 44n, 6n, 55n, 20n,
+  3n, 10n, 43n, 25n, 39n,
+  41n, 45n, 15n, 21n, 8n,
+  18n, 2n, 61n, 56n, 14n,
+];
+
+function rotate(value: bigint, shift: bigint): bigint {
+  return shift === 0n ? value : ((value << shift) | (value >> (64n - shift))) & MASK;
+}
+
+function permute(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotate(c[(x + 1) % 5], 1n);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ (~b[(x + 1) % 5 + y] & MASK & b[(x + 2) % 5 + y]);
+      }
+    }
+
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
+
+/**
+ * Compute the Keccak-256 digest of a byte string
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const state = new Array<bigint>(25).fill(0n);
+
+  // Pad to a whole number of blocks: a 0x01 marker after the data, 0x80 on the last byte
+  const padded = new Uint8Array((Math.floor(data.length / RATE) + 1) * RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  for (let offset = 0; offset < padded.length; offset += RATE) {
+    for (let lane = 0; lane < RATE / 8; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+      }
+      state[lane] ^= value;
+    }
+    permute(state);
+  }
+
+  // Lanes are little-endian
+  const digest = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    digest[i] = Number((state[i >> 3] >> BigInt((i & 7) * 8)) & 0xffn);
+  }
+  return digest;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { KeyedCounters } from './keyed_counters';
+
+describe('KeyedCounters', () => {
+  const create = () => new KeyedCounters(() => ({ sent: 0, won: 0 }));
+
+  it('keeps counters per chain and method and sums them', () => {
+    const counters = create();
+    counters.get(1, 'eth_call').sent++;
+    counters.get(1, 'eth_call').won++;
+    counters.get('1', 'eth_getBalance').sent++;
+    counters.get('sol-main', 'getBalance').sent += 2;
+
+    expect(counters.summarize()).toEqual({
+      total: { sent: 4, won: 1 },
+      byChain: {
+        '1': { eth_call: { sent: 1, won: 1 }, eth_getBalance: { sent: 1, won: 0 } },
+        'sol-main': { getBalance: { sent: 2, won: 0 } }
+      }
+    });
+  });
+
+  it('hands out copies so callers cannot change the counts', () => {
+    const counters = create();
+    counters.get(1, 'eth_call').sent++;
+    counters.summarize().byChain['1'].eth_call.sent = 100;
+
+    expect(counters.get(1, 'eth_call').sent).toBe(1);
+  });
+
+  it('starts again at zero after clear', () => {
+    const counters = create();
+    counters.get(1, 'eth_call').sent++;
+    counters.clear();
+
+    expect(counters.summarize()).toEqual({ total: { sent: 0, won: 0 }, byChain: {} });
+  });
+});
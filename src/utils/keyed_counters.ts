@@ -0,0 +1,56 @@
+/**
+ * Counters kept per chain and method
+ * Each chain/method pair owns one set of named counters, created at zero on first use
+ */
+
+export class KeyedCounters<T extends { [K in keyof T]: number }> {
+  private counts: Map<string, Map<string, T>> = new Map();
+  private createEmpty: () => T;
+
+  constructor(createEmpty: () => T) {
+    this.createEmpty = createEmpty;
+  }
+
+  /**
+   * Get the counters of a chain/method, creating them on first use
+   */
+  get(chainId: number | string, method: string): T {
+    const chainKey = String(chainId);
+    let methods = this.counts.get(chainKey);
+    if (!methods) {
+      methods = new Map();
+      this.counts.set(chainKey, methods);
+    }
+
+    let counts = methods.get(method);
+    if (!counts) {
+      counts = this.createEmpty();
+      methods.set(method, counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Copy the counters per chain/method, with the sum of every counter across all of them
+   */
+  summarize(): { total: T; byChain: Record<string, Record<string, T>> } {
+    const total = this.createEmpty();
+    const byChain: Record<string, Record<string, T>> = {};
+
+    for (const [chainKey, methods] of this.counts.entries()) {
+      byChain[chainKey] = {};
+      for (const [method, counts] of methods.entries()) {
+        byChain[chainKey][method] = { ...counts };
+        for (const name of Object.keys(counts) as Array<keyof T>) {
+          (total[name] as number) += counts[name];
+        }
+      }
+    }
+
+    return { total, byChain };
+  }
+
+  clear(): void {
+    this.counts.clear();
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getMethodPolicy, isMethodAllowed, matchesMethodPattern } from './method_policy';
+import { ChainConfig, MethodPolicy } from '../types';
+
+function chain(methodPolicy?: MethodPolicy, chainId: number | string = 1): ChainConfig {
+  return { chainId, name: 'Test', symbol: 'ETH', rpcs: [], methodPolicy };
+}
+
+describe('matchesMethodPattern', () => {
+  it('matches exact names and wildcards', () => {
+    expect(matchesMethodPattern('eth_call', 'eth_call')).toBe(true);
+    expect(matchesMethodPattern('eth_callMany', 'eth_call')).toBe(false);
+    expect(matchesMethodPattern('debug_traceCall', 'debug_*')).toBe(true);
+    expect(matchesMethodPattern('getBalance', 'get*')).toBe(true);
+    expect(matchesMethodPattern('anything', '*')).toBe(true);
+  });
+
+  it('treats dots in patterns literally', () => {
+    expect(matchesMethodPattern('a.b', 'a.*')).toBe(true);
+    expect(matchesMethodPattern('axb', 'a.b')).toBe(false);
+  });
+});
+
+describe('isMethodAllowed', () => {
+  it('denies the family defaults when the chain has no policy', () => {
+    expect(isMethodAllowed(chain(), 'debug_traceTransaction')).toBe(false);
+    expect(isMethodAllowed(chain(), 'eth_call')).toBe(true);
+    expect(isMethodAllowed(chain(undefined, 'sol-main'), 'debug_traceTransaction')).toBe(true);
+  });
+
+  it('merges the chain policy with the default denies', () => {
+    expect(getMethodPolicy(chain({ deny: ['eth_sign'] }))).toEqual({
+      deny: ['debug_*', 'admin_*', 'personal_*', 'txpool_*', 'eth_sign']
+    });
+    expect(isMethodAllowed(chain({ deny: ['eth_sign'] }), 'debug_traceTransaction')).toBe(false);
+    expect(isMethodAllowed(chain({ allow: ['debug_*', 'eth_*'] }), 'debug_traceTransaction')).toBe(false);
+    expect(isMethodAllowed(chain({ allow: ['debug_*', 'eth_*'] }), 'eth_call')).toBe(true);
+  });
+
+  it('drops the default denies when the chain opts out', () => {
+    const policy = chain({ allow: ['debug_*'], inheritDefaults: false });
+    expect(getMethodPolicy(policy)).toEqual({ allow: ['debug_*'] });
+    expect(isMethodAllowed(policy, 'debug_traceTransaction')).toBe(true);
+  });
+
+  it('denies airdrops on Solana mainnet only', () => {
+    const mainnetHash = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+    expect(isMethodAllowed(chain(undefined, 'sol-main'), 'requestAirdrop')).toBe(false);
+    expect(isMethodAllowed({ ...chain(undefined, 'sol-beta'), genesisHash: mainnetHash }, 'requestAirdrop')).toBe(false);
+    expect(isMethodAllowed(chain({ deny: ['getProgramAccounts'] }, 'sol-main'), 'requestAirdrop')).toBe(false);
+    expect(isMethodAllowed(chain(undefined, 'sol-dev'), 'requestAirdrop')).toBe(true);
+  });
+
+  it('forwards only allowed methods and lets deny win over allow', () => {
+    const policy = chain({ allow: ['eth_*'], deny: ['eth_sign*'] });
+    expect(isMethodAllowed(policy, 'eth_call')).toBe(true);
+    expect(isMethodAllowed(policy, 'eth_signTypedData_v4')).toBe(false);
+    expect(isMethodAllowed(policy, 'net_version')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Method policy helpers
+ * Decide which JSON-RPC methods a chain forwards upstream
+ */
+
+import { ChainConfig, MethodPolicy } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily } from './chain';
+
+// Method names with optional `*` wildcards ('eth_call', 'debug_*', 'get*', '*')
+export const METHOD_PATTERN = /^[A-Za-z0-9_.*]+$/;
+
+/**
+ * Check whether a method matches a pattern
+ */
+export function matchesMethodPattern(method: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return method === pattern;
+  }
+
+  const regex = new RegExp(
+    '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+  );
+  return regex.test(method);
+}
+
+/**
+ * Get the methods a chain denies by default: its family's denies, plus those of Solana mainnet
+ */
+export function getDefaultDeny(chainConfig: ChainConfig): string[] {
+  const family = getChainFamily(chainConfig);
+  const deny: string[] = [...APP_CONSTANTS.METHOD_POLICIES[family].deny];
+
+  const mainnet = APP_CONSTANTS.SOLANA_MAINNET;
+  if (family === 'solana' && (chainConfig.genesisHash === mainnet.GENESIS_HASH || chainConfig.chainId === mainnet.CHAIN_ID)) {
+    deny.push(...mainnet.DENY);
+  }
+  return deny;
+}
+
+/**
+ * Get the effective method policy: the chain's own policy with the default denies merged in,
+ * unless the chain opts out with `inheritDefaults: false`
+ */
+export function getMethodPolicy(chainConfig: ChainConfig): MethodPolicy {
+  const defaults = getDefaultDeny(chainConfig);
+  const policy = chainConfig.methodPolicy;
+  if (!policy) {
+    return { deny: defaults };
+  }
+
+  const { inheritDefaults, ...lists } = policy;
+  if (inheritDefaults === false) {
+    return lists;
+  }
+  return { ...lists, deny: [...new Set([...defaults, ...(lists.deny || [])])] };
+}
+
+/**
+ * Check whether a chain forwards a method
+ */
+export function isMethodAllowed(chainConfig: ChainConfig, method: string): boolean {
+  const policy = getMethodPolicy(chainConfig);
+
+  if (policy.deny?.some(pattern => matchesMethodPattern(method, pattern))) {
+    return false;
+  }
+
+  if (policy.allow) {
+    return policy.allow.some(pattern => matchesMethodPattern(method, pattern));
+  }
+
+  return true;
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getRequiredCapabilities } from './method_requirements';
+import { ChainConfig } from '../types';
+
+const evm: ChainConfig = { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [] };
+const solana: ChainConfig = { ...evm, chainId: 'sol-test' };
+const request = (method: string, params: unknown[] = []) => ({ jsonrpc: '2.0' as const, id: 1, method, params });
+
+describe('getRequiredCapabilities', () => {
+  it('routes debug, trace and subscription methods to capable endpoints', () => {
+    expect(getRequiredCapabilities(evm, request('debug_traceTransaction', ['0xabc']))).toEqual(['debug']);
+    expect(getRequiredCapabilities(evm, request('trace_block', ['latest']))).toEqual(['trace']);
+    expect(getRequiredCapabilities(evm, request('eth_subscribe', ['newHeads']))).toEqual(['websocket']);
+    expect(getRequiredCapabilities(evm, request('eth_blockNumber'))).toEqual([]);
+  });
+
+  it('needs an archive node for state older than the archive threshold', () => {
+    const head = 1000;
+    expect(getRequiredCapabilities(evm, request('eth_getBalance', ['0x01', '0x3e8']), head)).toEqual([]);
+    expect(getRequiredCapabilities(evm, request('eth_getBalance', ['0x01', `0x${(head - 128).toString(16)}`]), head)).toEqual([]);
+    expect(getRequiredCapabilities(evm, request('eth_getBalance', ['0x01', `0x${(head - 129).toString(16)}`]), head)).toEqual(['archive']);
+    expect(getRequiredCapabilities(evm, request('eth_getStorageAt', ['0x01', '0x0', { blockNumber: '0x1' }]), head)).toEqual(['archive']);
+  });
+
+  it('uses the chain archive threshold', () => {
+    expect(getRequiredCapabilities({ ...evm, archiveThreshold: 10 }, request('eth_call', [{}, '0x3d0']), 1000)).toEqual(['archive']);
+  });
+
+  it('only sends earliest to archive nodes when the head is unknown', () => {
+    expect(getRequiredCapabilities(evm, request('eth_getCode', ['0x01', 'earliest']))).toEqual(['archive']);
+    expect(getRequiredCapabilities(evm, request('eth_getCode', ['0x01', '0x1']))).toEqual([]);
+  });
+
+  it('does not need archive for tags, block hashes or Solana', () => {
+    const hash = `0x${'ab'.repeat(32)}`;
+    expect(getRequiredCapabilities(evm, request('eth_call', [{}, 'latest']), 1000)).toEqual([]);
+    expect(getRequiredCapabilities(evm, request('eth_call', [{}, { blockHash: hash }]), 1000)).toEqual([]);
+    expect(getRequiredCapabilities(solana, request('eth_getBalance', ['0x01', 'earliest']), 1000)).toEqual([]);
+  });
+});
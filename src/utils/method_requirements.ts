@@ -0,0 +1,79 @@
+/**
+ * Method capability requirements
+ * Work out which endpoint capabilities a JSON-RPC request needs
+ */
+
+import { ChainConfig, JSONRPCRequest, RPCCapability } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily, normalizeHeight } from './chain';
+
+/**
+ * Get the capabilities an endpoint needs to serve a request
+ * `head` is the chain head used to tell recent state from archive state; without it
+ * only explicit 'earliest' reads are routed to archive nodes
+ */
+export function getRequiredCapabilities(
+  chainConfig: ChainConfig,
+  request: JSONRPCRequest,
+  head?: number
+): RPCCapability[] {
+  const required: RPCCapability[] = [];
+
+  if (request.method.startsWith('debug_')) {
+    required.push('debug');
+  }
+
+  if (request.method.startsWith('trace_')) {
+    required.push('trace');
+  }
+
+  if (request.method === 'eth_subscribe' || request.method === 'eth_unsubscribe') {
+    required.push('websocket');
+  }
+
+  if (getChainFamily(chainConfig) === 'evm' && needsArchive(chainConfig, request, head)) {
+    required.push('archive');
+  }
+
+  return required;
+}
+
+/**
+ * Check whether a state read targets a block older than the chain's archive threshold
+ */
+function needsArchive(chainConfig: ChainConfig, request: JSONRPCRequest, head?: number): boolean {
+  const blockParamIndex: Record<string, number> = APP_CONSTANTS.CAPABILITIES.BLOCK_PARAM_INDEX;
+  const index = blockParamIndex[request.method];
+  if (index === undefined) {
+    return false;
+  }
+
+  const blockParam = request.params?.[index];
+  if (blockParam === 'earliest') {
+    return true;
+  }
+
+  const blockNumber = resolveBlockNumber(blockParam);
+  if (blockNumber === undefined || head === undefined) {
+    return false;
+  }
+
+  const threshold = chainConfig.archiveThreshold ?? APP_CONSTANTS.CAPABILITIES.DEFAULT_ARCHIVE_THRESHOLD;
+  return head - blockNumber > threshold;
+}
+
+/**
+ * Resolve a block parameter to a number
+ * Accepts hex quantities and EIP-1898 `{ blockNumber }` objects; tags and block hashes yield undefined
+ */
+function resolveBlockNumber(param: unknown): number | undefined {
+  if (param && typeof param === 'object' && 'blockNumber' in param) {
+    return resolveBlockNumber((param as { blockNumber: unknown }).blockNumber);
+  }
+
+  if (typeof param === 'string' && param.startsWith('0x')) {
+    return normalizeHeight(param);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getQuorumPolicy, normalizeQuorumAnswer } from './quorum';
+import { ChainConfig } from '../types';
+
+const evm = { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [] } as ChainConfig;
+const solana = { ...evm, chainId: 'sol-test' } as ChainConfig;
+
+describe('getQuorumPolicy', () => {
+  it('returns the policy of a method that needs agreement', () => {
+    const chain = { ...evm, quorum: { eth_call: { required: 2, of: 3 } } };
+    expect(getQuorumPolicy(chain, 'eth_call')).toEqual({ required: 2, of: 3 });
+    expect(getQuorumPolicy(chain, 'eth_getBalance')).toBeNull();
+  });
+
+  it('ignores a policy that one answer satisfies', () => {
+    expect(getQuorumPolicy({ ...evm, quorum: { eth_call: { required: 1, of: 3 } } }, 'eth_call')).toBeNull();
+  });
+});
+
+describe('normalizeQuorumAnswer', () => {
+  const answer = (result: unknown) => ({ jsonrpc: '2.0' as const, id: 1, result });
+
+  it('ignores key order and hex case', () => {
+    expect(normalizeQuorumAnswer(evm, answer({ b: '0xABC', a: [1, { d: 2, c: 3 }] })))
+      .toBe(normalizeQuorumAnswer(evm, answer({ a: [1, { c: 3, d: 2 }], b: '0xabc' })));
+  });
+
+  it('tells different results apart', () => {
+    expect(normalizeQuorumAnswer(evm, answer('0x1'))).not.toBe(normalizeQuorumAnswer(evm, answer('0x2')));
+    expect(normalizeQuorumAnswer(evm, answer(null))).not.toBe(normalizeQuorumAnswer(evm, answer('null')));
+  });
+
+  it('leaves errors out of the comparison', () => {
+    const error = { jsonrpc: '2.0' as const, id: 1, error: { code: 3, message: 'execution reverted' } };
+    expect(normalizeQuorumAnswer(evm, error)).toBeNull();
+    expect(normalizeQuorumAnswer(evm, answer('execution reverted'))).not.toBeNull();
+  });
+
+  it('ignores the Solana context slot', () => {
+    const atSlot = (slot: number) => answer({ context: { slot }, value: { lamports: 5 } });
+    expect(normalizeQuorumAnswer(solana, atSlot(100))).toBe(normalizeQuorumAnswer(solana, atSlot(101)));
+    // EVM results that happen to look the same are compared whole
+    expect(normalizeQuorumAnswer(evm, atSlot(100))).not.toBe(normalizeQuorumAnswer(evm, atSlot(101)));
+  });
+});
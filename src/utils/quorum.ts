@@ -0,0 +1,57 @@
+/**
+ * Quorum read policy
+ * Decides which methods need several endpoints to agree and how their answers are compared
+ */
+
+import { ChainConfig, JSONRPCResponse, QuorumPolicy } from '../types';
+import { getChainFamily } from './chain';
+
+/**
+ * Resolve the quorum policy for a method; null when one endpoint's answer is trusted
+ * (no policy, or one that a single answer would satisfy)
+ */
+export function getQuorumPolicy(chainConfig: ChainConfig, method: string): QuorumPolicy | null {
+  const policy = chainConfig.quorum?.[method];
+  return policy && policy.required > 1 ? policy : null;
+}
+
+/**
+ * Reduce a JSON-RPC answer to a string that is equal for equivalent answers
+ * Object keys are sorted and hex strings lowercased. Solana's context slot is dropped,
+ * since nodes answer the same value at slightly different slots.
+ * Returns null for errors, which are failures and never count toward a quorum.
+ */
+export function normalizeQuorumAnswer(chainConfig: ChainConfig, response: JSONRPCResponse): string | null {
+  if (response.error) {
+    return null;
+  }
+
+  let result = response.result;
+  if (
+    getChainFamily(chainConfig) === 'solana' &&
+    result && typeof result === 'object' && 'context' in result && 'value' in result
+  ) {
+    result = result.value;
+  }
+
+  return canonicalize({ result });
+}
+
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    return JSON.stringify(value.toLowerCase());
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getEndpointSecrets, hasInlineSecrets, isInlineSecret, redactEndpoint } from './secrets';
+import { RPCConfig, RPCEndpoint } from '../types';
+
+const rpc: RPCEndpoint = { url: 'https://rpc.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true };
+
+function configWith(endpoint: RPCEndpoint): RPCConfig {
+  return { chains: { 1: { chainId: 1, name: 'Test', symbol: 'ETH', rpcs: [endpoint] } } } as unknown as RPCConfig;
+}
+
+describe('provider secrets', () => {
+  it('lists the legacy apiKey and the credential fields of the auth scheme', () => {
+    expect(getEndpointSecrets({ ...rpc, apiKey: 'k', auth: { type: 'header', name: 'x-api-key', value: 'v' } }))
+      .toEqual([{ field: 'apiKey', value: 'k' }, { field: 'auth.value', value: 'v' }]);
+    expect(getEndpointSecrets(rpc)).toEqual([]);
+  });
+
+  it('tells plain-text secrets from references, ciphertext and placeholders', () => {
+    expect(isInlineSecret('abc')).toBe(true);
+    expect(isInlineSecret('secret://KEY')).toBe(false);
+    expect(isInlineSecret('enc:v1:aaa:bbb')).toBe(false);
+    expect(isInlineSecret('[REDACTED]')).toBe(false);
+  });
+
+  it('redacts credentials but keeps references and non-secret fields', () => {
+    expect(redactEndpoint({ ...rpc, apiKey: 'secret://KEY', auth: { type: 'header', name: 'x-api-key', value: 'v' } }))
+      .toMatchObject({ apiKey: 'secret://KEY', auth: { type: 'header', name: 'x-api-key', value: '[REDACTED]' } });
+  });
+
+  it('finds configs that still hold plain-text secrets', () => {
+    expect(hasInlineSecrets(configWith({ ...rpc, auth: { type: 'bearer', token: 't' } }))).toBe(true);
+    expect(hasInlineSecrets(configWith({ ...rpc, auth: { type: 'bearer', token: 'enc:v1:a:b' } }))).toBe(false);
+    expect(hasInlineSecrets(configWith(rpc))).toBe(false);
+  });
+});
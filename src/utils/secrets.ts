@@ -0,0 +1,107 @@
+/**
+ * Provider secret helpers
+ * Endpoint credentials are stored as `secret://NAME` references to Worker secrets, as AES-GCM
+ * ciphertext (`enc:v1:...`) or, in older configs, as plain text. Admin responses only ever show references.
+ */
+
+import { ChainConfig, RPCAuth, RPCConfig, RPCEndpoint } from '../types';
+import { APP_CONSTANTS } from '../constants';
+
+// Worker secret names allowed in secret:// references
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SECRET_FIELDS: Record<string, readonly string[]> = APP_CONSTANTS.UPSTREAM_AUTH.SECRET_FIELDS;
+
+export function isSecretRef(value: string): boolean {
+  return value.startsWith(APP_CONSTANTS.SECRETS.REF_PREFIX);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(APP_CONSTANTS.SECRETS.ENCRYPTED_PREFIX);
+}
+
+/**
+ * Check whether a value is a plain-text secret (not a reference, ciphertext or redaction placeholder)
+ */
+export function isInlineSecret(value: string): boolean {
+  return !isSecretRef(value) && !isEncryptedSecret(value) && value !== APP_CONSTANTS.SECRETS.REDACTED;
+}
+
+/**
+ * List an endpoint's secret values: the legacy apiKey and its auth scheme's credential fields
+ * Fields are named like 'apiKey' or 'auth.token'
+ */
+export function getEndpointSecrets(rpc: RPCEndpoint): { field: string; value: string }[] {
+  const secrets: { field: string; value: string }[] = [];
+
+  if (typeof rpc.apiKey === 'string') {
+    secrets.push({ field: 'apiKey', value: rpc.apiKey });
+  }
+
+  const auth = rpc.auth as Record<string, unknown> | undefined;
+  for (const field of (rpc.auth && SECRET_FIELDS[rpc.auth.type]) || []) {
+    const value = auth?.[field];
+    if (typeof value === 'string') {
+      secrets.push({ field: `auth.${field}`, value });
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * Copy an endpoint with each secret value replaced
+ */
+export function mapEndpointSecrets(
+  rpc: RPCEndpoint,
+  transform: (value: string, field: string) => string
+): RPCEndpoint {
+  const secrets = getEndpointSecrets(rpc);
+  if (secrets.length === 0) {
+    return rpc;
+  }
+
+  const result: RPCEndpoint = { ...rpc };
+  const auth: Record<string, unknown> | undefined = rpc.auth ? { ...rpc.auth } : undefined;
+
+  for (const { field, value } of secrets) {
+    if (field === 'apiKey') {
+      result.apiKey = transform(value, field);
+    } else if (auth) {
+      auth[field.slice('auth.'.length)] = transform(value, field);
+    }
+  }
+
+  if (auth) {
+    result.auth = auth as RPCAuth;
+  }
+  return result;
+}
+
+/**
+ * Hide stored secrets; references are kept since they only name the Worker secret
+ */
+export function redactEndpoint(rpc: RPCEndpoint): RPCEndpoint {
+  return mapEndpointSecrets(rpc, value => isSecretRef(value) ? value : APP_CONSTANTS.SECRETS.REDACTED);
+}
+
+export function redactChainConfig(chainConfig: ChainConfig): ChainConfig {
+  return { ...chainConfig, rpcs: (chainConfig.rpcs || []).map(redactEndpoint) };
+}
+
+export function redactConfig(config: RPCConfig): RPCConfig {
+  const chains: Record<string, ChainConfig> = {};
+  for (const [chainId, chainConfig] of Object.entries(config.chains || {})) {
+    chains[chainId] = redactChainConfig(chainConfig);
+  }
+  return { ...config, chains };
+}
+
+/**
+ * Check whether a config still holds plain-text secrets
+ */
+export function hasInlineSecrets(config: RPCConfig): boolean {
+  return Object.values(config.chains || {}).some(chainConfig =>
+    (chainConfig?.rpcs || []).some(rpc => getEndpointSecrets(rpc).some(({ value }) => isInlineSecret(value)))
+  );
+}
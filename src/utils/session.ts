@@ -0,0 +1,61 @@
+/**
+ * Client session helpers
+ * With `monotonicHead` on, a session (one client on one chain) never sees the head go backwards
+ */
+
+import { ChainConfig, JSONRPCRequest } from '../types';
+import { APP_CONSTANTS } from '../constants';
+import { getChainFamily, normalizeHeight } from './chain';
+
+const { HEADER, API_KEY_HEADER } = APP_CONSTANTS.SESSION;
+
+/**
+ * Get the session key of a request; null when the chain keeps no sessions or the client sent no id
+ * Transactions are left out so broadcasts aren't narrowed to the pinned endpoint.
+ * Solana heads are tracked per commitment, since a finalized slot trails a processed one.
+ */
+export function getSessionKey(request: Request, chainConfig: ChainConfig, rpcRequest: JSONRPCRequest): string | null {
+  if (!chainConfig.monotonicHead) {
+    return null;
+  }
+
+  const transactionMethods: string[] = [APP_CONSTANTS.TRANSACTIONS.SUBMIT_METHOD, APP_CONSTANTS.REBROADCAST.METHOD];
+  if (transactionMethods.includes(rpcRequest.method)) {
+    return null;
+  }
+
+  const sessionId = request.headers.get(HEADER) || request.headers.get(API_KEY_HEADER);
+  if (!sessionId) {
+    return null;
+  }
+
+  let scope = 'latest';
+  if (getChainFamily(chainConfig) === 'solana') {
+    const config = (rpcRequest.params || []).find(
+      param => param && typeof param === 'object' && !Array.isArray(param) && 'commitment' in param
+    );
+    scope = config?.commitment ?? 'finalized';
+  }
+
+  return `${chainConfig.chainId}:${scope}:${sessionId}`;
+}
+
+/**
+ * Get the chain head a response shows; undefined when the response says nothing about the head
+ * EVM: eth_blockNumber and the latest block. Solana: getSlot and the context slot of any response.
+ */
+export function getResponseHeight(chainConfig: ChainConfig, request: JSONRPCRequest, result: any): number | undefined {
+  if (getChainFamily(chainConfig) === 'solana') {
+    return request.method === 'getSlot' ? normalizeHeight(result) : normalizeHeight(result?.context?.slot);
+  }
+
+  if (request.method === 'eth_blockNumber') {
+    return normalizeHeight(result);
+  }
+
+  if (request.method === 'eth_getBlockByNumber' && (request.params?.[0] ?? 'latest') === 'latest') {
+    return normalizeHeight(result?.number);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { getTransactionHash, isSolanaSignature, parseSolanaTransaction } from './transaction';
+import { base58Decode } from './base58';
+import { createSolanaTransaction } from '../testing/fakes';
+import { keccak256 } from './keccak';
+
+// Signed example transaction from EIP-155
+const EIP155_TX = '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+
+/**
+ * RLP-encode a hex string (without 0x) or a list of encoded items
+ */
+function rlp(item: string | string[]): string {
+  const payload = Array.isArray(item) ? item.join('') : item;
+  if (!Array.isArray(item) && payload.length === 2 && parseInt(payload, 16) < 0x80) {
+    return payload;
+  }
+  const base = Array.isArray(item) ? 0xc0 : 0x80;
+  const length = payload.length / 2;
+  if (length <= 55) {
+    return (base + length).toString(16) + payload;
+  }
+  const lengthHex = length.toString(16).padStart(Math.ceil(length.toString(16).length / 2) * 2, '0');
+  return (base + 55 + lengthHex.length / 2).toString(16) + lengthHex + payload;
+}
+
+// Type-3 payload body: chain id, nonce, fees, gas, to, value, data, access list,
+// blob fee, blob versioned hashes, then the signature
+const BLOB_TX_BODY = rlp([
+  rlp('01'), rlp('07'), rlp('3b9aca00'), rlp('0ba43b7400'), rlp('5208'), rlp('35'.repeat(20)), rlp(''), rlp(''),
+  rlp([]), rlp('01'), rlp([rlp('01' + 'ab'.repeat(31))]), rlp('01'), rlp('28'.repeat(32)), rlp('67'.repeat(32))
+]);
+const BLOB_TX = '0x03' + BLOB_TX_BODY;
+// Network form: the body wrapped with its blobs, commitments and proofs
+const BLOB_TX_NETWORK = '0x03' + rlp([BLOB_TX_BODY, rlp([rlp('00'.repeat(256))]), rlp([rlp('c0'.repeat(48))]), rlp([rlp('d0'.repeat(48))])]);
+
+describe('getTransactionHash', () => {
+  it('hashes a raw signed transaction', () => {
+    expect(getTransactionHash(EIP155_TX)).toBe('0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788');
+  });
+
+  it('accepts upper-case hex', () => {
+    expect(getTransactionHash('0x' + EIP155_TX.slice(2).toUpperCase()))
+      .toBe('0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788');
+  });
+
+  it('hashes a blob transaction in network form without its blobs', () => {
+    const body = Uint8Array.from(BLOB_TX.slice(2).match(/../g)!, byte => parseInt(byte, 16));
+    const expected = '0x' + Array.from(keccak256(body), byte => byte.toString(16).padStart(2, '0')).join('');
+
+    expect(getTransactionHash(BLOB_TX)).toBe(expected);
+    expect(getTransactionHash(BLOB_TX_NETWORK)).toBe(expected);
+  });
+
+  it('returns null for anything that is not a hex byte string', () => {
+    expect(getTransactionHash(undefined)).toBeNull();
+    expect(getTransactionHash('0x')).toBeNull();
+    expect(getTransactionHash('0xabc')).toBeNull();
+    expect(getTransactionHash('f86c09')).toBeNull();
+    expect(getTransactionHash('0xzz')).toBeNull();
+  });
+});
+
+describe('parseSolanaTransaction', () => {
+  it('reads the signature and blockhash of a legacy transaction', () => {
+    const { encoded, signature, blockhash } = createSolanaTransaction();
+    expect(parseSolanaTransaction(encoded)).toEqual({ signature, blockhash });
+  });
+
+  it('skips the version prefix of a versioned transaction', () => {
+    const { encoded, signature, blockhash } = createSolanaTransaction(true);
+    expect(parseSolanaTransaction(encoded, 'base58')).toEqual({ signature, blockhash });
+  });
+
+  it('reads base64 transactions', () => {
+    const { encoded, signature, blockhash } = createSolanaTransaction();
+    const bytes = base58Decode(encoded)!;
+    expect(parseSolanaTransaction(btoa(String.fromCharCode(...bytes)), 'base64')).toEqual({ signature, blockhash });
+  });
+
+  it('returns null for truncated or undecodable input', () => {
+    const { encoded } = createSolanaTransaction();
+    expect(parseSolanaTransaction(encoded.slice(0, 40))).toBeNull();
+    expect(parseSolanaTransaction('not base58 0OIl')).toBeNull();
+    expect(parseSolanaTransaction(encoded, 'jsonParsed')).toBeNull();
+    expect(parseSolanaTransaction(42)).toBeNull();
+  });
+});
+
+describe('isSolanaSignature', () => {
+  it('accepts 64-byte base58 values only', () => {
+    expect(isSolanaSignature(createSolanaTransaction().signature)).toBe(true);
+    expect(isSolanaSignature(createSolanaTransaction().blockhash)).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Signed transaction helpers
+ */
+
+import { keccak256 } from './keccak';
+import { base58Decode, base58Encode } from './base58';
+
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})+$/;
+const SIGNATURE_LENGTH = 64;
+const HASH_LENGTH = 32; // Account keys and blockhashes
+const BLOB_TRANSACTION_TYPE = 0x03; // EIP-4844
+
+/**
+ * Compute the hash of a raw signed EVM transaction (the eth_sendRawTransaction parameter)
+ * The hash is the Keccak-256 of the raw bytes, for legacy and typed transactions alike,
+ * except for blob transactions in network form, which hash without their blobs.
+ * Returns null when the value is not a hex byte string.
+ */
+export function getTransactionHash(rawTransaction: unknown): string | null {
+  if (typeof rawTransaction !== 'string' || !HEX_PATTERN.test(rawTransaction)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array((rawTransaction.length - 2) / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(rawTransaction.slice(2 + i * 2, 4 + i * 2), 16);
+  }
+
+  return '0x' + Array.from(keccak256(getSignedPayload(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The bytes a transaction hash covers
+ * A blob transaction in network form, 0x03 || rlp([tx_payload_body, blobs, commitments, proofs]),
+ * is hashed as 0x03 || rlp(tx_payload_body); every other transaction as its raw bytes.
+ */
+function getSignedPayload(bytes: Uint8Array): Uint8Array {
+  if (bytes[0] !== BLOB_TRANSACTION_TYPE) {
+    return bytes;
+  }
+
+  // In the canonical form the outer list holds the fields; in network form its first item is a list too
+  const wrapper = readRlpHeader(bytes, 1);
+  const body = wrapper?.isList ? readRlpHeader(bytes, wrapper.offset) : null;
+  if (!body?.isList) {
+    return bytes;
+  }
+
+  const payload = new Uint8Array(1 + body.end - wrapper!.offset);
+  payload[0] = BLOB_TRANSACTION_TYPE;
+  payload.set(bytes.subarray(wrapper!.offset, body.end), 1);
+  return payload;
+}
+
+/**
+ * Read the RLP item header at `offset`: whether the item is a list, where its
+ * contents start and where the item ends. Returns null when the item runs past the input.
+ */
+function readRlpHeader(bytes: Uint8Array, offset: number): { isList: boolean; offset: number; end: number } | null {
+  if (offset >= bytes.length) {
+    return null;
+  }
+
+  const prefix = bytes[offset];
+  const isList = prefix >= 0xc0;
+  const base = isList ? 0xc0 : 0x80;
+  let start = offset + 1;
+  let length: number;
+
+  if (prefix < 0x80) {
+    // A single byte is its own encoding
+    return { isList: false, offset, end: offset + 1 };
+  } else if (prefix - base <= 55) {
+    length = prefix - base;
+  } else {
+    // Long items: the length of the length, then the length itself (big-endian)
+    const lengthOfLength = prefix - base - 55;
+    if (start + lengthOfLength > bytes.length) {
+      return null;
+    }
+    length = 0;
+    for (let i = 0; i < lengthOfLength; i++) {
+      length = length * 256 + bytes[start + i];
+    }
+    start += lengthOfLength;
+  }
+
+  return start + length <= bytes.length ? { isList, offset: start, end: start + length } : null;
+}
+
+/**
+ * Read the signature and recent blockhash of a Solana wire transaction (the sendTransaction parameter)
+ * Legacy and versioned messages are supported. Returns null when the transaction can't be decoded.
+ */
+export function parseSolanaTransaction(
+  encoded: unknown,
+  encoding: unknown = 'base58'
+): { signature: string; blockhash: string } | null {
+  if (typeof encoded !== 'string') {
+    return null;
+  }
+
+  let bytes: Uint8Array | null = null;
+  if (encoding === 'base58') {
+    bytes = base58Decode(encoded);
+  } else if (encoding === 'base64') {
+    try {
+      bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+    } catch {
+      return null;
+    }
+  }
+  if (!bytes) {
+    return null;
+  }
+
+  // Signatures: compact-u16 count, then 64 bytes each; the first one identifies the transaction
+  const signatures = readCompactU16(bytes, 0);
+  if (!signatures || signatures.value === 0) {
+    return null;
+  }
+  const signatureStart = signatures.length;
+  let offset = signatureStart + signatures.value * SIGNATURE_LENGTH;
+
+  // Versioned messages start with a byte that has the high bit set
+  if (offset < bytes.length && (bytes[offset] & 0x80) !== 0) {
+    offset++;
+  }
+
+  // Message header (3 bytes), then the account keys
+  offset += 3;
+  const keys = readCompactU16(bytes, offset);
+  if (!keys) {
+    return null;
+  }
+  offset += keys.length + keys.value * HASH_LENGTH;
+
+  if (offset + HASH_LENGTH > bytes.length) {
+    return null;
+  }
+
+  return {
+    signature: base58Encode(bytes.slice(signatureStart, signatureStart + SIGNATURE_LENGTH)),
+    blockhash: base58Encode(bytes.slice(offset, offset + HASH_LENGTH))
+  };
+}
+
+/**
+ * Check that a string is a base58 Solana transaction signature
+ */
+export function isSolanaSignature(value: string): boolean {
+  return base58Decode(value)?.length === SIGNATURE_LENGTH;
+}
+
+/**
+ * Read a Solana compact-u16 (1 to 3 bytes, 7 bits each, little-endian)
+ */
+function readCompactU16(bytes: Uint8Array, offset: number): { value: number; length: number } | null {
+  let value = 0;
+  for (let i = 0; i < 3; i++) {
+    if (offset + i >= bytes.length) {
+      return null;
+    }
+    const byte = bytes[offset + i];
+    value |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) {
+      return { value, length: i + 1 };
+    }
+  }
+  return null;
+}
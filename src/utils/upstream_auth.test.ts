@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { authorizeRequest, getRPCAuth } from './upstream_auth';
+import { RPCAuth, RPCEndpoint } from '../types';
+
+const rpc: RPCEndpoint = { url: 'https://rpc.test/v2/', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true };
+
+function authorize(auth?: RPCAuth, apiKey?: string): { url: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const url = authorizeRequest({ ...rpc, auth, apiKey }, headers);
+  return { url, headers };
+}
+
+describe('getRPCAuth', () => {
+  it('treats the legacy apiKey as a bearer token', () => {
+    expect(getRPCAuth({ ...rpc, apiKey: 'key' })).toEqual({ type: 'bearer', token: 'key' });
+  });
+
+  it('prefers an explicit auth scheme over the apiKey', () => {
+    expect(getRPCAuth({ ...rpc, apiKey: 'key', auth: { type: 'path', key: 'other' } })).toEqual({ type: 'path', key: 'other' });
+  });
+
+  it('returns null for endpoints without auth', () => {
+    expect(getRPCAuth(rpc)).toBeNull();
+  });
+});
+
+describe('authorizeRequest', () => {
+  it('sends bearer tokens and the legacy apiKey in the Authorization header', () => {
+    expect(authorize({ type: 'bearer', token: 'secret' })).toEqual({
+      url: rpc.url,
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' }
+    });
+    expect(authorize(undefined, 'legacy').headers.Authorization).toBe('Bearer legacy');
+  });
+
+  it('sends a custom header', () => {
+    expect(authorize({ type: 'header', name: 'x-api-key', value: 'secret' }).headers['x-api-key']).toBe('secret');
+  });
+
+  it('sends basic credentials base64 encoded', () => {
+    expect(authorize({ type: 'basic', username: 'user', password: 'pass' }).headers.Authorization)
+      .toBe(`Basic ${btoa('user:pass')}`);
+  });
+
+  it('appends a path key as one escaped segment', () => {
+    const { url, headers } = authorize({ type: 'path', key: 'a/b c' });
+
+    expect(url).toBe('https://rpc.test/v2/a%2Fb%20c');
+    expect(headers.Authorization).toBeUndefined();
+  });
+
+  it('adds a query key and keeps the existing query', () => {
+    const url = authorizeRequest(
+      { ...rpc, url: 'https://rpc.test/?network=main', auth: { type: 'query', name: 'api-key', value: 'a&b' } },
+      {}
+    );
+
+    expect(url).toBe('https://rpc.test/?network=main&api-key=a%26b');
+  });
+
+  it('leaves the configured URL untouched', () => {
+    const endpoint: RPCEndpoint = { ...rpc, auth: { type: 'path', key: 'secret' } };
+    authorizeRequest(endpoint, {});
+
+    expect(endpoint.url).toBe(rpc.url);
+    expect(authorize().url).toBe(rpc.url);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Upstream authentication
+ * Providers authenticate with a bearer token, a custom header, a key in the URL or HTTP basic auth
+ */
+
+import { RPCAuth, RPCEndpoint } from '../types';
+import { base64Encode } from './base64';
+
+/**
+ * Get an endpoint's auth scheme; the legacy `apiKey` is a bearer token
+ */
+export function getRPCAuth(rpc: RPCEndpoint): RPCAuth | null {
+  if (rpc.auth) {
+    return rpc.auth;
+  }
+
+  return rpc.apiKey ? { type: 'bearer', token: rpc.apiKey } : null;
+}
+
+/**
+ * Apply an endpoint's auth to an outgoing request
+ * Adds auth headers in place and returns the URL to send the request to; keys that go
+ * into the URL never appear in `rpc.url`, so logged endpoint URLs stay free of them
+ */
+export function authorizeRequest(rpc: RPCEndpoint, headers: Record<string, string>): string {
+  const auth = getRPCAuth(rpc);
+
+  switch (auth?.type) {
+    case 'bearer':
+      headers['Authorization'] = `Bearer ${auth.token}`;
+      return rpc.url;
+    case 'header':
+      headers[auth.name] = auth.value;
+      return rpc.url;
+    case 'basic':
+      headers['Authorization'] = `Basic ${base64Encode(new TextEncoder().encode(`${auth.username}:${auth.password}`))}`;
+      return rpc.url;
+    case 'path': {
+      const url = new URL(rpc.url);
+      url.pathname = `${url.pathname.replace(/\/+$/, '')}/${encodeURIComponent(auth.key)}`;
+      return url.toString();
+    }
+    case 'query': {
+      const url = new URL(rpc.url);
+      url.searchParams.set(auth.name, auth.value);
+      return url.toString();
+    }
+    default:
+      return rpc.url;
+  }
+}
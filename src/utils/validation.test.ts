@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { Validator } from './validation';
+import { DEFAULT_RPC_CONFIG } from '../config/default_config';
+
+const chain = {
+  chainId: 1,
+  name: 'Test',
+  symbol: 'ETH',
+  rpcs: [{ url: 'https://rpc.test', name: 'rpc', priority: 1, timeout: 1000, maxRetries: 0, enabled: true }]
+};
+
+function errorFields(config: object): string[] {
+  return (Validator.validateChainConfig({ ...chain, ...config }).errors ?? []).map(error => error.field);
+}
+
+describe('Validator.validateChainConfig', () => {
+  it('accepts every default chain', () => {
+    for (const config of Object.values(DEFAULT_RPC_CONFIG.chains)) {
+      expect(Validator.validateChainConfig(config).errors).toBeUndefined();
+    }
+  });
+
+  it('accepts fully specified optional settings', () => {
+    expect(errorFields({
+      maxBlockLag: 0,
+      monotonicHead: true,
+      healthProbe: { method: 'eth_chainId', heightMethod: 'eth_blockNumber', heightParams: [] },
+      hedging: { enabled: true, delay: 200, methods: { eth_getLogs: { delay: 400 }, eth_call: { enabled: false } } },
+      coalescing: { enabled: false, methods: { eth_blockNumber: true } },
+      staleCache: { maxStale: 60, revalidate: true, methods: { eth_getLogs: 0 } }
+    })).toEqual([]);
+  });
+
+  it('rejects a negative or fractional maxBlockLag', () => {
+    expect(errorFields({ maxBlockLag: -1 })).toEqual(['maxBlockLag']);
+    expect(errorFields({ maxBlockLag: 1.5 })).toEqual(['maxBlockLag']);
+    expect(errorFields({ maxBlockLag: '5' })).toEqual(['maxBlockLag']);
+  });
+
+  it('rejects a non-boolean monotonicHead', () => {
+    expect(errorFields({ monotonicHead: 'yes' })).toEqual(['monotonicHead']);
+  });
+
+  it('requires at least two of the queried endpoints to agree', () => {
+    expect(errorFields({ quorum: { eth_call: { required: 2, of: 3 } } })).toEqual([]);
+    expect(errorFields({ quorum: { eth_call: { required: 1, of: 3 } } })).toEqual(['quorum.eth_call']);
+    expect(errorFields({ quorum: { eth_call: { required: 3, of: 2 } } })).toEqual(['quorum.eth_call']);
+    expect(errorFields({ quorum: { eth_call: { required: 2.5, of: 3 } } })).toEqual(['quorum.eth_call']);
+  });
+
+  it('checks method policy lists and the opt-out flag', () => {
+    expect(errorFields({ methodPolicy: { allow: ['debug_*'], inheritDefaults: false } })).toEqual([]);
+    expect(errorFields({ methodPolicy: { deny: 'eth_sign', inheritDefaults: 'no' } }))
+      .toEqual(['methodPolicy.inheritDefaults', 'methodPolicy.deny']);
+  });
+
+  it('checks the health probe shape', () => {
+    expect(errorFields({ healthProbe: 'eth_chainId' })).toEqual(['healthProbe']);
+    expect(errorFields({ healthProbe: { method: '', heightParams: 'latest' } }))
+      .toEqual(['healthProbe.method', 'healthProbe.heightParams']);
+  });
+
+  it('checks hedging at chain and method level', () => {
+    expect(errorFields({ hedging: true })).toEqual(['hedging']);
+    expect(errorFields({ hedging: { delay: -5, methods: { eth_call: { enabled: 'no' }, eth_getLogs: 100 } } }))
+      .toEqual(['hedging.delay', 'hedging.methods.eth_call.enabled', 'hedging.methods.eth_getLogs']);
+  });
+
+  it('checks coalescing flags', () => {
+    expect(errorFields({ coalescing: [] })).toEqual(['coalescing']);
+    expect(errorFields({ coalescing: { enabled: 1, methods: { eth_call: 'off' } } }))
+      .toEqual(['coalescing.enabled', 'coalescing.methods.eth_call']);
+  });
+
+  it('checks stale cache limits', () => {
+    expect(errorFields({ staleCache: 30 })).toEqual(['staleCache']);
+    expect(errorFields({ staleCache: { maxStale: -1, revalidate: 'true', methods: { eth_call: 2.5 } } }))
+      .toEqual(['staleCache.maxStale', 'staleCache.revalidate', 'staleCache.methods.eth_call']);
+    expect(errorFields({ staleCache: { maxStale: 86401 } })).toEqual(['staleCache.maxStale']);
+  });
+});
+
+describe('Validator.validateRPCAuth', () => {
+  const fields = (auth: unknown) => Validator.validateRPCAuth(auth).map(error => error.field);
+
+  it('accepts every auth scheme with its fields', () => {
+    expect(fields({ type: 'bearer', token: 't' })).toEqual([]);
+    expect(fields({ type: 'header', name: 'x-api-key', value: 'v' })).toEqual([]);
+    expect(fields({ type: 'path', key: 'k' })).toEqual([]);
+    expect(fields({ type: 'query', name: 'key', value: 'v' })).toEqual([]);
+    expect(fields({ type: 'basic', username: 'u', password: 'p' })).toEqual([]);
+  });
+
+  it('rejects unknown schemes and missing fields', () => {
+    expect(fields({ type: 'digest' })).toEqual(['auth.type']);
+    expect(fields('token')).toEqual(['auth.type']);
+    expect(fields({ type: 'basic', username: 'u', password: '' })).toEqual(['auth.password']);
+  });
+
+  it('rejects header names that are not valid HTTP header names', () => {
+    expect(fields({ type: 'header', name: 'x api key', value: 'v' })).toEqual(['auth.name']);
+  });
+});
@@ -8,6 +8,9 @@ import {
   JSONRPCMethod,
   TypedJSONRPCRequest
 } from '../types';
+import { METHOD_PATTERN } from './method_policy';
+import { SECRET_NAME_PATTERN, getEndpointSecrets, isSecretRef } from './secrets';
+import { APP_CONSTANTS } from '../constants';
 
 export class ValidationError extends Error {
   public readonly code: ErrorCode;
@@ -263,29 +266,54 @@ export class Validator {
       });
     }
 
-    // Validate isActive
-    if (typeof endpoint.isActive !== 'boolean') {
+    // Validate enabled (legacy configs send isActive instead)
+    const enabled = endpoint.enabled ?? endpoint.isActive;
+    if (typeof enabled !== 'boolean') {
       errors.push({
-        field: 'isActive',
-        message: 'IsActive must be a boolean',
+        field: 'enabled',
+        message: 'Enabled must be a boolean',
         code: ErrorCode.INVALID_REQUEST,
-        value: endpoint.isActive
+        value: enabled
       });
     }
 
+    // Validate capabilities (optional)
+    if (endpoint.capabilities !== undefined) {
+      const known: readonly string[] = APP_CONSTANTS.CAPABILITIES.VALUES;
+      if (!Array.isArray(endpoint.capabilities) ||
+        endpoint.capabilities.some((capability: any) => !known.includes(capability))) {
+        errors.push({
+          field: 'capabilities',
+          message: `Capabilities must be an array of: ${known.join(', ')}`,
+          code: ErrorCode.INVALID_REQUEST,
+          value: endpoint.capabilities
+        });
+      }
+    }
+
+    // Validate auth (optional)
+    if (endpoint.auth !== undefined) {
+      errors.push(...this.validateRPCAuth(endpoint.auth));
+    }
+    errors.push(...this.validateSecretRefs(endpoint));
+
     if (errors.length > 0) {
       return { isValid: false, errors };
     }
 
+    // Optional fields (e.g. auth) pass through; legacy isActive is dropped
+    const { isActive, ...rest } = endpoint;
+
     return {
       isValid: true,
       data: {
+        ...rest,
         url: endpoint.url.trim(),
         name: endpoint.name.trim(),
         priority: endpoint.priority,
         timeout: endpoint.timeout,
         maxRetries: endpoint.maxRetries,
-        isActive: endpoint.isActive
+        enabled
       }
     };
   }
@@ -376,6 +404,100 @@ export class Validator {
       }
     }
 
+    // Validate archiveThreshold (optional)
+    if (config.archiveThreshold !== undefined &&
+      (typeof config.archiveThreshold !== 'number' || config.archiveThreshold < 0 || !Number.isInteger(config.archiveThreshold))) {
+      errors.push({
+        field: 'archiveThreshold',
+        message: 'Archive threshold must be a non-negative integer',
+        code: ErrorCode.INVALID_REQUEST,
+        value: config.archiveThreshold
+      });
+    }
+
+    // Validate confirmations (optional)
+    if (config.confirmations !== undefined &&
+      (typeof config.confirmations !== 'number' || config.confirmations < 0 || !Number.isInteger(config.confirmations))) {
+      errors.push({
+        field: 'confirmations',
+        message: 'Confirmations must be a non-negative integer',
+        code: ErrorCode.INVALID_REQUEST,
+        value: config.confirmations
+      });
+    }
+
+    // Validate maxBlockLag (optional)
+    if (config.maxBlockLag !== undefined &&
+      (typeof config.maxBlockLag !== 'number' || config.maxBlockLag < 0 || !Number.isInteger(config.maxBlockLag))) {
+      errors.push({
+        field: 'maxBlockLag',
+        message: 'Max block lag must be a non-negative integer',
+        code: ErrorCode.INVALID_REQUEST,
+        value: config.maxBlockLag
+      });
+    }
+
+    // Validate monotonicHead (optional)
+    if (config.monotonicHead !== undefined && typeof config.monotonicHead !== 'boolean') {
+      errors.push({
+        field: 'monotonicHead',
+        message: 'Monotonic head must be a boolean',
+        code: ErrorCode.INVALID_REQUEST,
+        value: config.monotonicHead
+      });
+    }
+
+    // Validate genesisHash (optional)
+    if (config.genesisHash !== undefined && (typeof config.genesisHash !== 'string' || !config.genesisHash.trim())) {
+      errors.push({
+        field: 'genesisHash',
+        message: 'Genesis hash must be a non-empty string',
+        code: ErrorCode.INVALID_REQUEST,
+        value: config.genesisHash
+      });
+    }
+
+    // Validate broadcast / rebroadcast settings (optional)
+    const positiveIntegers: Array<[string, unknown]> = [
+      ['broadcast.fanout', config.broadcast?.fanout],
+      ['rebroadcast.fanout', config.rebroadcast?.fanout],
+      ['rebroadcast.interval', config.rebroadcast?.interval]
+    ];
+    for (const [field, value] of positiveIntegers) {
+      if (value !== undefined && (typeof value !== 'number' || value < 1 || !Number.isInteger(value))) {
+        errors.push({
+          field,
+          message: `${field} must be a positive integer`,
+          code: ErrorCode.INVALID_REQUEST,
+          value
+        });
+      }
+    }
+
+    // Validate methodPolicy (optional)
+    if (config.methodPolicy !== undefined) {
+      errors.push(...this.validateMethodPolicy(config.methodPolicy));
+    }
+
+    // Validate quorum (optional)
+    if (config.quorum !== undefined) {
+      errors.push(...this.validateQuorum(config.quorum));
+    }
+
+    // Validate healthProbe, hedging, coalescing and staleCache (optional)
+    if (config.healthProbe !== undefined) {
+      errors.push(...this.validateHealthProbe(config.healthProbe));
+    }
+    if (config.hedging !== undefined) {
+      errors.push(...this.validateHedging(config.hedging));
+    }
+    if (config.coalescing !== undefined) {
+      errors.push(...this.validateCoalescing(config.coalescing));
+    }
+    if (config.staleCache !== undefined) {
+      errors.push(...this.validateStaleCache(config.staleCache));
+    }
+
     if (errors.length > 0) {
       return { isValid: false, errors };
     }
@@ -388,9 +510,11 @@ export class Validator {
       }
     });
 
+    // Optional settings pass through unchanged
     return {
       isValid: true,
       data: {
+        ...config,
         chainId: this.validateChainId(config.chainId),
         name: config.name.trim(),
         symbol: config.symbol.trim(),
@@ -400,6 +524,269 @@ export class Validator {
     };
   }
 
+  /**
+   * Validates a chain method policy
+   */
+  static validateMethodPolicy(policy: any): ValidationErrorType[] {
+    const errors: ValidationErrorType[] = [];
+
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      errors.push({
+        field: 'methodPolicy',
+        message: 'Method policy must be an object with allow and/or deny lists',
+        code: ErrorCode.INVALID_REQUEST,
+        value: policy
+      });
+      return errors;
+    }
+
+    if (policy.inheritDefaults !== undefined && typeof policy.inheritDefaults !== 'boolean') {
+      errors.push({
+        field: 'methodPolicy.inheritDefaults',
+        message: 'Method policy inheritDefaults must be a boolean',
+        code: ErrorCode.INVALID_REQUEST,
+        value: policy.inheritDefaults
+      });
+    }
+
+    for (const list of ['allow', 'deny'] as const) {
+      const patterns = policy[list];
+      if (patterns === undefined) {
+        continue;
+      }
+
+      if (!Array.isArray(patterns)) {
+        errors.push({
+          field: `methodPolicy.${list}`,
+          message: `Method policy ${list} must be an array of method patterns`,
+          code: ErrorCode.INVALID_REQUEST,
+          value: patterns
+        });
+        continue;
+      }
+
+      patterns.forEach((pattern: any, index: number) => {
+        if (typeof pattern !== 'string' || !METHOD_PATTERN.test(pattern)) {
+          errors.push({
+            field: `methodPolicy.${list}[${index}]`,
+            message: 'Method pattern may only contain letters, digits, "_", "." and "*" wildcards',
+            code: ErrorCode.INVALID_REQUEST,
+            value: pattern
+          });
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates an endpoint's upstream auth scheme
+   */
+  static validateRPCAuth(auth: any): ValidationErrorType[] {
+    const schemes: Record<string, readonly string[]> = APP_CONSTANTS.UPSTREAM_AUTH.FIELDS;
+    const fields = auth && typeof auth === 'object' ? schemes[auth.type] : undefined;
+
+    if (!fields) {
+      return [{
+        field: 'auth.type',
+        message: `Auth type must be one of: ${Object.keys(schemes).join(', ')}`,
+        code: ErrorCode.INVALID_REQUEST,
+        value: auth?.type
+      }];
+    }
+
+    const errors: ValidationErrorType[] = [];
+    for (const field of fields) {
+      if (typeof auth[field] !== 'string' || !auth[field]) {
+        errors.push({
+          field: `auth.${field}`,
+          message: `${auth.type} auth requires a non-empty ${field}`,
+          code: ErrorCode.INVALID_REQUEST
+        });
+      }
+    }
+
+    if (auth.type === 'header' && typeof auth.name === 'string' && !/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(auth.name)) {
+      errors.push({
+        field: 'auth.name',
+        message: 'Auth header name must be a valid HTTP header name',
+        code: ErrorCode.INVALID_REQUEST,
+        value: auth.name
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates secret:// references among an endpoint's secrets
+   */
+  static validateSecretRefs(endpoint: RPCEndpoint): ValidationErrorType[] {
+    return getEndpointSecrets(endpoint)
+      .filter(({ value }) => isSecretRef(value) &&
+        !SECRET_NAME_PATTERN.test(value.slice(APP_CONSTANTS.SECRETS.REF_PREFIX.length)))
+      .map(({ field, value }) => ({
+        field,
+        message: 'Secret reference must be secret://NAME with a Worker secret name',
+        code: ErrorCode.INVALID_REQUEST,
+        value
+      }));
+  }
+
+  /**
+   * Validates per-method quorum policies
+   */
+  static validateQuorum(quorum: any): ValidationErrorType[] {
+    const errors: ValidationErrorType[] = [];
+
+    if (!quorum || typeof quorum !== 'object' || Array.isArray(quorum)) {
+      errors.push({
+        field: 'quorum',
+        message: 'Quorum must be an object mapping methods to { required, of }',
+        code: ErrorCode.INVALID_REQUEST,
+        value: quorum
+      });
+      return errors;
+    }
+
+    for (const [method, policy] of Object.entries<any>(quorum)) {
+      const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+      // A quorum of one is a plain request that pays for `of` upstream calls
+      if (!policy || !isCount(policy.required) || !isCount(policy.of) || policy.required < 2 || policy.required > policy.of) {
+        errors.push({
+          field: `quorum.${method}`,
+          message: 'Quorum policy needs integers with 2 <= required <= of',
+          code: ErrorCode.INVALID_REQUEST,
+          value: policy
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates a health probe override
+   */
+  static validateHealthProbe(probe: any): ValidationErrorType[] {
+    if (!isPlainObject(probe)) {
+      return [invalid('healthProbe', 'Health probe must be an object', probe)];
+    }
+
+    const errors: ValidationErrorType[] = [];
+    for (const key of ['method', 'heightMethod']) {
+      if (probe[key] !== undefined && (typeof probe[key] !== 'string' || !probe[key].trim())) {
+        errors.push(invalid(`healthProbe.${key}`, `Health probe ${key} must be a non-empty string`, probe[key]));
+      }
+    }
+    for (const key of ['params', 'heightParams']) {
+      if (probe[key] !== undefined && !Array.isArray(probe[key])) {
+        errors.push(invalid(`healthProbe.${key}`, `Health probe ${key} must be an array`, probe[key]));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates hedging settings: { enabled?, delay?, methods?: { [method]: { enabled?, delay? } } }
+   */
+  static validateHedging(hedging: any): ValidationErrorType[] {
+    const validatePolicy = (field: string, policy: any): ValidationErrorType[] => {
+      if (!isPlainObject(policy)) {
+        return [invalid(field, 'Hedging policy must be an object with enabled and/or delay', policy)];
+      }
+
+      const errors: ValidationErrorType[] = [];
+      if (policy.enabled !== undefined && typeof policy.enabled !== 'boolean') {
+        errors.push(invalid(`${field}.enabled`, 'Hedging enabled must be a boolean', policy.enabled));
+      }
+      if (policy.delay !== undefined && !isNonNegativeInteger(policy.delay)) {
+        errors.push(invalid(`${field}.delay`, 'Hedging delay must be a non-negative integer (milliseconds)', policy.delay));
+      }
+      return errors;
+    };
+
+    const errors = validatePolicy('hedging', hedging);
+    if (!isPlainObject(hedging)) {
+      return errors;
+    }
+
+    if (hedging.methods !== undefined) {
+      if (!isPlainObject(hedging.methods)) {
+        errors.push(invalid('hedging.methods', 'Hedging methods must be an object mapping methods to policies', hedging.methods));
+      } else {
+        for (const [method, policy] of Object.entries(hedging.methods)) {
+          errors.push(...validatePolicy(`hedging.methods.${method}`, policy));
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates coalescing settings: { enabled?, methods?: { [method]: boolean } }
+   */
+  static validateCoalescing(coalescing: any): ValidationErrorType[] {
+    if (!isPlainObject(coalescing)) {
+      return [invalid('coalescing', 'Coalescing must be an object with enabled and/or methods', coalescing)];
+    }
+
+    const errors: ValidationErrorType[] = [];
+    if (coalescing.enabled !== undefined && typeof coalescing.enabled !== 'boolean') {
+      errors.push(invalid('coalescing.enabled', 'Coalescing enabled must be a boolean', coalescing.enabled));
+    }
+    if (coalescing.methods !== undefined) {
+      if (!isPlainObject(coalescing.methods)) {
+        errors.push(invalid('coalescing.methods', 'Coalescing methods must be an object mapping methods to booleans', coalescing.methods));
+      } else {
+        for (const [method, enabled] of Object.entries(coalescing.methods)) {
+          if (typeof enabled !== 'boolean') {
+            errors.push(invalid(`coalescing.methods.${method}`, 'Coalescing method flag must be a boolean', enabled));
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates stale cache settings: { maxStale?, methods?: { [method]: seconds }, revalidate? }
+   */
+  static validateStaleCache(staleCache: any): ValidationErrorType[] {
+    if (!isPlainObject(staleCache)) {
+      return [invalid('staleCache', 'Stale cache must be an object', staleCache)];
+    }
+
+    const errors: ValidationErrorType[] = [];
+    const isStaleLimit = (value: unknown) =>
+      isNonNegativeInteger(value) && (value as number) <= APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT;
+    const limitMessage = `a non-negative integer of at most ${APP_CONSTANTS.CACHE_POLICY.STALE_LIMIT} (seconds)`;
+
+    if (staleCache.maxStale !== undefined && !isStaleLimit(staleCache.maxStale)) {
+      errors.push(invalid('staleCache.maxStale', `Max stale must be ${limitMessage}`, staleCache.maxStale));
+    }
+    if (staleCache.revalidate !== undefined && typeof staleCache.revalidate !== 'boolean') {
+      errors.push(invalid('staleCache.revalidate', 'Stale cache revalidate must be a boolean', staleCache.revalidate));
+    }
+    if (staleCache.methods !== undefined) {
+      if (!isPlainObject(staleCache.methods)) {
+        errors.push(invalid('staleCache.methods', 'Stale cache methods must be an object mapping methods to seconds', staleCache.methods));
+      } else {
+        for (const [method, seconds] of Object.entries(staleCache.methods)) {
+          if (!isStaleLimit(seconds)) {
+            errors.push(invalid(`staleCache.methods.${method}`, `Stale limit must be ${limitMessage}`, seconds));
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Validates JSON-RPC method
    */
@@ -492,4 +879,16 @@ export class Validator {
 
     return priority;
   }
-}
\ No newline at end of file
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function invalid(field: string, message: string, value: unknown): ValidationErrorType {
+  return { field, message, code: ErrorCode.INVALID_REQUEST, value };
+}